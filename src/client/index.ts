@@ -0,0 +1,722 @@
+import { randomUUID, webcrypto } from 'crypto';
+import type {
+  AgentFinding,
+  GroundTruthEvaluation,
+  MinerResponse,
+  SessionState,
+  SubnetSnapshot,
+  ValidationSession,
+  Wire
+} from '../types';
+import type {
+  ChallengeRequest,
+  CompleteSessionRequest,
+  ErrorReportRequest,
+  FailSessionRequest,
+  MinerResponseRequest,
+  MinerRewardRequest,
+  RewardsUpdateRequest,
+  StartSessionRequest,
+  SubnetSnapshotRequest,
+  TimeRange,
+  TriageRequest
+} from '../schemas';
+
+export type {
+  AgentFinding,
+  ChallengeRequest,
+  CompleteSessionRequest,
+  ErrorReportRequest,
+  FailSessionRequest,
+  MinerResponse,
+  MinerResponseRequest,
+  MinerRewardRequest,
+  RewardsUpdateRequest,
+  SessionState,
+  StartSessionRequest,
+  SubnetSnapshot,
+  SubnetSnapshotRequest,
+  TimeRange,
+  TriageRequest,
+  ValidationSession,
+  Wire
+};
+
+// =====================
+// OPTIONS + ERRORS
+// =====================
+
+/**
+ * Signs the canonical request string with the validator hotkey (sr25519).
+ * The server checks it against x-hotkey.
+ */
+export interface HotkeySigner {
+  hotkey: string;
+  sign(message: string): string | Promise<string>;
+}
+
+export interface ClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  signer?: HotkeySigner;
+  /** Attempts after the first for network errors, 429, 5xx and Retry-After responses. Default 3. */
+  retries?: number;
+  /** Base for exponential backoff when the server sends no Retry-After. Default 500ms. */
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface FieldError {
+  location: 'params' | 'query' | 'body';
+  field: string;
+  reason: string;
+}
+
+export class ValidatorApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: FieldError[],
+    readonly body?: unknown
+  ) {
+    super(message);
+    this.name = 'ValidatorApiError';
+  }
+}
+
+// =====================
+// REQUEST + RESPONSE TYPES
+// =====================
+
+export interface MinerResponsesBatchRequest {
+  responses: MinerResponseRequest[];
+  validatorAddress?: string;
+}
+
+interface Ack {
+  success: true;
+  message: string;
+}
+
+export interface StartSessionResponse extends Ack {
+  sessionId: string;
+  timestamp: string;
+}
+
+export interface MinerResponseResult extends Ack {
+  minerUid: number;
+  findingsCount: number;
+  evaluation?: Pick<GroundTruthEvaluation, 'precision' | 'recall' | 'f1'>;
+}
+
+export interface MinerResponsesBatchResult {
+  success: boolean;
+  message: string;
+  accepted: number;
+  rejected: number;
+  results: Array<{
+    index: number;
+    minerUid?: number;
+    success: boolean;
+    action?: 'inserted' | 'updated';
+    error?: string;
+    details?: FieldError[];
+  }>;
+}
+
+export interface MinerRewardResult extends Ack {
+  minerUid: number;
+  rewardScore: number;
+  findingsCount: number;
+  computedReward?: { policyVersion: string; score: number; delta: number; flagged: boolean };
+}
+
+export interface RewardsUpdateResult extends Ack {
+  updateId: string;
+  minerCount: number;
+  flaggedCount: number;
+}
+
+export interface SessionFindings {
+  sessionId: string;
+  projectId?: string;
+  timestamp: string;
+  summary: { totalFindings: number; criticalFindings: number; minersWithFindings: number };
+  findingsByMiner: Array<{
+    minerUid: number;
+    githubUrl?: string;
+    findingsCount: number;
+    severityBreakdown: { critical: number; high: number; medium: number; low: number };
+    findings: AgentFinding[];
+    evaluation?: Wire<GroundTruthEvaluation>;
+    rewardScore?: number;
+    timestamp: string;
+  }>;
+}
+
+export interface WeightVector {
+  uids: number[];
+  weights: number[];
+  excludedUids: number[];
+  maxWeightLimit: number;
+  contentHash: string;
+  hashAlgorithm: string;
+  updateIds: string[];
+}
+
+export interface MinerStats {
+  avgReward: number;
+  totalParticipations: number;
+  successCount: number;
+  failureCount: number;
+  avgAccuracy: number;
+  totalFindingsDiscovered: number;
+  totalCriticalFindings: number;
+}
+
+export interface MinerRegistration {
+  minerUid: number;
+  hotkey: string;
+  active: boolean;
+  startedAt: string;
+  lastSeenAt: string;
+  endedAt?: string;
+}
+
+export interface MinerRegistrationsResult {
+  minerUid: number;
+  currentHotkey: string | null;
+  reRegistrations: number;
+  registrations: MinerRegistration[];
+}
+
+/** Reviewer verdict counts; falsePositiveRate is null until a finding has been triaged */
+export interface TriageStats {
+  triagedCount: number;
+  confirmed: number;
+  falsePositive: number;
+  duplicate: number;
+  wontFix: number;
+  falsePositiveRate: number | null;
+}
+
+export interface FindingTriage {
+  sessionId: string;
+  minerUid: number;
+  minerHotkey?: string;
+  findingId: string;
+  projectId?: string;
+  severity?: string;
+  submittedAt: string;
+  status?: TriageRequest['status'];
+  duplicateOf?: { sessionId: string; minerUid: number; findingId: string };
+  history: Array<{
+    action: 'status' | 'comment';
+    status?: TriageRequest['status'];
+    comment?: string;
+    reviewer: string;
+    at: string;
+  }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MinerHistoryResult {
+  minerUid: number;
+  history: Array<Record<string, unknown>>;
+  stats: MinerStats;
+  triage: TriageStats;
+  currentHotkey: string | null;
+  /** Stats per hotkey that has held the UID; minerHotkey is null for rows recorded before hotkey tracking */
+  periods: Array<MinerStats & {
+    minerHotkey: string | null;
+    current: boolean;
+    firstSeenAt: string;
+    lastSeenAt: string;
+    registrations: MinerRegistration[];
+    triage: TriageStats;
+  }>;
+  registrations: MinerRegistration[];
+}
+
+export interface MinerTrend {
+  minerUid: number;
+  timeRange: TimeRange;
+  bucketMs: number;
+  data: Array<{
+    timestamp: string;
+    participations: number;
+    successRate: number;
+    avgReward: number | null;
+    avgAccuracy: number | null;
+    findingsCount: number;
+    criticalFindingsCount: number;
+    avgExecutionTime: number | null;
+    percentileRank: number;
+    minersInBucket: number;
+  }>;
+  streaks: {
+    current: { status: 'success' | 'failed' | null; length: number };
+    longestSuccess: number;
+    longestFailure: number;
+  };
+  volatility: {
+    participations: number;
+    meanReward: number;
+    rewardStdDev: number;
+    coefficientOfVariation: number | null;
+    bucketRewardStdDev: number;
+  };
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  minerUid: number;
+  minerHotkey: string | null;
+  currentHolder: boolean | null;
+  totalRewards: number;
+  avgReward: number;
+  participationCount: number;
+  successRate: string;
+  avgAccuracy: string;
+  findingsDiscovered: number;
+  criticalFindings: number;
+  triagedFindings: number;
+  falsePositiveRate: number | null;
+}
+
+export interface ListSessionsQuery {
+  limit?: number;
+  /** nextCursor from the previous page */
+  cursor?: string;
+  state?: SessionState[];
+  validatorAddress?: string;
+  projectId?: string;
+  configVersion?: string;
+  difficulty?: 'easy' | 'medium' | 'hard' | 'critical';
+  from?: Date;
+  to?: Date;
+  /** Top-level fields to return; sessionId and timestamp are always included */
+  fields?: Array<Exclude<keyof ValidationSession, 'sessionId' | 'timestamp'>>;
+}
+
+export interface SessionPage {
+  data: Array<Partial<Wire<ValidationSession>> & { sessionId: string; timestamp: string }>;
+  pagination: { limit: number; hasMore: boolean; nextCursor: string | null };
+}
+
+export interface FindingSearchHit {
+  sessionId: string;
+  projectId?: string;
+  validatorAddress?: string;
+  minerUid: number;
+  minerHotkey?: string;
+  findingId: string;
+  title: string;
+  description?: string;
+  remediation?: string;
+  severity: AgentFinding['severity'];
+  confidenceScore?: number;
+  codeLocation?: string;
+  submittedAt: string;
+  /** Text relevance; only set when searching with q */
+  score?: number;
+  /** HTML snippets with matched terms in <mark>; only set when searching with q */
+  highlights?: { title?: string; description?: string; remediation?: string };
+}
+
+export interface FindingSearchResult {
+  data: FindingSearchHit[];
+  facets: Record<'severity' | 'projectId' | 'minerUid' | 'validator', Array<{ value: string | number; count: number }>>;
+  /** Submission dates searched; without q the server defaults to the last 30 days */
+  range: { from: string | null; to: string | null };
+  pagination: { limit: number; skip: number; total: number };
+}
+
+export interface FindingSearchQuery {
+  q?: string;
+  severity?: Array<AgentFinding['severity']>;
+  projectId?: string;
+  minerUid?: number;
+  validator?: string;
+  from?: Date;
+  to?: Date;
+  minConfidence?: number;
+  limit?: number;
+  skip?: number;
+}
+
+export interface PlagiarismSuspect {
+  pairId: string;
+  original: { sessionId: string; minerUid: number; minerHotkey?: string; submittedAt: string };
+  suspect: { sessionId: string; minerUid: number; minerHotkey?: string; submittedAt: string };
+  crossSession: boolean;
+  score: number;
+  sameRepo: boolean;
+  repoKey?: string;
+  findingOverlap: number;
+  sharedFindings: Array<{ fingerprint: string; title: string; originalFindingId: string; suspectFindingId: string }>;
+  detectedAt: string;
+  updatedAt: string;
+}
+
+// =====================
+// TRANSPORT
+// =====================
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const findingPath = (sessionId: string, minerUid: number, findingId: string, action: 'triage' | 'comments'): string =>
+  `/api/validation/${encodeURIComponent(sessionId)}/miners/${minerUid}/findings/${encodeURIComponent(findingId)}/${action}`;
+
+const queryString = (query: Record<string, string | number | boolean | undefined>): string => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+};
+
+/** Parsed JSON body, or undefined for an empty or non-JSON one (e.g. a proxy's HTML error page) */
+const parseJson = (text: string): any => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+interface RequestOptions {
+  body?: unknown;
+  idempotencyKey?: string;
+}
+
+// =====================
+// CLIENT
+// =====================
+
+export class ValidatorClient {
+  private readonly baseUrl: string;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.retries = options.retries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Signs the same canonical string the server rebuilds:
+   * METHOD \n path?query \n sha256(body) \n timestamp \n nonce
+   */
+  private async authHeaders(method: string, path: string, body: string): Promise<Record<string, string>> {
+    const { apiKey, signer } = this.options;
+    if (!signer) return apiKey ? { 'x-api-key': apiKey } : {};
+
+    const timestamp = String(Date.now());
+    const nonce = randomUUID();
+    const bodyHash = toHex(await webcrypto.subtle.digest('SHA-256', new TextEncoder().encode(body)));
+    const signature = await signer.sign([method, path, bodyHash, timestamp, nonce].join('\n'));
+    return {
+      'x-hotkey': signer.hotkey,
+      'x-signature': signature,
+      'x-timestamp': timestamp,
+      'x-nonce': nonce
+    };
+  }
+
+  /**
+   * Retries network failures, 429, 5xx and anything carrying Retry-After.
+   * Writes are only retried with an Idempotency-Key, which is reused on every
+   * attempt so the server applies the write once.
+   */
+  async request<T>(method: 'GET' | 'POST', path: string, { body, idempotencyKey }: RequestOptions = {}): Promise<T> {
+    const payload = body === undefined ? '' : JSON.stringify(body);
+    const canRetry = method === 'GET' || idempotencyKey !== undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = {
+        ...(await this.authHeaders(method, path, payload)),
+        ...(payload ? { 'Content-Type': 'application/json' } : {}),
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+      };
+      const isLastAttempt = !canRetry || attempt >= this.retries;
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+          method,
+          headers,
+          body: payload || undefined,
+          signal: this.options.timeoutMs ? AbortSignal.timeout(this.options.timeoutMs) : undefined
+        });
+      } catch (err) {
+        if (isLastAttempt) throw err;
+        await sleep(this.retryDelayMs * 2 ** attempt);
+        continue;
+      }
+
+      const retryAfter = response.headers.get('retry-after');
+      if (!response.ok && !isLastAttempt && (RETRYABLE_STATUS.has(response.status) || retryAfter !== null)) {
+        const waitSeconds = Number(retryAfter);
+        await sleep(isFinite(waitSeconds) && retryAfter !== null ? waitSeconds * 1000 : this.retryDelayMs * 2 ** attempt);
+        continue;
+      }
+
+      const text = await response.text();
+      const json = parseJson(text);
+      if (!response.ok) {
+        throw new ValidatorApiError(response.status, json?.error ?? response.statusText, json?.details, json ?? text);
+      }
+      if (text && json === undefined) {
+        throw new ValidatorApiError(response.status, 'Response body is not JSON', undefined, text);
+      }
+      return json as T;
+    }
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    return (await this.request<{ data: T }>('GET', path)).data;
+  }
+
+  private write<T>(path: string, body: unknown, idempotencyKey: string = randomUUID()): Promise<T> {
+    return this.request<T>('POST', path, { body, idempotencyKey });
+  }
+
+  // ── Validator writes ──────────────────────────────────────
+
+  startSession(body: StartSessionRequest, idempotencyKey?: string): Promise<StartSessionResponse> {
+    return this.write('/api/validation/start', body, idempotencyKey);
+  }
+
+  recordChallenge(sessionId: string, body: ChallengeRequest, idempotencyKey?: string): Promise<Ack & { projectId: string }> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/challenge`, body, idempotencyKey);
+  }
+
+  submitMinerResponse(sessionId: string, body: MinerResponseRequest, idempotencyKey?: string): Promise<MinerResponseResult> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/miner-response`, body, idempotencyKey);
+  }
+
+  submitMinerResponses(
+    sessionId: string,
+    body: MinerResponsesBatchRequest,
+    idempotencyKey?: string
+  ): Promise<MinerResponsesBatchResult> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/miner-responses`, body, idempotencyKey);
+  }
+
+  recordMinerReward(sessionId: string, body: MinerRewardRequest, idempotencyKey?: string): Promise<MinerRewardResult> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/miner-reward`, body, idempotencyKey);
+  }
+
+  updateRewards(sessionId: string, body: RewardsUpdateRequest, idempotencyKey?: string): Promise<RewardsUpdateResult> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/rewards-update`, body, idempotencyKey);
+  }
+
+  recordSubnetSnapshot(sessionId: string, body: SubnetSnapshotRequest, idempotencyKey?: string): Promise<Ack> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/subnet-snapshot`, body, idempotencyKey);
+  }
+
+  reportError(sessionId: string, body: ErrorReportRequest, idempotencyKey?: string): Promise<Ack> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/error`, body, idempotencyKey);
+  }
+
+  completeSession(sessionId: string, body: CompleteSessionRequest = {}, idempotencyKey?: string): Promise<Ack & { sessionId: string }> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/complete`, body, idempotencyKey);
+  }
+
+  failSession(sessionId: string, body: FailSessionRequest, idempotencyKey?: string): Promise<Ack & { sessionId: string; reason: string }> {
+    return this.write(`/api/validation/${encodeURIComponent(sessionId)}/fail`, body, idempotencyKey);
+  }
+
+  async triageFinding(
+    sessionId: string, minerUid: number, findingId: string, body: TriageRequest, idempotencyKey?: string
+  ): Promise<FindingTriage> {
+    return (await this.write<{ data: FindingTriage }>(findingPath(sessionId, minerUid, findingId, 'triage'), body, idempotencyKey)).data;
+  }
+
+  async commentOnFinding(
+    sessionId: string, minerUid: number, findingId: string, comment: string, idempotencyKey?: string
+  ): Promise<FindingTriage> {
+    return (await this.write<{ data: FindingTriage }>(findingPath(sessionId, minerUid, findingId, 'comments'), { comment }, idempotencyKey)).data;
+  }
+
+  /**
+   * Starts a session and returns a helper bound to it.
+   */
+  async beginSession(body: StartSessionRequest): Promise<SessionHandle> {
+    const { sessionId } = await this.startSession(body);
+    return new SessionHandle(this, sessionId, body.validatorAddress);
+  }
+
+  // ── Reads ─────────────────────────────────────────────────
+
+  getSession(sessionId: string): Promise<Wire<ValidationSession>> {
+    return this.get(`/api/validation/${encodeURIComponent(sessionId)}`);
+  }
+
+  getFindingTriage(sessionId: string, minerUid: number, findingId: string): Promise<FindingTriage> {
+    return this.get(findingPath(sessionId, minerUid, findingId, 'triage'));
+  }
+
+  getSessionFindings(sessionId: string): Promise<SessionFindings> {
+    return this.get(`/api/validation/${encodeURIComponent(sessionId)}/findings`);
+  }
+
+  getSessionWeights(sessionId: string, maxWeightLimit?: number): Promise<WeightVector & { sessionId: string }> {
+    return this.get(`/api/validation/${encodeURIComponent(sessionId)}/weights${queryString({ maxWeightLimit })}`);
+  }
+
+  listSessions({ state, fields, from, to, ...query }: ListSessionsQuery = {}): Promise<SessionPage> {
+    return this.request('GET', `/api/validation/sessions${queryString({
+      ...query,
+      state: state?.join(','),
+      fields: fields?.join(','),
+      from: from?.toISOString(),
+      to: to?.toISOString()
+    })}`);
+  }
+
+  getRecentSessions(query: { limit?: number; skip?: number } = {}): Promise<Wire<ValidationSession>[]> {
+    return this.get(`/api/validation/sessions/recent${queryString(query)}`);
+  }
+
+  getSessionStats(timeRange?: TimeRange): Promise<Record<string, number>> {
+    return this.get(`/api/validation/sessions/stats${queryString({ timeRange })}`);
+  }
+
+  getMinerHistory(minerUid: number, query: { limit?: number; minerHotkey?: string } = {}): Promise<MinerHistoryResult> {
+    return this.request('GET', `/api/miners/${minerUid}/history${queryString(query)}`);
+  }
+
+  getMinerRegistrations(minerUid: number): Promise<MinerRegistrationsResult> {
+    return this.request('GET', `/api/miners/${minerUid}/registrations`);
+  }
+
+  getMinerTrend(minerUid: number, timeRange?: TimeRange): Promise<MinerTrend> {
+    return this.request('GET', `/api/miners/${minerUid}/trend${queryString({ timeRange })}`);
+  }
+
+  async getLeaderboard(query: { limit?: number; timeRange?: TimeRange } = {}): Promise<LeaderboardEntry[]> {
+    return (await this.request<{ leaderboard: LeaderboardEntry[] }>('GET', `/api/leaderboard${queryString(query)}`)).leaderboard;
+  }
+
+  getCriticalFindings(query: { limit?: number } = {}): Promise<Array<Record<string, unknown>>> {
+    return this.get(`/api/findings/critical${queryString(query)}`);
+  }
+
+  searchFindings({ severity, from, to, ...query }: FindingSearchQuery = {}): Promise<FindingSearchResult> {
+    return this.request('GET', `/api/findings/search${queryString({
+      ...query,
+      severity: severity?.join(','),
+      from: from?.toISOString(),
+      to: to?.toISOString()
+    })}`);
+  }
+
+  getPlagiarismSuspects(
+    query: { sessionId?: string; minerUid?: number; minScore?: number; crossSession?: boolean; limit?: number; skip?: number } = {}
+  ): Promise<PlagiarismSuspect[]> {
+    return this.get(`/api/plagiarism/suspects${queryString(query)}`);
+  }
+
+  getProjectSummary(projectId: string): Promise<Record<string, unknown>> {
+    return this.get(`/api/project/${encodeURIComponent(projectId)}/summary`);
+  }
+}
+
+// =====================
+// SESSION HELPER
+// =====================
+
+type SessionStage = 'started' | 'challenged' | 'completed' | 'failed';
+
+/**
+ * Walks one session through start → challenge → responses/rewards → complete,
+ * refusing calls out of order before they reach the server.
+ */
+export class SessionHandle {
+  private stage: SessionStage = 'started';
+
+  constructor(
+    private readonly client: ValidatorClient,
+    readonly sessionId: string,
+    private readonly validatorAddress?: string
+  ) {}
+
+  get currentStage(): SessionStage {
+    return this.stage;
+  }
+
+  private expect(...stages: SessionStage[]): void {
+    if (!stages.includes(this.stage)) {
+      throw new Error(`Session ${this.sessionId} is ${this.stage}; expected ${stages.join(' or ')}`);
+    }
+  }
+
+  private owned<T extends object>(body: T): T & { validatorAddress?: string } {
+    return this.validatorAddress ? { validatorAddress: this.validatorAddress, ...body } : body;
+  }
+
+  async challenge(body: ChallengeRequest) {
+    this.expect('started');
+    const result = await this.client.recordChallenge(this.sessionId, this.owned(body));
+    this.stage = 'challenged';
+    return result;
+  }
+
+  snapshot(body: SubnetSnapshotRequest) {
+    this.expect('started', 'challenged');
+    return this.client.recordSubnetSnapshot(this.sessionId, this.owned(body));
+  }
+
+  minerResponse(body: MinerResponseRequest) {
+    this.expect('challenged');
+    return this.client.submitMinerResponse(this.sessionId, this.owned(body));
+  }
+
+  minerResponses(responses: MinerResponseRequest[]) {
+    this.expect('challenged');
+    return this.client.submitMinerResponses(this.sessionId, this.owned({ responses }));
+  }
+
+  reward(body: MinerRewardRequest) {
+    this.expect('challenged');
+    return this.client.recordMinerReward(this.sessionId, this.owned(body));
+  }
+
+  rewards(body: RewardsUpdateRequest) {
+    this.expect('challenged');
+    return this.client.updateRewards(this.sessionId, this.owned(body));
+  }
+
+  error(body: ErrorReportRequest) {
+    this.expect('started', 'challenged');
+    return this.client.reportError(this.sessionId, this.owned(body));
+  }
+
+  async complete(body: CompleteSessionRequest = {}) {
+    this.expect('challenged');
+    const result = await this.client.completeSession(this.sessionId, this.owned(body));
+    this.stage = 'completed';
+    return result;
+  }
+
+  async fail(reason: string) {
+    this.expect('started', 'challenged');
+    const result = await this.client.failSession(this.sessionId, this.owned({ reason }));
+    this.stage = 'failed';
+    return result;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Request body schemas for the session write and triage endpoints, shared by
+ * the server (which validates with them) and the client SDK (typed against
+ * their inputs).
+ */
+import { z } from 'zod/v3';
+
+export const SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'] as const;
+export const DIFFICULTIES = ['easy', 'medium', 'hard', 'critical'] as const;
+export const COMPLETION_STATUSES = ['completed', 'error', 'timeout', 'no_response'] as const;
+export const ERROR_STAGES = [
+  'session-start', 'challenge-fetch', 'ground-truth-fetch',
+  'miner-query', 'miner-processing', 'rewards-update',
+  'subnet-snapshot', 'validator-critical'
+] as const;
+export const TIME_RANGES = ['24h', '7d', '30d'] as const;
+export const TRIAGE_STATUSES = ['confirmed', 'false-positive', 'duplicate', 'wont-fix'] as const;
+
+export const minerUidField = z.number().int().min(0);
+export const scoreField = z.number().min(0).max(1);
+export const urlWhere = (check: (u: URL) => boolean) => (value: string): boolean => {
+  try {
+    return check(new URL(value));
+  } catch {
+    return false;
+  }
+};
+
+export const githubUrlField = z.string().max(256).refine(
+  urlWhere(u => u.hostname === 'github.com'),
+  'must be a valid github.com URL'
+);
+
+// Legacy ownership hints read by verifySessionOwner for unbound API keys
+export const ownerFields = {
+  validatorAddress: z.string().min(1).max(64).optional(),
+  _meta: z.object({ hotkey: z.string().max(64).optional() }).passthrough().optional()
+};
+
+export const startSessionBody = z.object({
+  ...ownerFields,
+  sampledMinerUids: z.array(minerUidField).min(1).max(256),
+  configVersion: z.string().max(32).optional()
+});
+
+export const challengeBody = z.object({
+  ...ownerFields,
+  projectId: z.string().min(1).max(128),
+  description: z.string().max(2048).optional(),
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  rawData: z.record(z.unknown()).optional()
+});
+
+export const agentFindingInput = z.object({
+  id: z.string().min(1).max(64).optional(),
+  title: z.string().min(1).max(256),
+  severity: z.enum(SEVERITIES),
+  description: z.string().max(2048).optional(),
+  codeLocation: z.string().max(256).optional(),
+  line: z.number().int().min(0).max(10_000_000).optional(),
+  impact: z.string().max(2048).optional(),
+  remediation: z.string().max(2048).optional(),
+  confidenceScore: scoreField.optional()
+});
+
+export const minerResponseBody = z.object({
+  ...ownerFields,
+  minerUid: minerUidField,
+  minerHotkey: z.string().min(1).max(64).optional(),
+  githubUrl: githubUrlField.optional(),
+  responseTime: z.number().min(0).max(3_600_000).optional(),
+  success: z.boolean().default(false),
+  errorMessage: z.string().max(512).optional(),
+  agentPerformance: z.object({
+    executionTime: z.number().min(0).max(3_600_000).optional(),
+    findingsCount: z.number().int().min(0).max(10_000).optional(),
+    accuracy: scoreField.optional(),
+    completionStatus: z.enum(COMPLETION_STATUSES).optional()
+  }).optional(),
+  agentFindings: z.object({
+    findings: z.array(agentFindingInput).max(500).default([])
+  }).optional(),
+  rewardScore: scoreField.optional(),
+  rewardReason: z.string().max(256).optional()
+});
+
+// Items are validated one by one so a bad entry doesn't sink the batch
+export const minerResponsesBatchBody = z.object({
+  ...ownerFields,
+  responses: z.array(z.unknown()).min(1).max(256)
+    .describe('Miner-response bodies; each is validated and reported on separately')
+});
+
+export const minerRewardBody = z.object({
+  ...ownerFields,
+  minerUid: minerUidField,
+  rewardScore: scoreField,
+  rewardReason: z.string().max(256).optional()
+});
+
+export const rewardsUpdateBody = z.object({
+  ...ownerFields,
+  minerUids: z.array(minerUidField).min(1).max(256),
+  rewards: z.array(scoreField).min(1).max(256)
+}).refine(b => b.minerUids.length === b.rewards.length, {
+  message: 'minerUids and rewards must have the same length',
+  path: ['rewards']
+});
+
+export const subnetSnapshotBody = z.object({
+  ...ownerFields,
+  netuid: z.number().int().min(0).max(65535),
+  block: z.number().int().min(0),
+  activeValidators: z.number().int().min(0).max(10_000).optional(),
+  activeMiners: z.number().int().min(0).max(100_000).optional(),
+  totalStake: z.number().min(0).optional(),
+  emissionPerBlock: z.number().min(0).optional(),
+  validatorStake: z.number().min(0).optional()
+});
+
+export const errorBody = z.object({
+  ...ownerFields,
+  stage: z.enum(ERROR_STAGES),
+  message: z.string().min(1).max(1024),
+  stackTrace: z.string().max(4096).optional()
+});
+
+export const completeBody = z.object({
+  ...ownerFields,
+  metrics: z.object({
+    totalQueryTime: z.number().min(0).max(86_400_000).optional(),
+    averageRewardScore: scoreField.optional(),
+    successRate: z.number().min(0).max(100).optional(),
+    failureCount: z.number().int().min(0).max(10_000).optional(),
+    validFindings: z.number().int().min(0).max(100_000).optional()
+  }).optional()
+});
+
+export const failBody = z.object({
+  ...ownerFields,
+  reason: z.string().min(1).max(1024)
+});
+
+export const triageCommentField = z.string().trim().min(1).max(2048);
+
+export const triageBody = z.object({
+  status: z.enum(TRIAGE_STATUSES),
+  comment: triageCommentField.optional(),
+  // The finding this one repeats, when status is duplicate
+  duplicateOf: z.object({
+    sessionId: z.string().min(1).max(64).optional(),
+    minerUid: minerUidField,
+    findingId: z.string().min(1).max(64)
+  }).optional()
+}).refine(
+  b => b.duplicateOf === undefined || b.status === 'duplicate',
+  { message: 'only allowed when status is duplicate', path: ['duplicateOf'] }
+);
+
+export const triageCommentBody = z.object({ comment: triageCommentField });
+
+// Request bodies as callers send them (before coercion and defaults); the
+// client SDK is typed against these
+export type StartSessionRequest = z.input<typeof startSessionBody>;
+export type ChallengeRequest = z.input<typeof challengeBody>;
+export type AgentFindingInput = z.input<typeof agentFindingInput>;
+export type MinerResponseRequest = z.input<typeof minerResponseBody>;
+export type MinerRewardRequest = z.input<typeof minerRewardBody>;
+export type RewardsUpdateRequest = z.input<typeof rewardsUpdateBody>;
+export type SubnetSnapshotRequest = z.input<typeof subnetSnapshotBody>;
+export type ErrorReportRequest = z.input<typeof errorBody>;
+export type CompleteSessionRequest = z.input<typeof completeBody>;
+export type TriageRequest = z.input<typeof triageBody>;
+export type FailSessionRequest = z.input<typeof failBody>;
+export type TimeRange = typeof TIME_RANGES[number];
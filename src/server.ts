@@ -1,8 +1,49 @@
-import express, { Request, Response, NextFunction, Express } from 'express';
-import mongoose, { Schema, Document, Model } from 'mongoose';
+import express, { Request, Response, NextFunction, Express, RequestHandler } from 'express';
+import mongoose, { Schema, Document, Model, PipelineStage } from 'mongoose';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
+import { cryptoWaitReady, signatureVerify } from '@polkadot/util-crypto';
+// zod/v3 is the entry zod-to-json-schema is typed against; mixing it with
+// the root entry makes every schema conversion a deep structural comparison
+import { z } from 'zod/v3';
+import { zodToJsonSchema, type Options as JsonSchemaOptions } from 'zod-to-json-schema';
+import { AuditSchema } from './utils';
+import {
+  AgentFinding,
+  AgentFindingsData,
+  ComputedReward,
+  GroundTruthEvaluation,
+  GroundTruthVulnerability,
+  MinerResponse,
+  SessionState,
+  ValidationSession
+} from './types';
+import {
+  DIFFICULTIES,
+  SEVERITIES,
+  TIME_RANGES,
+  TRIAGE_STATUSES,
+  agentFindingInput,
+  challengeBody,
+  completeBody,
+  errorBody,
+  failBody,
+  minerResponseBody,
+  minerResponsesBatchBody,
+  minerRewardBody,
+  minerUidField,
+  rewardsUpdateBody,
+  scoreField,
+  startSessionBody,
+  subnetSnapshotBody,
+  triageBody,
+  triageCommentBody,
+  urlWhere,
+  type TimeRange
+} from './schemas';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import mongoSanitize from 'express-mongo-sanitize';
@@ -22,6 +63,72 @@ for (const key of REQUIRED_ENV) {
 
 const API_KEY = process.env.API_KEY!;
 
+// Max clock skew accepted on x-timestamp for hotkey-signed requests
+const SIGNATURE_MAX_SKEW_MS = Number(process.env.SIGNATURE_MAX_SKEW_MS) || 60_000;
+// When true, session write routes reject requests that are not hotkey-signed
+const REQUIRE_SIGNED_WRITES = process.env.REQUIRE_SIGNED_WRITES === 'true';
+
+const API_KEY_SCOPES = ['session-write', 'reward-write', 'triage', 'ground-truth', 'admin'] as const;
+type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Sessions still pending/in-progress this long after start are failed by the reaper
+const SESSION_TIMEOUT_MS = Number(process.env.SESSION_TIMEOUT_MS) || 2 * 60 * 60 * 1000;
+const REAPER_INTERVAL_MS = Number(process.env.REAPER_INTERVAL_MS) || 5 * 60 * 1000;
+// Serverless deploys have no long-lived process for the reaper and webhook
+// timers; a scheduler calls /api/cron/* with this bearer secret instead
+const CRON_SECRET = process.env.CRON_SECRET;
+const IS_SERVERLESS = !!process.env.VERCEL;
+
+// |computed - submitted| above this flags a validator-submitted reward for review
+const REWARD_DISAGREEMENT_THRESHOLD = Number(process.env.REWARD_DISAGREEMENT_THRESHOLD) || 0.25;
+const DEFAULT_REWARD_POLICY = process.env.DEFAULT_REWARD_POLICY || 'v1';
+// Reward writes need a replica set for transactions. Set to 'true' only for a
+// standalone development server, where they then run without one and are not atomic
+const ALLOW_NON_TRANSACTIONAL_WRITES = process.env.ALLOW_NON_TRANSACTIONAL_WRITES === 'true';
+
+// Bittensor tempo: sessions whose snapshot blocks fall in the same window share an epoch
+const EPOCH_LENGTH_BLOCKS = Number(process.env.EPOCH_LENGTH_BLOCKS) || 360;
+// Mean absolute deviation from leave-one-out consensus that marks a validator as an outlier
+const CONSENSUS_OUTLIER_THRESHOLD = Number(process.env.CONSENSUS_OUTLIER_THRESHOLD) || 0.15;
+
+// Default per-UID cap applied before u16 quantization (subnet max_weight_limit)
+const DEFAULT_MAX_WEIGHT_LIMIT = Number(process.env.MAX_WEIGHT_LIMIT) || 1;
+
+// How long a stored Idempotency-Key response stays replayable
+const IDEMPOTENCY_TTL_MS = Number(process.env.IDEMPOTENCY_TTL_MS) || 24 * 60 * 60 * 1000;
+// Lease on a key whose request is still running; outlives any handler, and
+// lets the TTL index free keys held by a process that died mid-request
+const IDEMPOTENCY_PROCESSING_TTL_MS = 5 * 60 * 1000;
+
+// The findings reindex runs in batches from a timer, or from /api/cron/reindex
+// on serverless; each call stops starting batches once its budget is spent
+const REINDEX_POLL_INTERVAL_MS = Number(process.env.REINDEX_POLL_INTERVAL_MS) || 30_000;
+const REINDEX_TIME_BUDGET_MS = 20_000;
+
+const WEBHOOK_POLL_INTERVAL_MS = Number(process.env.WEBHOOK_POLL_INTERVAL_MS) || 5_000;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Overlap window during which a rotated key keeps working alongside its replacement
+const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+interface RequestIdentity {
+  method: 'api-key' | 'signature';
+  keyId?: string;
+  validatorAddress?: string;
+  scopes: ApiKeyScope[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+      signer?: { hotkey: string; timestamp: number; nonce: string };
+      identity?: RequestIdentity;
+    }
+  }
+}
+
 const app: Express = express();
 
 // =====================
@@ -52,13 +159,20 @@ app.use(cors({
     }
   },
   methods: ['GET', 'POST'],
-  allowedHeaders: ['Content-Type', 'x-api-key']
+  allowedHeaders: [
+    'Content-Type', 'x-api-key', 'x-hotkey', 'x-signature', 'x-timestamp', 'x-nonce', 'Idempotency-Key'
+  ]
 }));
 
 // =====================
 // BODY PARSING — tight size limit
 // =====================
-app.use(express.json({ limit: '1mb' }));
+// Keep the raw bytes around: signed requests are verified against the body hash
+// before sanitization rewrites req.body.
+app.use(express.json({
+  limit: '1mb',
+  verify: (req: Request, _res, buf: Buffer) => { req.rawBody = buf; }
+}));
 app.use(express.urlencoded({ limit: '1mb', extended: true }));
 
 // =====================
@@ -82,43 +196,200 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 // RATE LIMITERS
 // =====================
 
-const startSessionLimiter = rateLimit({
-  windowMs: 60_000,
-  max: 10,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { success: false, error: 'Too many session requests, slow down.' }
-});
-
-const writeLimiter = rateLimit({
-  windowMs: 60_000,
-  max: 120,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { success: false, error: 'Too many requests.' }
-});
+// windowMs/max stay on the middleware so the OpenAPI document can describe them
+const createLimiter = (windowMs: number, max: number, error: string) =>
+  Object.assign(rateLimit({
+    windowMs,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: { success: false, error }
+  }), { rateLimit: { windowMs, max } });
 
-const readLimiter = rateLimit({
-  windowMs: 60_000,
-  max: 300,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: { success: false, error: 'Too many requests.' }
-});
+const startSessionLimiter = createLimiter(60_000, 10, 'Too many session requests, slow down.');
+const writeLimiter = createLimiter(60_000, 120, 'Too many requests.');
+const readLimiter = createLimiter(60_000, 300, 'Too many requests.');
 
 // =====================
 // AUTH MIDDLEWARE
 // =====================
 
-const requireApiKey = (req: Request, res: Response, next: NextFunction): void => {
+const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Resolves x-api-key to an identity. The env API_KEY is the bootstrap admin key
+ * and is not bound to a hotkey; registry keys carry their own binding and scopes.
+ */
+const requireApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const key = req.headers['x-api-key'];
-  if (!key || key !== API_KEY) {
+  if (!key || typeof key !== 'string') {
     res.status(401).json({ success: false, error: 'Unauthorized' });
     return;
   }
+
+  if (key === API_KEY) {
+    req.identity = { method: 'api-key', keyId: 'env', scopes: [...API_KEY_SCOPES] };
+    next();
+    return;
+  }
+
+  try {
+    const now = new Date();
+    const record = await ApiKey.findOne({
+      keyHash: hashApiKey(key),
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }]
+    }).lean();
+
+    if (!record) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    ApiKey.updateOne({ keyId: record.keyId }, { $set: { lastUsedAt: now } })
+      .catch((err: any) => console.error('Failed to update key lastUsedAt:', err));
+
+    req.identity = {
+      method: 'api-key',
+      keyId: record.keyId,
+      validatorAddress: record.validatorAddress,
+      scopes: record.scopes
+    };
+    next();
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+/**
+ * Passes if the identity holds any one of the listed scopes.
+ */
+const requireScope = (...scopes: ApiKeyScope[]) =>
+  Object.assign((req: Request, res: Response, next: NextFunction): void => {
+    if (!scopes.some(scope => req.identity?.scopes.includes(scope))) {
+      res.status(403).json({ success: false, error: `Forbidden: missing scope ${scopes.join(' or ')}` });
+      return;
+    }
+    next();
+  }, { scopes });
+
+/**
+ * Canonical string a validator signs with its hotkey:
+ * METHOD \n originalUrl \n sha256(rawBody) \n x-timestamp \n x-nonce
+ */
+const buildSigningPayload = (req: Request, timestamp: string, nonce: string): string => {
+  const bodyHash = createHash('sha256').update(req.rawBody ?? Buffer.alloc(0)).digest('hex');
+  return [req.method.toUpperCase(), req.originalUrl, bodyHash, timestamp, nonce].join('\n');
+};
+
+const requireSignature = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const hotkey = req.headers['x-hotkey'];
+  const signature = req.headers['x-signature'];
+  const timestamp = req.headers['x-timestamp'];
+  const nonce = req.headers['x-nonce'];
+
+  if (
+    typeof hotkey !== 'string' || typeof signature !== 'string' ||
+    typeof timestamp !== 'string' || typeof nonce !== 'string'
+  ) {
+    res.status(401).json({ success: false, error: 'x-hotkey, x-signature, x-timestamp and x-nonce are required' });
+    return;
+  }
+
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || Math.abs(Date.now() - ts) > SIGNATURE_MAX_SKEW_MS) {
+    res.status(401).json({ success: false, error: 'Signature timestamp outside allowed window' });
+    return;
+  }
+
+  if (nonce.length < 8 || nonce.length > 128) {
+    res.status(401).json({ success: false, error: 'x-nonce must be 8-128 characters' });
+    return;
+  }
+
+  let valid = false;
+  try {
+    const result = signatureVerify(buildSigningPayload(req, timestamp, nonce), signature, hotkey);
+    valid = result.isValid && result.crypto === 'sr25519';
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    res.status(401).json({ success: false, error: 'Invalid signature' });
+    return;
+  }
+
+  let scopes: ApiKeyScope[];
+  try {
+    // A valid signature only proves key ownership. The hotkey must also be
+    // registered, i.e. hold an active registry key bound to it, and it signs
+    // with the scopes of those keys.
+    const keys = await ApiKey.find({
+      validatorAddress: hotkey,
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }]
+    }, { scopes: 1 }).lean();
+    scopes = Array.from(new Set(keys.flatMap(k => k.scopes)));
+    if (scopes.length === 0) {
+      res.status(403).json({ success: false, error: 'Hotkey is not a registered validator' });
+      return;
+    }
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+    return;
+  }
+
+  try {
+    // Unique (hotkey, nonce) index turns a replay into a duplicate-key error
+    await UsedNonce.create({
+      hotkey,
+      nonce,
+      expiresAt: new Date(ts + SIGNATURE_MAX_SKEW_MS * 2)
+    });
+  } catch (err: any) {
+    if (err?.code === 11000) {
+      res.status(401).json({ success: false, error: 'Replayed request' });
+      return;
+    }
+    res.status(500).json({ success: false, error: 'Internal server error' });
+    return;
+  }
+
+  req.signer = { hotkey, timestamp: ts, nonce };
+  req.identity = { method: 'signature', validatorAddress: hotkey, scopes };
   next();
 };
 
+/**
+ * Write-route auth: hotkey-signed requests prove the caller's identity; plain
+ * x-api-key requests are still accepted unless REQUIRE_SIGNED_WRITES is set.
+ */
+const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.headers['x-signature']) {
+    requireSignature(req, res, next);
+    return;
+  }
+  if (REQUIRE_SIGNED_WRITES) {
+    res.status(401).json({ success: false, error: 'Signed request required' });
+    return;
+  }
+  requireApiKey(req, res, next);
+};
+
+/**
+ * Whether the caller may act for a validator named in the request body. A
+ * signer or hotkey-bound key acts for its own hotkey; only admin keys (the
+ * bootstrap API_KEY) may name one, or any unbound key could claim to be
+ * whichever validator it likes.
+ */
+const mayNameValidator = (req: Request): boolean =>
+  !!req.identity?.validatorAddress || !!req.identity?.scopes.includes('admin');
+
 const verifySessionOwner = async (
   req: Request,
   res: Response,
@@ -126,7 +397,14 @@ const verifySessionOwner = async (
 ): Promise<void> => {
   try {
     const { sessionId } = req.params;
-    const validatorAddress = req.body?.validatorAddress || req.body?._meta?.hotkey;
+    if (!mayNameValidator(req)) {
+      res.status(403).json({ success: false, error: 'Forbidden: API key is not bound to a validator' });
+      return;
+    }
+    // A signer or hotkey-bound key is authoritative; body-supplied addresses
+    // are only reached for admin keys.
+    const validatorAddress = req.identity?.validatorAddress
+      ?? (req.body?.validatorAddress || req.body?._meta?.hotkey);
 
     if (!validatorAddress) {
       res.status(400).json({ success: false, error: 'validatorAddress is required' });
@@ -135,7 +413,7 @@ const verifySessionOwner = async (
 
     const session = await ValidationSession.findOne(
       { sessionId },
-      { 'metadata.validatorAddress': 1 }
+      { 'metadata.validatorAddress': 1, state: 1, projectId: 1 }
     ).lean();
 
     if (!session) {
@@ -148,6 +426,7 @@ const verifySessionOwner = async (
       return;
     }
 
+    res.locals.session = session;
     next();
   } catch (err: any) {
     res.status(500).json({ success: false, error: 'Internal server error' });
@@ -155,826 +434,5672 @@ const verifySessionOwner = async (
 };
 
 // =====================
-// INPUT VALIDATORS
+// SESSION STATE MACHINE
 // =====================
 
-const safeStr = (val: unknown, maxLen = 512): string | undefined => {
-  if (typeof val !== 'string') return undefined;
-  return val.slice(0, maxLen);
+const SESSION_TRANSITIONS: Record<SessionState, SessionState[]> = {
+  'pending': ['in-progress', 'failed'],
+  'in-progress': ['completed', 'failed'],
+  'completed': [],
+  'failed': []
+};
+
+const canTransition = (from: SessionState, to: SessionState): boolean =>
+  SESSION_TRANSITIONS[from]?.includes(to) ?? false;
+
+/**
+ * Guards non-transition writes. Runs after verifySessionOwner, which loads the
+ * session state into res.locals. The check is only a fast path: the write
+ * itself must repeat it through writableSession, or a concurrent /complete or
+ * /fail could land between the two.
+ */
+const requireSessionState = (...allowed: SessionState[]) =>
+  Object.assign((_req: Request, res: Response, next: NextFunction): void => {
+    const state = res.locals.session?.state as SessionState;
+    if (!allowed.includes(state)) {
+      res.status(409).json({
+        success: false,
+        error: `Session is ${state}; this operation requires state ${allowed.join(' or ')}`,
+        state
+      });
+      return;
+    }
+    res.locals.allowedStates = allowed;
+    next();
+  }, { requiredStates: allowed });
+
+/**
+ * Update filter matching the session only while it is still in a state
+ * requireSessionState allowed.
+ */
+const writableSession = (sessionId: string, res: Response) => ({
+  sessionId,
+  state: { $in: res.locals.allowedStates as SessionState[] }
+});
+
+/** Response for a guarded write that matched nothing: the session left its allowed states */
+const sessionStateConflict = (res: Response): void => {
+  const allowed = res.locals.allowedStates as SessionState[];
+  res.status(409).json({
+    success: false,
+    error: `Session is no longer ${allowed.join(' or ')}; it changed while this request was processed`
+  });
+};
+
+// Rewards are recorded separately; a re-submitted response keeps these unless it carries its own
+const KEPT_ON_RESUBMIT = new Set<string>(['rewardScore', 'rewardReason', 'computedReward']);
+
+/**
+ * The two conditional updates that record a miner's response: a $push guarded
+ * on the minerUid being absent, and an in-place rewrite of every entry for
+ * that minerUid. Both repeat the session state guard.
+ */
+const minerResponseUpdates = (sessionId: string, res: Response, response: MinerResponse) => {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  for (const [field, value] of Object.entries(response)) {
+    const path = `minerResponses.$[r].${field}`;
+    if (value !== undefined) $set[path] = value;
+    else if (!KEPT_ON_RESUBMIT.has(field)) $unset[path] = '';
+  }
+
+  return {
+    push: {
+      filter: { ...writableSession(sessionId, res), 'minerResponses.minerUid': { $ne: response.minerUid } },
+      update: { $push: { minerResponses: response } }
+    },
+    rewrite: {
+      filter: { ...writableSession(sessionId, res), 'minerResponses.minerUid': response.minerUid },
+      update: Object.keys($unset).length > 0 ? { $set, $unset } : { $set },
+      arrayFilters: [{ 'r.minerUid': response.minerUid }]
+    }
+  };
 };
 
-const safeNum = (val: unknown, min = 0, max = Number.MAX_SAFE_INTEGER): number | undefined => {
-  const n = Number(val);
-  if (!isFinite(n)) return undefined;
-  return Math.min(Math.max(n, min), max);
+/**
+ * Records one miner's response with conditional updates only: the guarded
+ * $push, otherwise the rewrite. Returns null when the session left its
+ * allowed states.
+ */
+const upsertMinerResponse = async (
+  sessionId: string,
+  res: Response,
+  response: MinerResponse
+): Promise<'inserted' | 'updated' | null> => {
+  const { push, rewrite } = minerResponseUpdates(sessionId, res, response);
+
+  const pushed = await ValidationSession.updateOne(push.filter, push.update);
+  if (pushed.matchedCount > 0) return 'inserted';
+
+  const replaced = await ValidationSession.updateOne(rewrite.filter, rewrite.update, { arrayFilters: rewrite.arrayFilters });
+  return replaced.matchedCount > 0 ? 'updated' : null;
 };
 
-const isValidScore = (val: unknown): val is number =>
-  typeof val === 'number' && isFinite(val) && val >= 0 && val <= 1;
+const requireTransition = (to: SessionState) =>
+  Object.assign((_req: Request, res: Response, next: NextFunction): void => {
+    const state = res.locals.session?.state as SessionState;
+    if (!canTransition(state, to)) {
+      res.status(409).json({ success: false, error: `Illegal state transition: ${state} -> ${to}`, state });
+      return;
+    }
+    next();
+  }, {
+    requiredStates: (Object.keys(SESSION_TRANSITIONS) as SessionState[]).filter(from => canTransition(from, to))
+  });
+
+/**
+ * Atomically moves a session from `from` to `to`, appending to stateHistory.
+ * Returns null if the session is no longer in `from` (a concurrent write won).
+ */
+const transitionSession = (
+  sessionId: string,
+  from: SessionState,
+  to: SessionState,
+  update: { $set?: Record<string, any>; $push?: Record<string, any> } = {},
+  reason?: string
+) =>
+  ValidationSession.findOneAndUpdate(
+    { sessionId, state: from },
+    {
+      $set: { ...update.$set, state: to },
+      $push: { ...update.$push, stateHistory: { from, to, reason, timestamp: new Date() } }
+    },
+    { new: true }
+  );
 
 // =====================
-// VULNERABILITY FINDINGS VALIDATOR
+// IDEMPOTENCY
 // =====================
 
-const validateAgentFindings = (agentFindings: any) => {
-  if (!agentFindings || typeof agentFindings !== 'object') {
-    return undefined;
+/**
+ * Replays the stored response for a repeated Idempotency-Key. Keys are scoped
+ * to the caller and route, and bound to a hash of the raw request body.
+ * Runs after auth/ownership so only the owning validator can replay. A request
+ * that ends without a stored response (handler threw, responded without JSON,
+ * or the client hung up) releases its key so the client can retry.
+ */
+const idempotent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.headers['idempotency-key'];
+  if (key === undefined) {
+    next();
+    return;
   }
 
-  const VALID_SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'];
-  const MAX_FINDINGS = 500;
+  if (typeof key !== 'string' || key.length === 0 || key.length > 255) {
+    res.status(400).json({ success: false, error: 'Idempotency-Key must be 1-255 characters' });
+    return;
+  }
 
-  const findings = Array.isArray(agentFindings.findings)
-    ? agentFindings.findings.slice(0, MAX_FINDINGS)
-    : [];
+  const caller = req.identity?.validatorAddress ?? req.identity?.keyId ?? 'anonymous';
+  const scope = `${caller} ${req.method} ${req.originalUrl}`;
+  const requestHash = createHash('sha256').update(req.rawBody ?? Buffer.alloc(0)).digest('hex');
 
-  const cleanFindings = findings
-    .filter((f: any) => f && typeof f === 'object')
-    .map((f: any) => ({
-      id: safeStr(f.id, 64) || uuidv4().slice(0, 8),
-      title: safeStr(f.title, 256) || 'Unknown Finding',
-      severity: VALID_SEVERITIES.includes(f.severity) ? f.severity : 'medium',
-      description: safeStr(f.description, 2048),
-      codeLocation: safeStr(f.codeLocation, 256),
-      remediation: safeStr(f.remediation, 2048),
-      confidenceScore: safeNum(f.confidenceScore, 0, 1)
-    }));
+  try {
+    await IdempotencyRecord.create({
+      key,
+      scope,
+      requestHash,
+      state: 'processing',
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_PROCESSING_TTL_MS)
+    });
+  } catch (err: any) {
+    if (err?.code !== 11000) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+      return;
+    }
 
-  const breakdown = {
-    critical: cleanFindings.filter((f: any) => f.severity === 'critical').length,
-    high: cleanFindings.filter((f: any) => f.severity === 'high').length,
-    medium: cleanFindings.filter((f: any) => f.severity === 'medium').length,
-    low: cleanFindings.filter((f: any) => f.severity === 'low').length,
-    info: cleanFindings.filter((f: any) => f.severity === 'info').length
-  };
+    let existing;
+    try {
+      existing = await IdempotencyRecord.findOne({ key, scope }).lean();
+    } catch (findErr: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+      return;
+    }
+    if (!existing) {
+      res.setHeader('Retry-After', '1');
+      res.status(409).json({ success: false, error: 'Idempotency-Key conflict, retry' });
+      return;
+    }
+    if (existing.requestHash !== requestHash) {
+      res.status(422).json({ success: false, error: 'Idempotency-Key was already used with a different request body' });
+      return;
+    }
+    if (existing.state === 'processing') {
+      res.setHeader('Retry-After', '1');
+      res.status(409).json({ success: false, error: 'A request with this Idempotency-Key is still in progress' });
+      return;
+    }
 
-  return {
-    findingsCount: cleanFindings.length,
-    criticalCount: breakdown.critical,
-    highCount: breakdown.high,
-    mediumCount: breakdown.medium,
-    lowCount: breakdown.low,
-    findings: cleanFindings
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(existing.statusCode ?? 200).json(existing.responseBody);
+    return;
+  }
+
+  let settled = false;
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    settled = true;
+    // Server errors are not cached so the client can retry with the same key
+    const persist = res.statusCode >= 500
+      ? IdempotencyRecord.deleteOne({ key, scope })
+      : IdempotencyRecord.updateOne(
+        { key, scope },
+        {
+          $set: {
+            state: 'completed',
+            statusCode: res.statusCode,
+            responseBody: body,
+            expiresAt: new Date(Date.now() + IDEMPOTENCY_TTL_MS)
+          }
+        }
+      );
+    persist.catch((e: any) => console.error('Failed to persist idempotency record:', e));
+    return originalJson(body);
   };
+
+  res.on('close', () => {
+    if (settled) return;
+    IdempotencyRecord.deleteOne({ key, scope, state: 'processing' })
+      .catch((e: any) => console.error('Failed to release idempotency record:', e));
+  });
+
+  next();
 };
 
 // =====================
-// INTERFACES
+// INPUT VALIDATORS
 // =====================
+const safeStr = (val: unknown, maxLen = 512): string | undefined => {
+  if (typeof val !== 'string') return undefined;
+  return val.slice(0, maxLen);
+};
 
-interface AgentFinding {
-  id: string;
-  title: string;
-  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
-  description?: string;
-  codeLocation?: string;
-  remediation?: string;
-  confidenceScore?: number;
-}
+// =====================
+// REQUEST VALIDATION
+// =====================
 
-interface AgentFindingsData {
-  findingsCount: number;
-  criticalCount: number;
-  highCount: number;
-  mediumCount: number;
-  lowCount: number;
-  findings: AgentFinding[];
-}
+type ValidationMode = 'strict' | 'lenient';
 
-interface MinerResponse {
-  minerUid: number;
-  githubUrl?: string;
-  responseTime: number;
-  success: boolean;
-  errorMessage?: string;
-  timestamp: Date;
-  agentPerformance?: {
-    executionTime?: number;
-    findingsCount?: number;
-    accuracy?: number;
-    completionStatus?: string;
-  };
-  agentFindings?: AgentFindingsData;
-  rewardScore?: number;
-  rewardReason?: string;
+interface RouteSchemas {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
 }
 
-interface ChallengeInfo {
-  projectId: string;
-  description?: string;
-  difficulty?: string;
-  createdAt: Date;
-  rawData?: Record<string, any>;
+interface FieldError {
+  location: keyof RouteSchemas;
+  field: string;
+  reason: string;
 }
 
-interface SubnetSnapshot {
-  netuid: number;
-  block: number;
-  activeValidators: number;
-  activeMiners: number;
-  totalStake: number;
-  emissionPerBlock: number;
-  timestamp: Date;
-}
+const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrapSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrapSchema(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return unwrapSchema(schema.innerType());
+  return schema;
+};
 
-interface ValidationMetrics {
-  totalQueryTime?: number;
-  averageRewardScore?: number;
-  successRate?: number;
-  failureCount?: number;
-  validFindings?: number;
-}
+/**
+ * Lenient mode: converts string-encoded numbers and booleans wherever the
+ * schema expects them. Anything that still doesn't fit is reported, never
+ * clamped or dropped.
+ */
+const coerceToSchema = (schema: z.ZodTypeAny, value: unknown): unknown => {
+  const inner = unwrapSchema(schema);
+  if (inner instanceof z.ZodNumber && typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return isFinite(n) ? n : value;
+  }
+  if (inner instanceof z.ZodBoolean && typeof value === 'string') {
+    return value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map(v => coerceToSchema(inner.element, v));
+  }
+  if (inner instanceof z.ZodObject && value && typeof value === 'object' && !Array.isArray(value)) {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    const out: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const key of Object.keys(shape)) {
+      if (key in out) out[key] = coerceToSchema(shape[key], out[key]);
+    }
+    return out;
+  }
+  return value;
+};
 
-interface ValidationSessionDocument extends Document {
-  sessionId: string;
-  timestamp: Date;
-  projectId?: string;
-  projectName?: string;
-  state: 'pending' | 'in-progress' | 'completed' | 'failed';
-  sampledMinerCount: number;
-  sampledMinerUids: number[];
-  challengeInfo: ChallengeInfo;
-  minerResponses: MinerResponse[];
-  computedRewards: Array<{ minerUid: number; score: number; timestamp: Date }>;
-  metrics: ValidationMetrics;
-  subnetSnapshot: SubnetSnapshot;
-  validationErrors: Array<{
-    stage: string;
-    message: string;
-    timestamp: Date;
-    stackTrace?: string;
-  }>;
-  metadata: {
-    validatorAddress?: string;
-    configVersion?: string;
-    remarks?: string;
-  };
-}
+const toFieldErrors = (location: keyof RouteSchemas, error: z.ZodError, prefix = ''): FieldError[] =>
+  error.issues.map(issue => ({
+    location,
+    field: [prefix, ...issue.path].filter(p => p !== '').join('.') || '(root)',
+    reason: issue.message
+  }));
 
-interface MinerHistoryDocument extends Document {
-  minerUid: number;
-  sessionId: string;
-  performanceScore?: number;
-  rewardScore: number;
-  githubUrl?: string;
-  findingsCount?: number;
-  criticalFindingsCount?: number;
-  accuracy?: number;
-  executionTime?: number;
-  timestamp: Date;
-  status: 'success' | 'failed' | 'timeout' | 'error';
-}
+const parseWithMode = <T extends z.ZodTypeAny>(schema: T, value: unknown, mode: ValidationMode) =>
+  schema.safeParse(mode === 'lenient' ? coerceToSchema(schema, value) : value);
 
-interface RewardUpdateDocument extends Document {
-  updateId: string;
-  sessionId: string;
-  minerUids: number[];
-  rewards: number[];
-  timestamp: Date;
-  confirmed: boolean;
-  confirmationTime?: Date;
-}
+/**
+ * Validates params, query and body against the route's schemas and replaces
+ * them with the parsed output. `mode` governs the body only: path params and
+ * query strings are always strings on the wire, so they are always coerced.
+ * Responds 400 listing every invalid field.
+ */
+const validate = (schemas: RouteSchemas, mode: ValidationMode = 'strict') => {
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<keyof RouteSchemas, any>> = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+      const result = parseWithMode(schema, req[location] ?? {}, location === 'body' ? mode : 'lenient');
+      if (result.success) parsed[location] = result.data;
+      else errors.push(...toFieldErrors(location, result.error));
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, error: 'Validation failed', details: errors });
+      return;
+    }
+
+    if (parsed.params) req.params = parsed.params;
+    if (parsed.query) req.query = parsed.query;
+    if (parsed.body) req.body = parsed.body;
+    next();
+  };
+  return Object.assign(middleware, { schemas, mode });
+};
+
+/**
+ * Typed view of params or query already parsed by `validate`; Express still
+ * types them as strings.
+ */
+const parsedAs = <T extends z.ZodTypeAny>(_schema: T, value: unknown): z.infer<T> => value as z.infer<T>;
 
 // =====================
-// DATABASE SCHEMAS
+// REQUEST SCHEMAS
 // =====================
-const agentFindingSchema = new Schema(
-  {
-    id: { type: String },
-    title: { type: String },
-    severity: {
-      type: String,
-      enum: ['critical', 'high', 'medium', 'low', 'info']
-    },
-    description: { type: String },
-    codeLocation: { type: String },
-    remediation: { type: String },
-    confidenceScore: { type: Number }
+
+const WEBHOOK_EVENT_TYPES = [
+  'session.started', 'challenge.recorded', 'miner.response', 'reward.recorded',
+  'error.logged', 'session.completed', 'session.failed', 'finding.critical'
+] as const;
+const DELIVERY_STATUSES = ['pending', 'delivered', 'dead-letter'] as const;
+
+const sessionParams = z.object({ sessionId: z.string().min(1).max(64) });
+const minerParams = z.object({ minerUid: minerUidField });
+const sessionMinerParams = sessionParams.extend({ minerUid: minerUidField });
+const projectParams = z.object({ projectId: z.string().min(1).max(128) });
+const keyParams = z.object({ keyId: z.string().min(1).max(64) });
+const epochParams = z.object({ netuid: z.number().int().min(0).max(65535), epoch: z.number().int().min(0) });
+const subscriptionParams = z.object({ subscriptionId: z.string().min(1).max(64) });
+const deliveryParams = z.object({ deliveryId: z.string().min(1).max(64) });
+const auditParams = z.object({ auditId: z.string().min(3).max(128) });
+const findingParams = sessionMinerParams.extend({ findingId: z.string().min(1).max(64) });
+
+const pagingQuery = (defaultLimit: number, maxLimit: number) => z.object({
+  limit: z.number().int().min(1).max(maxLimit).default(defaultLimit),
+  skip: z.number().int().min(0).default(0)
+});
+const timeRangeQuery = (defaultRange: typeof TIME_RANGES[number]) => z.object({
+  timeRange: z.enum(TIME_RANGES).default(defaultRange)
+});
+
+const groundTruthBody = z.object({
+  vulnerabilities: z.array(z.object({
+    id: z.string().min(1).max(64).optional(),
+    title: z.string().min(1).max(256),
+    severity: z.enum(SEVERITIES),
+    codeLocation: z.string().max(256).optional(),
+    description: z.string().max(2048).optional()
+  })).max(500)
+}).refine(
+  b => {
+    const ids = b.vulnerabilities.map((v, idx) => v.id || `GT-${idx + 1}`);
+    return new Set(ids).size === ids.length;
   },
-  { _id: false }
+  { message: 'vulnerability ids must be unique', path: ['vulnerabilities'] }
 );
 
-const agentFindingsDataSchema = new Schema({
-  findingsCount: { type: Number },
-  criticalCount: { type: Number },
-  highCount: { type: Number },
-  mediumCount: { type: Number },
-  lowCount: { type: Number },
-  findings: [agentFindingSchema]
+const issueKeyBody = z.object({
+  validatorAddress: z.string().min(1).max(64).optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+  label: z.string().max(128).optional()
+}).refine(
+  b => b.scopes.every(sc => sc === 'admin') || !!b.validatorAddress,
+  { message: 'validatorAddress is required for session-write and reward-write keys', path: ['validatorAddress'] }
+);
+
+const consensusQuery = z.object({ outliersOnly: z.boolean().default(false) });
+
+const metagraphBody = z.object({
+  block: z.number().int().min(0).optional(),
+  stakes: z.array(z.object({
+    hotkey: z.string().min(1).max(64),
+    stake: z.number().min(0)
+  })).min(1).max(4096)
+}).refine(
+  b => new Set(b.stakes.map(s => s.hotkey)).size === b.stakes.length,
+  { message: 'hotkeys must be unique', path: ['stakes'] }
+);
+
+const maxWeightLimitQuery = z.object({
+  maxWeightLimit: z.number().gt(0).max(1).default(DEFAULT_MAX_WEIGHT_LIMIT)
 });
 
-const validationSessionSchema = new Schema<ValidationSessionDocument>({
-  sessionId: { type: String, required: true, unique: true, index: true },
-  timestamp: { type: Date, default: Date.now, index: true },
-  projectId: String,
-  projectName: String,
-  state: {
-    type: String,
-    enum: ['pending', 'in-progress', 'completed', 'failed'],
-    default: 'pending'
-  },
-  sampledMinerCount: { type: Number },
-  sampledMinerUids: [{ type: Number }],
-  challengeInfo: {
-    projectId: { type: String },
-    description: { type: String },
-    difficulty: { type: String },
-    createdAt: { type: Date },
-    rawData: Schema.Types.Mixed
-  },
-  minerResponses: [{
-    minerUid: { type: Number },
-    githubUrl: { type: String },
-    responseTime: { type: Number },
-    success: { type: Boolean },
-    errorMessage: { type: String },
-    timestamp: { type: Date },
-    agentPerformance: {
-      executionTime: { type: Number },
-      findingsCount: { type: Number },
-      accuracy: { type: Number },
-      completionStatus: { type: String }
-    },
-    agentFindings: agentFindingsDataSchema,
-    rewardScore: { type: Number },
-    rewardReason: { type: String },
-    _id: false
-  }],
-  computedRewards: [{
-    minerUid: { type: Number },
-    score: { type: Number },
-    timestamp: { type: Date },
-    _id: false
-  }],
-  metrics: {
-    totalQueryTime: { type: Number },
-    averageRewardScore: { type: Number },
-    successRate: { type: Number },
-    failureCount: { type: Number },
-    validFindings: { type: Number }
-  },
-  subnetSnapshot: {
-    netuid: { type: Number },
-    block: { type: Number },
-    activeValidators: { type: Number },
-    activeMiners: { type: Number },
-    totalStake: { type: Number },
-    emissionPerBlock: { type: Number },
-    timestamp: { type: Date }
-  },
-  validationErrors: [{
-    stage: { type: String },
-    message: { type: String },
-    timestamp: { type: Date },
-    stackTrace: { type: String },
-    _id: false
-  }],
-  metadata: {
-    validatorAddress: { type: String },
-    configVersion: { type: String },
-    remarks: { type: String }
+const epochWeightsQuery = maxWeightLimitQuery.extend({
+  validatorAddress: z.string().min(1).max(64)
+});
+
+const eventStreamQuery = z.object({
+  sessionId: z.string().min(1).max(64).optional(),
+  validatorAddress: z.string().min(1).max(64).optional(),
+  projectId: z.string().min(1).max(128).optional(),
+  types: z.string().max(256)
+    .transform(v => v.split(',').map(t => t.trim()).filter(Boolean))
+    .optional(),
+  lastEventId: z.number().int().min(0).optional()
+});
+
+const clustersQuery = z.object({
+  uniqueOnly: z.boolean().default(false),
+  minMiners: z.number().int().min(1).optional()
+});
+
+const rewardAuditQuery = z.object({ flaggedOnly: z.boolean().default(false) });
+
+const criticalFindingsQuery = z.object({ limit: z.number().int().min(1).max(500).default(50) });
+
+const commaList = <T extends [string, ...string[]]>(values: T) => z.string().max(512)
+  .transform(v => v.split(',').map(t => t.trim()).filter(Boolean))
+  .pipe(z.array(z.enum(values)).min(1))
+  .describe(`Comma-separated list of: ${values.join(', ')}`);
+
+const dateRangeFields = {
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+};
+const isOrderedRange = (q: { from?: Date; to?: Date }): boolean => !q.from || !q.to || q.from <= q.to;
+const orderedRangeError = { message: 'must not be after to', path: ['from'] };
+
+const findingSearchQuery = pagingQuery(20, 100).extend({
+  q: z.string().trim().min(1).max(256).optional(),
+  severity: commaList([...SEVERITIES]).optional(),
+  projectId: z.string().min(1).max(128).optional(),
+  minerUid: minerUidField.optional(),
+  validator: z.string().min(1).max(64).optional(),
+  ...dateRangeFields,
+  minConfidence: scoreField.optional()
+}).refine(isOrderedRange, orderedRangeError);
+
+const plagiarismSuspectsQuery = pagingQuery(50, 500).extend({
+  sessionId: z.string().min(1).max(128).optional(),
+  minerUid: minerUidField.optional(),
+  minScore: z.number().min(0).max(1).optional(),
+  crossSession: z.boolean().optional()
+});
+
+const listAuditsQuery = pagingQuery(20, 100).extend({
+  projectId: z.string().min(1).max(128).optional(),
+  minerUid: minerUidField.optional()
+});
+
+const recentSessionsQuery = pagingQuery(20, 100);
+
+interface SessionCursor {
+  timestamp: Date;
+  sessionId: string;
+}
+
+// Opaque to callers: base64url JSON of the last row's sort key
+const encodeSessionCursor = ({ timestamp, sessionId }: SessionCursor): string =>
+  Buffer.from(JSON.stringify([timestamp.toISOString(), sessionId])).toString('base64url');
+
+const decodeSessionCursor = (cursor: string): SessionCursor | null => {
+  try {
+    const [ts, sessionId] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const timestamp = new Date(ts);
+    if (typeof ts !== 'string' || typeof sessionId !== 'string' || isNaN(timestamp.getTime())) return null;
+    return { timestamp, sessionId };
+  } catch {
+    return null;
   }
+};
+
+// Projectable fields; raw challenge data and stack traces are never listed
+const SESSION_LIST_FIELDS: Record<string, string[]> = {
+  projectId: ['projectId'],
+  projectName: ['projectName'],
+  state: ['state'],
+  stateHistory: ['stateHistory'],
+  sampledMinerCount: ['sampledMinerCount'],
+  sampledMinerUids: ['sampledMinerUids'],
+  challengeInfo: ['challengeInfo.projectId', 'challengeInfo.description', 'challengeInfo.difficulty', 'challengeInfo.createdAt'],
+  minerResponses: ['minerResponses'],
+  computedRewards: ['computedRewards'],
+  metrics: ['metrics'],
+  subnetSnapshot: ['subnetSnapshot'],
+  validationErrors: ['validationErrors.stage', 'validationErrors.message', 'validationErrors.timestamp'],
+  metadata: ['metadata']
+};
+
+const listSessionsQuery = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.string().max(512).transform((v, ctx) => {
+    const cursor = decodeSessionCursor(v);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'invalid cursor' });
+      return z.NEVER;
+    }
+    return cursor;
+  }).optional(),
+  state: commaList(Object.keys(SESSION_TRANSITIONS) as [SessionState, ...SessionState[]]).optional(),
+  validatorAddress: z.string().min(1).max(64).optional(),
+  projectId: z.string().min(1).max(128).optional(),
+  configVersion: z.string().min(1).max(64).optional(),
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  ...dateRangeFields,
+  // sessionId and timestamp are always returned: the cursor is built from them
+  fields: commaList(Object.keys(SESSION_LIST_FIELDS) as [string, ...string[]]).optional()
+}).refine(isOrderedRange, orderedRangeError);
+
+const minerHistoryQuery = z.object({
+  limit: z.number().int().min(1).max(200).default(50),
+  minerHotkey: z.string().min(1).max(64).optional()
 });
 
-const minerHistorySchema = new Schema<MinerHistoryDocument>({
-  minerUid: { type: Number, required: true, index: true },
-  sessionId: { type: String, required: true, index: true },
-  performanceScore: { type: Number },
-  rewardScore: { type: Number },
-  githubUrl: { type: String },
-  findingsCount: { type: Number },
-  criticalFindingsCount: { type: Number },
-  accuracy: { type: Number },
-  executionTime: { type: Number },
-  timestamp: { type: Date, default: Date.now, index: true },
-  status: { type: String, enum: ['success', 'failed', 'timeout', 'error'] }
+const leaderboardQuery = timeRangeQuery('30d').extend({
+  limit: z.number().int().min(1).max(500).default(100)
 });
 
-const rewardUpdateSchema = new Schema<RewardUpdateDocument>({
-  updateId: { type: String, required: true, unique: true },
-  sessionId: { type: String, required: true, index: true },
-  minerUids: [{ type: Number }],
-  rewards: [{ type: Number }],
-  timestamp: { type: Date, default: Date.now, index: true },
-  confirmed: { type: Boolean, default: false },
-  confirmationTime: { type: Date }
+const networkStatsQuery = z.object({ window: z.enum(TIME_RANGES).default('24h') });
+
+const networkAgentsQuery = timeRangeQuery('30d').extend({
+  limit: z.number().int().min(1).max(200).default(50)
+});
+
+const listKeysQuery = z.object({
+  validatorAddress: z.string().min(1).max(64).optional(),
+  includeRevoked: z.boolean().default(false)
+});
+
+const rotateKeyBody = z.object({
+  overlapSeconds: z.number().int().min(0).max(30 * 86_400).optional()
+});
+
+const webhookBody = z.object({
+  url: z.string().max(512).refine(
+    urlWhere(u => u.protocol === 'https:' || (u.protocol === 'http:' && process.env.NODE_ENV !== 'production')),
+    'must be a valid https URL'
+  ),
+  events: z.array(z.enum(['*', ...WEBHOOK_EVENT_TYPES])).min(1),
+  description: z.string().max(256).optional()
+});
+
+const listDeliveriesQuery = pagingQuery(50, 500).extend({
+  status: z.enum(DELIVERY_STATUSES).optional(),
+  subscriptionId: z.string().min(1).max(64).optional(),
+  eventType: z.string().min(1).max(64).optional()
+});
+
+// =====================
+// RESPONSE SCHEMAS
+// =====================
+
+// Documentation only: handlers build their bodies directly and nothing is
+// parsed against these. Dates leave the server as ISO strings.
+const isoDate = z.string().datetime();
+const nullableNumber = z.number().nullable();
+
+const successBody = <T extends z.ZodRawShape>(shape: T) => z.object({ success: z.literal(true), ...shape });
+const messageBody = <T extends z.ZodRawShape>(shape: T) => successBody({ message: z.string(), ...shape });
+const dataBody = <T extends z.ZodTypeAny>(data: T) => successBody({ data });
+
+const offsetPagination = z.object({ total: z.number().int(), limit: z.number().int(), skip: z.number().int() });
+const timeRangeField = z.enum(TIME_RANGES);
+
+const agentFindingOutput = agentFindingInput.required({ id: true });
+
+const findingsData = z.object({
+  findingsCount: z.number().int(),
+  criticalCount: z.number().int(),
+  highCount: z.number().int(),
+  mediumCount: z.number().int(),
+  lowCount: z.number().int(),
+  infoCount: z.number().int().optional(),
+  findings: z.array(agentFindingOutput)
+});
+
+const groundTruthEvaluationOutput = z.object({
+  groundTruthVersion: z.number().int(),
+  truePositives: z.number().int(),
+  falsePositives: z.number().int(),
+  missedFindings: z.array(z.string()),
+  matches: z.array(z.object({ findingId: z.string(), groundTruthId: z.string(), similarity: z.number() })),
+  precision: z.number(),
+  recall: z.number(),
+  f1: z.number(),
+  evaluatedAt: isoDate
+});
+
+const computedRewardOutput = z.object({
+  policyVersion: z.string(),
+  score: z.number(),
+  breakdown: z.record(z.number()),
+  submittedScore: z.number(),
+  delta: z.number(),
+  flagged: z.boolean(),
+  computedAt: isoDate
+});
+
+const minerResponseOutput = z.object({
+  minerUid: z.number().int(),
+  minerHotkey: z.string().optional(),
+  githubUrl: z.string().optional(),
+  responseTime: z.number().optional(),
+  success: z.boolean(),
+  errorMessage: z.string().optional(),
+  timestamp: isoDate,
+  agentPerformance: z.object({
+    executionTime: z.number().optional(),
+    findingsCount: z.number().int().optional(),
+    accuracy: z.number().optional(),
+    reportedAccuracy: z.number().optional(),
+    completionStatus: z.string().optional()
+  }).optional(),
+  agentFindings: findingsData.optional(),
+  groundTruthEvaluation: groundTruthEvaluationOutput.optional(),
+  rewardScore: z.number().optional(),
+  rewardReason: z.string().optional(),
+  computedReward: computedRewardOutput.optional()
+});
+
+const sessionStateField = z.enum(['pending', 'in-progress', 'completed', 'failed']);
+
+// Every field but sessionId and timestamp may be left out by a `fields` projection
+const sessionOutput = z.object({
+  sessionId: z.string(),
+  timestamp: isoDate,
+  projectId: z.string(),
+  projectName: z.string(),
+  state: sessionStateField,
+  stateHistory: z.array(z.object({
+    from: sessionStateField.optional(),
+    to: sessionStateField,
+    reason: z.string().optional(),
+    timestamp: isoDate
+  })),
+  sampledMinerCount: z.number().int(),
+  sampledMinerUids: z.array(z.number().int()),
+  challengeInfo: z.object({
+    projectId: z.string(),
+    description: z.string().optional(),
+    difficulty: z.string().optional(),
+    createdAt: isoDate,
+    rawData: z.record(z.unknown()).optional()
+  }),
+  minerResponses: z.array(minerResponseOutput),
+  computedRewards: z.array(z.object({
+    minerUid: z.number().int(),
+    score: z.number(),
+    timestamp: isoDate,
+    computedScore: z.number().optional(),
+    policyVersion: z.string().optional(),
+    flagged: z.boolean().optional()
+  })),
+  metrics: z.object({
+    totalQueryTime: z.number().optional(),
+    averageRewardScore: z.number().optional(),
+    successRate: z.number().optional(),
+    failureCount: z.number().int().optional(),
+    validFindings: z.number().int().optional()
+  }),
+  subnetSnapshot: z.object({
+    netuid: z.number().int(),
+    block: z.number().int(),
+    epoch: z.number().int().optional(),
+    validatorStake: z.number().optional(),
+    activeValidators: z.number().int(),
+    activeMiners: z.number().int(),
+    totalStake: z.number(),
+    emissionPerBlock: z.number(),
+    timestamp: isoDate
+  }),
+  validationErrors: z.array(z.object({
+    stage: z.string(),
+    message: z.string(),
+    timestamp: isoDate,
+    stackTrace: z.string().optional()
+  })),
+  metadata: z.object({
+    validatorAddress: z.string().optional(),
+    configVersion: z.string().optional(),
+    remarks: z.string().optional()
+  })
+}).partial().required({ sessionId: true, timestamp: true });
+
+const consensusResultOutput = z.object({
+  netuid: z.number().int(),
+  epoch: z.number().int(),
+  computedAt: isoDate,
+  stakeSource: z.enum(['metagraph', 'equal']),
+  metagraphBlock: z.number().int().optional(),
+  totalStake: z.number(),
+  outlierThreshold: z.number(),
+  validators: z.array(z.object({
+    validatorAddress: z.string(),
+    sessionId: z.string(),
+    stake: nullableNumber,
+    stakeWeight: z.number(),
+    excluded: z.enum(['not-in-metagraph', 'zero-stake']).optional(),
+    minersScored: z.number().int(),
+    meanAbsDeviation: nullableNumber,
+    outlier: z.boolean()
+  })),
+  miners: z.array(z.object({
+    minerUid: z.number().int(),
+    consensusScore: z.number(),
+    validatorCount: z.number().int(),
+    stakeCoverage: z.number(),
+    minScore: z.number(),
+    maxScore: z.number()
+  }))
+});
+
+const weightVectorOutput = z.object({
+  updateIds: z.array(z.string()),
+  uids: z.array(z.number().int()),
+  weights: z.array(z.number().int()).describe('u16, max weight scaled to 65535'),
+  normalizedWeights: z.array(z.number()),
+  excludedUids: z.array(z.number().int()),
+  maxWeightLimit: z.number(),
+  contentHash: z.string(),
+  hashAlgorithm: z.string()
+});
+
+const groundTruthOutput = z.object({
+  projectId: z.string(),
+  vulnerabilities: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    severity: z.enum(SEVERITIES),
+    codeLocation: z.string().optional(),
+    description: z.string().optional()
+  })),
+  version: z.number().int(),
+  uploadedBy: z.string().optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate
+});
+
+const findingRefOutput = z.object({ sessionId: z.string(), minerUid: z.number().int(), findingId: z.string() });
+
+const triageOutput = findingRefOutput.extend({
+  minerHotkey: z.string().optional(),
+  projectId: z.string().optional(),
+  severity: z.string().optional(),
+  submittedAt: isoDate,
+  status: z.enum(TRIAGE_STATUSES).optional(),
+  duplicateOf: findingRefOutput.optional(),
+  history: z.array(z.object({
+    action: z.enum(['status', 'comment']),
+    status: z.enum(TRIAGE_STATUSES).optional(),
+    comment: z.string().optional(),
+    reviewer: z.string(),
+    at: isoDate
+  })),
+  createdAt: isoDate,
+  updatedAt: isoDate
+});
+
+const triageStatsOutput = z.object({
+  triagedCount: z.number().int(),
+  confirmed: z.number().int(),
+  falsePositive: z.number().int(),
+  duplicate: z.number().int(),
+  wontFix: z.number().int(),
+  falsePositiveRate: nullableNumber
+});
+
+const publicKeyOutput = z.object({
+  keyId: z.string(),
+  keyPrefix: z.string(),
+  label: z.string().optional(),
+  validatorAddress: z.string().optional(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  createdAt: isoDate,
+  expiresAt: isoDate.optional(),
+  revokedAt: isoDate.optional(),
+  lastUsedAt: isoDate.optional(),
+  rotatedFrom: z.string().optional(),
+  replacedBy: z.string().optional()
+});
+
+const issuedKeyBody = successBody({ key: z.string().describe('Plaintext key; shown only once'), data: publicKeyOutput });
+
+const reaperStatusOutput = z.object({
+  running: z.boolean(),
+  lastRunAt: isoDate.nullable(),
+  lastRunDurationMs: z.number(),
+  lastReaped: z.object({ pending: z.number().int(), 'in-progress': z.number().int() }),
+  totalReaped: z.number().int(),
+  runCount: z.number().int(),
+  lastError: z.string().nullable()
+});
+
+const subscriptionOutput = z.object({
+  subscriptionId: z.string(),
+  url: z.string(),
+  events: z.array(z.string()),
+  description: z.string().optional(),
+  active: z.boolean(),
+  createdAt: isoDate
+});
+
+const deliveryOutput = z.object({
+  deliveryId: z.string(),
+  subscriptionId: z.string(),
+  eventType: z.string(),
+  eventId: z.number().int(),
+  payload: z.record(z.unknown()),
+  status: z.enum(DELIVERY_STATUSES),
+  attempts: z.number().int(),
+  nextAttemptAt: isoDate,
+  lastAttemptAt: isoDate.optional(),
+  lastStatusCode: z.number().int().optional(),
+  lastError: z.string().optional(),
+  deliveredAt: isoDate.optional(),
+  createdAt: isoDate
+});
+
+const clusterOutput = z.object({
+  clusterId: z.string(),
+  title: z.string(),
+  severity: z.enum(SEVERITIES),
+  codeLocation: z.string().optional(),
+  minerUids: z.array(z.number().int()),
+  minerCount: z.number().int(),
+  reportCount: z.number().int(),
+  firstReporter: z.object({ minerUid: z.number().int(), findingId: z.string(), timestamp: isoDate }),
+  uniqueToOneMiner: z.boolean(),
+  reports: z.array(z.object({
+    minerUid: z.number().int(),
+    findingId: z.string(),
+    title: z.string(),
+    severity: z.string(),
+    timestamp: isoDate
+  }))
+});
+
+const severityCounts = z.object({
+  critical: z.number().int(),
+  high: z.number().int(),
+  medium: z.number().int(),
+  low: z.number().int()
 });
 
-validationSessionSchema.index({ timestamp: -1 });
-minerHistorySchema.index({ minerUid: 1, timestamp: -1 });
-rewardUpdateSchema.index({ sessionId: 1, timestamp: -1 });
+const facetOutput = z.array(z.object({ value: z.union([z.string(), z.number()]), count: z.number().int() }));
+
+const searchHitOutput = z.object({
+  sessionId: z.string(),
+  projectId: z.string().optional(),
+  validatorAddress: z.string().optional(),
+  minerUid: z.number().int(),
+  minerHotkey: z.string().optional(),
+  findingId: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  remediation: z.string().optional(),
+  severity: z.enum(SEVERITIES),
+  confidenceScore: z.number().optional(),
+  codeLocation: z.string().optional(),
+  submittedAt: isoDate,
+  score: z.number().optional().describe('Text relevance; only when q is given'),
+  highlights: z.object({
+    title: z.string().optional(),
+    description: z.string().optional(),
+    remediation: z.string().optional()
+  }).optional()
+});
+
+const submissionRefOutput = z.object({
+  sessionId: z.string(),
+  minerUid: z.number().int(),
+  minerHotkey: z.string().optional(),
+  submittedAt: isoDate
+});
+
+const plagiarismSuspectOutput = z.object({
+  pairId: z.string(),
+  original: submissionRefOutput,
+  suspect: submissionRefOutput,
+  crossSession: z.boolean(),
+  score: z.number(),
+  sameRepo: z.boolean(),
+  repoKey: z.string().optional(),
+  findingOverlap: z.number(),
+  sharedFindings: z.array(z.object({
+    fingerprint: z.string(),
+    title: z.string(),
+    originalFindingId: z.string(),
+    suspectFindingId: z.string()
+  })),
+  detectedAt: isoDate,
+  updatedAt: isoDate
+});
+
+const registrationOutput = z.object({
+  minerUid: z.number().int(),
+  hotkey: z.string(),
+  active: z.boolean(),
+  startedAt: isoDate,
+  lastSeenAt: isoDate,
+  endedAt: isoDate.optional()
+});
+
+const minerStatsOutput = z.object({
+  avgReward: z.number(),
+  totalParticipations: z.number().int(),
+  successCount: z.number().int(),
+  failureCount: z.number().int(),
+  avgAccuracy: z.number().nullable(),
+  totalFindingsDiscovered: z.number().int(),
+  totalCriticalFindings: z.number().int()
+});
+
+const minerHistoryOutput = z.object({
+  minerUid: z.number().int(),
+  minerHotkey: z.string().optional(),
+  sessionId: z.string(),
+  performanceScore: z.number().optional(),
+  rewardScore: z.number(),
+  githubUrl: z.string().optional(),
+  findingsCount: z.number().int().optional(),
+  criticalFindingsCount: z.number().int().optional(),
+  accuracy: z.number().optional(),
+  executionTime: z.number().optional(),
+  timestamp: isoDate,
+  status: z.enum(['success', 'failed', 'timeout', 'error'])
+});
+
+
+// One per route, named after what the route answers with
+
+const sessionStartedResponse = messageBody({ sessionId: z.string(), timestamp: isoDate });
+const challengeRecordedResponse = messageBody({ projectId: z.string() });
+const minerResponseRecordedResponse = messageBody({
+  minerUid: z.number().int(),
+  action: z.enum(['inserted', 'updated']),
+  findingsCount: z.number().int(),
+  evaluation: z.object({ precision: z.number(), recall: z.number(), f1: z.number() }).optional()
+});
+const minerResponsesBatchResponse = messageBody({
+  accepted: z.number().int(),
+  rejected: z.number().int(),
+  results: z.array(z.object({
+    index: z.number().int(),
+    minerUid: z.number().int().optional(),
+    success: z.boolean(),
+    action: z.enum(['inserted', 'updated']).optional(),
+    error: z.string().optional(),
+    details: z.array(z.object({ location: z.string(), field: z.string(), reason: z.string() })).optional()
+  }))
+});
+const minerRewardRecordedResponse = messageBody({
+  minerUid: z.number().int(),
+  rewardScore: z.number(),
+  findingsCount: z.number().int(),
+  computedReward: computedRewardOutput.pick({ policyVersion: true, score: true, delta: true, flagged: true }).optional()
+});
+const rewardsUpdatedResponse = messageBody({
+  updateId: z.string(),
+  minerCount: z.number().int(),
+  flaggedCount: z.number().int()
+});
+const acknowledgedResponse = messageBody({});
+const sessionClosedResponse = messageBody({ sessionId: z.string() });
+const sessionFailedResponse = messageBody({ sessionId: z.string(), reason: z.string() });
+
+const metagraphRecordedResponse = dataBody(z.object({
+  netuid: z.number().int(),
+  epoch: z.number().int(),
+  block: z.number().int().optional(),
+  validatorCount: z.number().int()
+}));
+const consensusResponse = dataBody(consensusResultOutput);
+const sessionWeightsResponse = dataBody(weightVectorOutput.extend({ sessionId: z.string() }));
+const epochWeightsResponse = dataBody(weightVectorOutput.extend({
+  netuid: z.number().int(),
+  epoch: z.number().int(),
+  validatorAddress: z.string(),
+  sessionIds: z.array(z.string())
+}));
+
+const groundTruthRecordedResponse = messageBody({
+  projectId: z.string(),
+  version: z.number().int(),
+  vulnerabilityCount: z.number().int(),
+  rescoredResponses: z.number().int()
+});
+const groundTruthResponse = dataBody(groundTruthOutput);
+const triageResponse = dataBody(triageOutput);
+
+const issuedKeyResponse = issuedKeyBody;
+const rotatedKeyResponse = issuedKeyBody.extend({ previous: publicKeyOutput });
+const keysResponse = dataBody(z.array(publicKeyOutput));
+const revokedKeyResponse = messageBody({ data: publicKeyOutput });
+
+const reaperDetailResponse = dataBody(reaperStatusOutput.extend({
+  sessionTimeoutMs: z.number(),
+  intervalMs: z.number(),
+  nextRunAt: isoDate.nullable(),
+  overdueSessions: z.number().int()
+}));
+const reaperRunResponse = dataBody(reaperStatusOutput);
+const webhooksProcessedResponse = dataBody(z.object({ processed: z.number().int() }));
+const reindexJobOutput = z.object({
+  state: z.enum(['running', 'completed']),
+  sessions: z.number().int(),
+  findings: z.number().int(),
+  batches: z.number().int(),
+  lastError: z.string().optional().describe('Last failed batch; the next call retries it'),
+  requestedBy: z.string().optional(),
+  startedAt: isoDate,
+  updatedAt: isoDate,
+  completedAt: isoDate.optional()
+});
+const reindexJobResponse = dataBody(reindexJobOutput);
+const reindexAdvancedResponse = dataBody(reindexJobOutput.nullable());
+
+const subscriptionCreatedResponse = successBody({
+  secret: z.string().describe('HMAC signing secret; shown only once'),
+  data: subscriptionOutput
+});
+const subscriptionsResponse = dataBody(z.array(subscriptionOutput));
+const subscriptionDisabledResponse = messageBody({ data: subscriptionOutput });
+const deliveriesResponse = successBody({ data: z.array(deliveryOutput), pagination: offsetPagination });
+const deliveryRequeuedResponse = messageBody({ data: deliveryOutput });
+
+const sessionFindingsResponse = dataBody(z.object({
+  sessionId: z.string(),
+  projectId: z.string().optional(),
+  timestamp: isoDate,
+  summary: z.object({
+    totalFindings: z.number().int(),
+    criticalFindings: z.number().int(),
+    minersWithFindings: z.number().int()
+  }),
+  findingsByMiner: z.array(z.object({
+    minerUid: z.number().int(),
+    githubUrl: z.string().optional(),
+    findingsCount: z.number().int(),
+    severityBreakdown: severityCounts,
+    findings: z.array(agentFindingOutput),
+    evaluation: groundTruthEvaluationOutput.optional(),
+    rewardScore: z.number().optional(),
+    timestamp: isoDate
+  }))
+}));
+const clustersResponse = dataBody(z.object({
+  sessionId: z.string(),
+  projectId: z.string().optional(),
+  timestamp: isoDate,
+  summary: z.object({
+    totalReports: z.number().int(),
+    clusterCount: z.number().int(),
+    uniqueFindings: z.number().int()
+  }),
+  clusters: z.array(clusterOutput)
+}));
+const rewardAuditResponse = dataBody(z.object({
+  sessionId: z.string(),
+  configVersion: z.string().optional(),
+  policyVersion: z.string(),
+  disagreementThreshold: z.number(),
+  flaggedCount: z.number().int(),
+  rewards: z.array(z.object({
+    minerUid: z.number().int(),
+    submittedScore: z.number(),
+    computedScore: z.number(),
+    delta: z.number(),
+    flagged: z.boolean(),
+    policyVersion: z.string(),
+    breakdown: z.record(z.number())
+  }))
+}));
+const rewardPoliciesResponse = successBody({
+  defaultPolicy: z.string(),
+  data: z.array(z.object({ version: z.string(), description: z.string() }))
+});
+const criticalFindingsResponse = dataBody(z.array(z.object({
+  rank: z.number().int(),
+  sessionId: z.string(),
+  projectId: z.string().optional(),
+  minerUid: z.number().int(),
+  githubUrl: z.string().optional(),
+  rewardScore: z.number().optional(),
+  criticalFindingCount: z.number().int(),
+  findings: z.array(agentFindingOutput),
+  timestamp: isoDate
+})));
+const findingSearchResponse = successBody({
+  data: z.array(searchHitOutput),
+  facets: z.object({ severity: facetOutput, projectId: facetOutput, minerUid: facetOutput, validator: facetOutput }),
+  range: z.object({ from: isoDate.nullable(), to: isoDate.nullable() })
+    .describe('Submission dates searched, including the default window'),
+  pagination: offsetPagination
+});
+const plagiarismSuspectsResponse = successBody({
+  data: z.array(plagiarismSuspectOutput),
+  pagination: offsetPagination
+});
+const severityDistributionResponse = successBody({
+  timeRange: timeRangeField,
+  data: z.object({
+    criticalCount: z.number().int(),
+    highCount: z.number().int(),
+    mediumCount: z.number().int(),
+    lowCount: z.number().int(),
+    totalFindings: z.number().int()
+  })
+});
+const auditsResponse = successBody({
+  data: z.array(AuditSchema),
+  skipped: z.array(z.object({ id: z.string(), issues: z.array(z.string()) }))
+    .optional()
+    .describe('Stored responses that could not be projected; present only when non-empty'),
+  pagination: z.object({ limit: z.number().int(), skip: z.number().int() })
+});
+const auditResponse = dataBody(AuditSchema);
+
+const sessionListResponse = successBody({
+  data: z.array(sessionOutput),
+  pagination: z.object({
+    limit: z.number().int(),
+    hasMore: z.boolean(),
+    nextCursor: z.string().nullable().describe('Pass as `cursor` to fetch the next page')
+  })
+});
+const sessionResponse = dataBody(sessionOutput);
+const recentSessionsResponse = successBody({ data: z.array(sessionOutput), pagination: offsetPagination });
+const sessionStatsResponse = successBody({
+  timeRange: timeRangeField,
+  data: z.object({
+    totalSessions: z.number().int(),
+    completedSessions: z.number().int(),
+    failedSessions: z.number().int(),
+    avgRewardScore: nullableNumber,
+    totalMinersQueried: z.number().int(),
+    avgQueryTime: nullableNumber
+  })
+});
+
+const minerHistoryResponse = successBody({
+  minerUid: z.number().int(),
+  history: z.array(minerHistoryOutput),
+  stats: minerStatsOutput,
+  triage: triageStatsOutput,
+  currentHotkey: z.string().nullable(),
+  periods: z.array(minerStatsOutput.extend({
+    minerHotkey: z.string().nullable(),
+    current: z.boolean(),
+    registrations: z.array(registrationOutput),
+    triage: triageStatsOutput
+  })),
+  registrations: z.array(registrationOutput)
+});
+const minerRegistrationsResponse = successBody({
+  minerUid: z.number().int(),
+  currentHotkey: z.string().nullable(),
+  reRegistrations: z.number().int(),
+  registrations: z.array(registrationOutput)
+});
+const minerTrendResponse = successBody({
+  minerUid: z.number().int(),
+  timeRange: timeRangeField,
+  bucketMs: z.number().int(),
+  data: z.array(z.object({
+    timestamp: isoDate,
+    participations: z.number().int(),
+    successRate: z.number(),
+    avgReward: nullableNumber,
+    avgAccuracy: nullableNumber,
+    findingsCount: z.number().int(),
+    criticalFindingsCount: z.number().int(),
+    avgExecutionTime: nullableNumber,
+    percentileRank: z.number(),
+    minersInBucket: z.number().int()
+  })),
+  streaks: z.object({
+    current: z.object({ status: z.string().nullable(), length: z.number().int() }),
+    longestSuccess: z.number().int(),
+    longestFailure: z.number().int()
+  }),
+  volatility: z.object({
+    participations: z.number().int(),
+    meanReward: z.number(),
+    rewardStdDev: z.number(),
+    coefficientOfVariation: nullableNumber,
+    bucketRewardStdDev: z.number()
+  })
+});
+const leaderboardResponse = successBody({
+  timeRange: timeRangeField,
+  leaderboard: z.array(z.object({
+    rank: z.number().int(),
+    minerUid: z.number().int(),
+    minerHotkey: z.string().nullable(),
+    currentHolder: z.boolean().nullable(),
+    totalRewards: z.number(),
+    avgReward: z.number(),
+    participationCount: z.number().int(),
+    successRate: z.string().describe('Percentage, e.g. "87.50%"'),
+    avgAccuracy: z.string().describe('Four decimals, or "N/A"'),
+    findingsDiscovered: z.number().int(),
+    criticalFindings: z.number().int(),
+    triagedFindings: z.number().int(),
+    falsePositiveRate: nullableNumber
+  }))
+});
+
+const projectSummaryResponse = dataBody(z.object({
+  projectId: z.string(),
+  totalValidationRuns: z.number().int(),
+  successfulRuns: z.number().int(),
+  failedRuns: z.number().int(),
+  totalMinersQueried: z.number().int(),
+  avgRewardScore: z.number(),
+  totalFindingsDiscovered: z.number().int(),
+  lastRun: isoDate.nullable(),
+  sessions: z.array(z.object({
+    sessionId: z.string(),
+    timestamp: isoDate,
+    state: sessionStateField,
+    sampledMinerCount: z.number().int(),
+    avgRewardScore: z.number().optional(),
+    findingsCount: z.number().int()
+  }))
+}));
+const networkStatsResponse = dataBody(z.object({
+  activeValidators: z.number().int(),
+  activeMiners: z.number().int(),
+  dailyAudits: z.number().int(),
+  avgAccuracy: z.number(),
+  totalFindingsDiscovered: z.number().int(),
+  criticalFindingsDiscovered: z.number().int()
+}));
+const networkAgentsResponse = successBody({
+  timeRange: timeRangeField,
+  data: z.array(z.object({
+    rank: z.number().int(),
+    minerUid: z.number().int(),
+    agent: z.string().nullable(),
+    benchmark: z.number(),
+    incentive: z.number(),
+    emission: z.number().int(),
+    consensus: z.number(),
+    findingsDiscovered: z.number().int()
+  }))
+});
+const networkThroughputResponse = successBody({
+  timeRange: timeRangeField,
+  bucketMs: z.number().int(),
+  data: z.array(z.object({ timestamp: isoDate, completedSessions: z.number().int(), avgRewardScore: z.number() }))
+});
+const healthResponse = successBody({ status: z.literal('healthy'), timestamp: isoDate });
+const sarifLogResponse = z.object({
+  $schema: z.string(),
+  version: z.literal('2.1.0'),
+  runs: z.array(z.record(z.unknown())).describe('One SARIF run per miner, tool.driver.name carrying the UID')
+});
+
+// =====================
+// VULNERABILITY FINDINGS VALIDATOR
+// =====================
+
+/**
+ * Normalizes schema-validated findings: assigns missing ids, takes `line` from
+ * codeLocation when not given, and derives the severity counts.
+ */
+const validateAgentFindings = (
+  agentFindings: z.infer<typeof minerResponseBody>['agentFindings']
+): AgentFindingsData | undefined => {
+  if (!agentFindings) return undefined;
+
+  const cleanFindings: AgentFinding[] = agentFindings.findings.map(f => ({
+    ...f,
+    id: f.id || uuidv4().slice(0, 8),
+    // Explicit line wins; otherwise take it from codeLocation so audits keep it
+    line: f.line ?? parseCodeLocation(f.codeLocation).startLine
+  }));
+
+  const count = (severity: AgentFinding['severity']) =>
+    cleanFindings.filter(f => f.severity === severity).length;
+
+  return {
+    findingsCount: cleanFindings.length,
+    criticalCount: count('critical'),
+    highCount: count('high'),
+    mediumCount: count('medium'),
+    lowCount: count('low'),
+    infoCount: count('info'),
+    findings: cleanFindings
+  };
+};
+
+// =====================
+// MINER RESPONSE BUILDER
+// =====================
+
+/**
+ * Turns one validated miner-response payload into the stored shape. Shared by
+ * the single and batch routes. Accuracy is derived from the project's ground
+ * truth, never taken from the client.
+ */
+const buildMinerResponse = (
+  body: z.infer<typeof minerResponseBody>,
+  groundTruth: { vulnerabilities: GroundTruthVulnerability[]; version: number } | null
+): MinerResponse => {
+  const agentFindings = validateAgentFindings(body.agentFindings);
+  const evaluation = groundTruth
+    ? evaluateAgainstGroundTruth(agentFindings?.findings ?? [], groundTruth)
+    : undefined;
+
+  return {
+    minerUid: body.minerUid,
+    minerHotkey: body.minerHotkey,
+    githubUrl: body.githubUrl,
+    responseTime: body.responseTime,
+    success: body.success,
+    errorMessage: body.errorMessage,
+    timestamp: new Date(),
+    agentPerformance: {
+      executionTime: body.agentPerformance?.executionTime,
+      findingsCount: body.agentPerformance?.findingsCount,
+      accuracy: evaluation?.f1,
+      reportedAccuracy: body.agentPerformance?.accuracy,
+      completionStatus: body.agentPerformance?.completionStatus
+    },
+    agentFindings,
+    groundTruthEvaluation: evaluation,
+    rewardScore: body.rewardScore,
+    rewardReason: body.rewardReason
+  };
+};
+
+// =====================
+// FINDING SIMILARITY
+// =====================
+
+const SEVERITY_RANK: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1, info: 0 };
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'in', 'of', 'on', 'to', 'for', 'and', 'or', 'is', 'via', 'with', 'by', 'at']);
+
+const tokenize = (text?: string): Set<string> =>
+  new Set(
+    (text || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter(t => t.length > 1 && !STOPWORDS.has(t))
+  );
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Parses the loose location formats miners emit: `src/Vault.sol:42`,
+ * `Vault.sol:42-50`, `Vault.sol#L42-L50`, `Vault.sol line 42`.
+ */
+const parseCodeLocation = (loc?: string): { file?: string; startLine?: number; endLine?: number } => {
+  if (!loc) return {};
+  const m = loc.trim().match(/^(.*?)(?:\s*(?:[:#]L?|,?\s+lines?\s+)(\d+)(?:\s*-\s*L?(\d+))?)?\s*$/i);
+  if (!m) return {};
+  const file = m[1]?.trim().toLowerCase().replace(/\\/g, '/').replace(/^\.\//, '') || undefined;
+  const startLine = m[2] ? Number(m[2]) : undefined;
+  const endLine = m[3] ? Number(m[3]) : startLine;
+  return { file, startLine, endLine };
+};
+
+const LINE_TOLERANCE = 5;
+
+const locationSimilarity = (a?: string, b?: string): number => {
+  const la = parseCodeLocation(a);
+  const lb = parseCodeLocation(b);
+  if (!la.file || !lb.file) return 0;
+
+  const baseA = la.file.split('/').pop();
+  const baseB = lb.file.split('/').pop();
+  if (baseA !== baseB) return 0;
+  if (la.startLine === undefined || lb.startLine === undefined) return 0.5;
+
+  const overlaps = la.startLine - LINE_TOLERANCE <= (lb.endLine ?? lb.startLine) &&
+    lb.startLine - LINE_TOLERANCE <= (la.endLine ?? la.startLine);
+  return overlaps ? 1 : 0.5;
+};
+
+const severitySimilarity = (a: string, b: string): number => {
+  const diff = Math.abs((SEVERITY_RANK[a] ?? 2) - (SEVERITY_RANK[b] ?? 2));
+  return diff === 0 ? 1 : diff === 1 ? 0.5 : 0;
+};
+
+const findingSimilarity = (
+  a: { title?: string; severity: string; codeLocation?: string },
+  b: { title?: string; severity: string; codeLocation?: string }
+): number =>
+  0.5 * jaccard(tokenize(a.title), tokenize(b.title)) +
+  0.3 * locationSimilarity(a.codeLocation, b.codeLocation) +
+  0.2 * severitySimilarity(a.severity, b.severity);
+
+// =====================
+// GROUND TRUTH EVALUATION
+// =====================
+
+const GROUND_TRUTH_MATCH_THRESHOLD = 0.5;
+
+/**
+ * Matches reported findings one-to-one against known vulnerabilities (greedy,
+ * best pair first) and derives precision/recall/F1.
+ */
+const evaluateAgainstGroundTruth = (
+  findings: AgentFinding[],
+  groundTruth: { vulnerabilities: GroundTruthVulnerability[]; version: number }
+): GroundTruthEvaluation => {
+  const candidates: Array<{ findingId: string; groundTruthId: string; similarity: number }> = [];
+  for (const f of findings) {
+    for (const g of groundTruth.vulnerabilities) {
+      const similarity = findingSimilarity(f, g);
+      if (similarity >= GROUND_TRUTH_MATCH_THRESHOLD) {
+        candidates.push({ findingId: f.id, groundTruthId: g.id, similarity: Number(similarity.toFixed(4)) });
+      }
+    }
+  }
+  candidates.sort((x, y) => y.similarity - x.similarity);
+
+  const usedFindings = new Set<string>();
+  const usedTruth = new Set<string>();
+  const matches: GroundTruthEvaluation['matches'] = [];
+  for (const c of candidates) {
+    if (usedFindings.has(c.findingId) || usedTruth.has(c.groundTruthId)) continue;
+    usedFindings.add(c.findingId);
+    usedTruth.add(c.groundTruthId);
+    matches.push(c);
+  }
+
+  const truePositives = matches.length;
+  const falsePositives = findings.length - truePositives;
+  const total = groundTruth.vulnerabilities.length;
+  const precision = findings.length > 0 ? truePositives / findings.length : (total === 0 ? 1 : 0);
+  const recall = total > 0 ? truePositives / total : 1;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return {
+    groundTruthVersion: groundTruth.version,
+    truePositives,
+    falsePositives,
+    missedFindings: groundTruth.vulnerabilities.filter(g => !usedTruth.has(g.id)).map(g => g.id),
+    matches,
+    precision: Number(precision.toFixed(4)),
+    recall: Number(recall.toFixed(4)),
+    f1: Number(f1.toFixed(4)),
+    evaluatedAt: new Date()
+  };
+};
+
+// =====================
+// FINDING CLUSTERING
+// =====================
+
+const CLUSTER_SIMILARITY_THRESHOLD = 0.55;
+
+interface FindingCluster {
+  clusterId: string;
+  title: string;
+  severity: AgentFinding['severity'];
+  codeLocation?: string;
+  minerUids: number[];
+  minerCount: number;
+  reportCount: number;
+  firstReporter: { minerUid: number; findingId: string; timestamp: Date };
+  uniqueToOneMiner: boolean;
+  reports: Array<{ minerUid: number; findingId: string; title: string; severity: string; timestamp: Date }>;
+}
+
+const clusterSimilarity = (a: AgentFinding, b: AgentFinding): number =>
+  0.4 * jaccard(tokenize(a.title), tokenize(b.title)) +
+  0.2 * jaccard(tokenize(a.description), tokenize(b.description)) +
+  0.25 * locationSimilarity(a.codeLocation, b.codeLocation) +
+  0.15 * severitySimilarity(a.severity, b.severity);
+
+/**
+ * Hash of the sorted member keys (`minerUid:index:findingId`, the index
+ * covering miners that reuse a finding id). Clusters partition the session's
+ * reports, so IDs are unique within a response; the same membership always
+ * yields the same ID, and any change to it (a new response joining, or a
+ * better match re-routing a report) yields a new one.
+ */
+const clusterIdFor = (
+  sessionId: string,
+  members: Array<{ minerUid: number; idx: number; finding: AgentFinding }>
+): string => {
+  const key = members.map(m => `${m.minerUid}:${m.idx}:${m.finding.id}`).sort().join(',');
+  return `cl_${createHash('sha1').update(`${sessionId}|${key}`).digest('hex').slice(0, 16)}`;
+};
+
+/**
+ * Greedily groups a session's findings across miners. Reports are visited in
+ * submission order so each cluster is seeded by its first reporter.
+ */
+const clusterSessionFindings = (sessionId: string, responses: MinerResponse[]): FindingCluster[] => {
+  const reports = responses
+    .flatMap(r => (r.agentFindings?.findings ?? []).map((f, idx) => ({
+      minerUid: r.minerUid,
+      timestamp: new Date(r.timestamp),
+      idx,
+      finding: f
+    })))
+    .sort((a, b) =>
+      a.timestamp.getTime() - b.timestamp.getTime() || a.minerUid - b.minerUid || a.idx - b.idx);
+
+  const clusters: Array<{ seed: AgentFinding; members: typeof reports }> = [];
+  for (const report of reports) {
+    let best: typeof clusters[number] | undefined;
+    let bestScore = CLUSTER_SIMILARITY_THRESHOLD;
+    for (const cluster of clusters) {
+      const score = clusterSimilarity(cluster.seed, report.finding);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+    if (best) best.members.push(report);
+    else clusters.push({ seed: report.finding, members: [report] });
+  }
+
+  return clusters.map(({ seed, members }) => {
+    const minerUids = Array.from(new Set(members.map(m => m.minerUid))).sort((a, b) => a - b);
+    const severity = members.reduce<AgentFinding['severity']>(
+      (max, m) => (SEVERITY_RANK[m.finding.severity] > SEVERITY_RANK[max] ? m.finding.severity : max),
+      seed.severity
+    );
+    const first = members[0];
+    return {
+      clusterId: clusterIdFor(sessionId, members),
+      title: seed.title,
+      severity,
+      codeLocation: seed.codeLocation,
+      minerUids,
+      minerCount: minerUids.length,
+      reportCount: members.length,
+      firstReporter: { minerUid: first.minerUid, findingId: first.finding.id, timestamp: first.timestamp },
+      uniqueToOneMiner: minerUids.length === 1,
+      reports: members.map(m => ({
+        minerUid: m.minerUid,
+        findingId: m.finding.id,
+        title: m.finding.title,
+        severity: m.finding.severity,
+        timestamp: m.timestamp
+      }))
+    };
+  });
+};
+
+// =====================
+// PLAGIARISM DETECTION
+// =====================
+
+const PLAGIARISM_SCORE_THRESHOLD = 0.6;
+const PLAGIARISM_LOOKBACK_MS = 30 * 86_400_000;
+// Per submission, after ranking by shared finding fingerprints and repo match
+const PLAGIARISM_MAX_CANDIDATES = 200;
+// Short title+description pairs collide between honest miners too often to count as copies
+const FINGERPRINT_MIN_WORDS = 8;
+
+interface SubmissionFingerprintData {
+  sessionId: string;
+  minerUid: number;
+  minerHotkey?: string;
+  repoKey?: string;
+  submittedAt: Date;
+  findings: Array<{ findingId: string; title: string; fingerprint: string }>;
+}
+
+interface SubmissionComparison {
+  score: number;
+  sameRepo: boolean;
+  findingOverlap: number;
+  sharedFindings: Array<{ fingerprint: string; title: string; originalFindingId: string; suspectFindingId: string }>;
+}
+
+/**
+ * Reduces a repo URL to `host/owner/repo`, so `.git` suffixes, trailing
+ * slashes and deep links into the same repo compare equal.
+ */
+const normalizeRepoUrl = (url?: string): string | undefined => {
+  if (!url) return undefined;
+  try {
+    const u = new URL(url);
+    const [owner, repo] = u.pathname.split('/').filter(Boolean);
+    if (!owner || !repo) return undefined;
+    return `${u.hostname.toLowerCase()}/${owner.toLowerCase()}/${repo.toLowerCase().replace(/\.git$/, '')}`;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Hash of the finding's wording with case, punctuation and spacing ignored.
+ * Word order is kept: independent reports of the same bug match on
+ * clusterSimilarity, only copied text matches here.
+ */
+const fingerprintFinding = (f: AgentFinding): string | undefined => {
+  const words = [f.title, f.description].filter(Boolean).join(' ').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.length < FINGERPRINT_MIN_WORDS) return undefined;
+  return createHash('sha1').update(words.join(' ')).digest('hex').slice(0, 20);
+};
+
+const toSubmissionFingerprint = (sessionId: string, response: MinerResponse): SubmissionFingerprintData => ({
+  sessionId,
+  minerUid: response.minerUid,
+  minerHotkey: response.minerHotkey,
+  repoKey: normalizeRepoUrl(response.githubUrl),
+  submittedAt: response.timestamp ?? new Date(),
+  findings: (response.agentFindings?.findings ?? []).flatMap(f => {
+    const fingerprint = fingerprintFinding(f);
+    return fingerprint ? [{ findingId: f.id, title: f.title, fingerprint }] : [];
+  })
+});
+
+/**
+ * Scores how likely `suspect` copied `original`. Finding overlap is shared
+ * fingerprints over the smaller submission's count, so padding a copied
+ * report with extra findings does not dilute it. A shared repo alone
+ * reaches the threshold.
+ */
+const compareSubmissions = (
+  original: SubmissionFingerprintData,
+  suspect: SubmissionFingerprintData
+): SubmissionComparison => {
+  const originalByPrint = new Map(original.findings.map(f => [f.fingerprint, f]));
+  const sharedFindings: SubmissionComparison['sharedFindings'] = [];
+  const seen = new Set<string>();
+  for (const f of suspect.findings) {
+    const match = originalByPrint.get(f.fingerprint);
+    if (!match || seen.has(f.fingerprint)) continue;
+    seen.add(f.fingerprint);
+    sharedFindings.push({
+      fingerprint: f.fingerprint,
+      title: match.title,
+      originalFindingId: match.findingId,
+      suspectFindingId: f.findingId
+    });
+  }
+
+  const smaller = Math.min(originalByPrint.size, new Set(suspect.findings.map(f => f.fingerprint)).size);
+  const findingOverlap = smaller > 0 ? sharedFindings.length / smaller : 0;
+  const sameRepo = !!original.repoKey && original.repoKey === suspect.repoKey;
+  const score = sameRepo
+    ? PLAGIARISM_SCORE_THRESHOLD + (1 - PLAGIARISM_SCORE_THRESHOLD) * findingOverlap
+    : findingOverlap;
+
+  return { score: round4(score), sameRepo, findingOverlap: round4(findingOverlap), sharedFindings };
+};
+
+/** Order-independent so re-scanning either side of a pair updates the same record */
+const plagiarismPairId = (a: SubmissionFingerprintData, b: SubmissionFingerprintData): string => {
+  const key = [`${a.sessionId}:${a.minerUid}`, `${b.sessionId}:${b.minerUid}`].sort().join('|');
+  return `pl_${createHash('sha1').update(key).digest('hex').slice(0, 16)}`;
+};
+
+// =====================
+// REWARD POLICIES
+// =====================
+
+interface RewardPolicyInput {
+  success: boolean;
+  responseTime?: number;
+  difficulty?: string;
+  agentPerformance?: MinerResponse['agentPerformance'];
+  agentFindings?: AgentFindingsData;
+  groundTruthEvaluation?: GroundTruthEvaluation;
+}
+
+interface RewardPolicyResult {
+  score: number;
+  breakdown: Record<string, number>;
+}
+
+interface RewardPolicy {
+  version: string;
+  description: string;
+  compute(input: RewardPolicyInput): RewardPolicyResult;
+}
+
+const SEVERITY_WEIGHT: Record<string, number> = { critical: 5, high: 3, medium: 1.5, low: 0.5, info: 0.1 };
+const DIFFICULTY_MULTIPLIER: Record<string, number> = { easy: 0.8, medium: 1, hard: 1.15, critical: 1.3 };
+const RESPONSE_TIME_BUDGET_MS = 600_000;
+
+const clamp01 = (n: number): number => Math.min(Math.max(n, 0), 1);
+const round4 = (n: number): number => Number(n.toFixed(4));
+
+/**
+ * Severity- and confidence-weighted findings volume, saturating towards 1.
+ */
+const weightedFindingsScore = (findings: AgentFinding[] = []): number => {
+  const weighted = findings.reduce(
+    (acc, f) => acc + (SEVERITY_WEIGHT[f.severity] ?? 1) * (f.confidenceScore ?? 0.5),
+    0
+  );
+  return 1 - Math.exp(-weighted / 5);
+};
+
+const speedScore = (responseTime?: number): number =>
+  responseTime === undefined ? 0.5 : 1 - clamp01(responseTime / RESPONSE_TIME_BUDGET_MS);
+
+const REWARD_POLICIES: Record<string, RewardPolicy> = {
+  v1: {
+    version: 'v1',
+    description: 'Findings quality (ground-truth F1 when available), speed and completion, scaled by difficulty',
+    compute: (input): RewardPolicyResult => {
+      if (!input.success) return { score: 0, breakdown: { success: 0 } };
+      const quality = input.groundTruthEvaluation?.f1 ?? weightedFindingsScore(input.agentFindings?.findings);
+      const speed = speedScore(input.responseTime);
+      const completion = input.agentPerformance?.completionStatus === 'completed' ? 1 : 0.5;
+      const multiplier = DIFFICULTY_MULTIPLIER[input.difficulty ?? 'medium'] ?? 1;
+      const base = 0.6 * quality + 0.25 * speed + 0.15 * completion;
+      return {
+        score: round4(clamp01(base * multiplier)),
+        breakdown: {
+          quality: round4(quality),
+          speed: round4(speed),
+          completion,
+          difficultyMultiplier: multiplier
+        }
+      };
+    }
+  },
+  v2: {
+    version: 'v2',
+    description: 'Ground-truth precision/recall weighted with a false-positive penalty; falls back to v1 without ground truth',
+    compute: (input): RewardPolicyResult => {
+      const evaluation = input.groundTruthEvaluation;
+      if (!evaluation) return REWARD_POLICIES.v1.compute(input);
+      if (!input.success) return { score: 0, breakdown: { success: 0 } };
+      const reported = evaluation.truePositives + evaluation.falsePositives;
+      const fpPenalty = reported > 0 ? 0.2 * (evaluation.falsePositives / reported) : 0;
+      const speed = speedScore(input.responseTime);
+      const multiplier = DIFFICULTY_MULTIPLIER[input.difficulty ?? 'medium'] ?? 1;
+      const base = 0.45 * evaluation.recall + 0.35 * evaluation.precision + 0.2 * speed - fpPenalty;
+      return {
+        score: round4(clamp01(base * multiplier)),
+        breakdown: {
+          recall: evaluation.recall,
+          precision: evaluation.precision,
+          speed: round4(speed),
+          falsePositivePenalty: round4(fpPenalty),
+          difficultyMultiplier: multiplier
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Selects the policy for a session's configVersion, accepting either a bare
+ * policy version (`v2`) or a config string that carries one (`v2.3.1`).
+ */
+const resolveRewardPolicy = (configVersion?: string): RewardPolicy => {
+  const major = configVersion?.toLowerCase().match(/^v?(\d+)/)?.[1];
+  return REWARD_POLICIES[configVersion ?? '']
+    ?? (major ? REWARD_POLICIES[`v${major}`] : undefined)
+    ?? REWARD_POLICIES[DEFAULT_REWARD_POLICY]
+    ?? REWARD_POLICIES.v1;
+};
+
+const computeReward = (
+  policy: RewardPolicy,
+  response: MinerResponse | undefined,
+  difficulty: string | undefined,
+  submittedScore: number
+): ComputedReward | undefined => {
+  if (!response) return undefined;
+  const { score, breakdown } = policy.compute({
+    success: response.success,
+    responseTime: response.responseTime,
+    difficulty,
+    agentPerformance: response.agentPerformance,
+    agentFindings: response.agentFindings,
+    groundTruthEvaluation: response.groundTruthEvaluation
+  });
+  const delta = round4(submittedScore - score);
+  return {
+    policyVersion: policy.version,
+    score,
+    breakdown,
+    submittedScore,
+    delta,
+    flagged: Math.abs(delta) > REWARD_DISAGREEMENT_THRESHOLD,
+    computedAt: new Date()
+  };
+};
+
+// =====================
+// WEIGHT VECTOR EXPORT
+// =====================
+
+const U16_MAX = 65535;
+
+/**
+ * Port of bittensor's normalize_max_weight: normalizes to sum 1 while capping
+ * any single weight at `limit`, redistributing the excess.
+ */
+const normalizeMaxWeight = (x: number[], limit: number): number[] => {
+  const epsilon = 1e-7;
+  const n = x.length;
+  const total = x.reduce((a, b) => a + b, 0);
+  if (total === 0 || n * limit <= 1) return x.map(() => 1 / n);
+
+  const values = [...x].sort((a, b) => a - b);
+  const estimation = values.map(v => v / total);
+  if (Math.max(...estimation) <= limit) return x.map(v => v / total);
+
+  const cumsum: number[] = [];
+  estimation.reduce((acc, v, i) => (cumsum[i] = acc + v), 0);
+  const estimationSum = estimation.map((v, i) => (n - i - 1) * v);
+  const nValues = estimation.filter((v, i) => v / (estimationSum[i] + cumsum[i] + epsilon) < limit).length;
+
+  const cutoffScale = (limit * cumsum[nValues - 1] - epsilon) / (1 - limit * (n - nValues));
+  const cutoff = cutoffScale * total;
+  const clipped = x.map(w => (w > cutoff ? cutoff : w));
+  const clippedTotal = clipped.reduce((a, b) => a + b, 0);
+  return clipped.map(w => w / clippedTotal);
+};
+
+/**
+ * Turns per-UID rewards into the `uids`/`weights` u16 vectors set_weights
+ * expects. Output is sorted by uid so the same rewards always hash the same.
+ */
+const buildWeightVector = (rewards: Map<number, number>, maxWeightLimit: number) => {
+  const entries = Array.from(rewards.entries())
+    .filter(([, r]) => isFinite(r) && r > 0)
+    .sort(([a], [b]) => a - b);
+  const excludedUids = Array.from(rewards.entries())
+    .filter(([, r]) => !(isFinite(r) && r > 0))
+    .map(([uid]) => uid)
+    .sort((a, b) => a - b);
+
+  const normalized = entries.length > 0 ? normalizeMaxWeight(entries.map(([, r]) => r), maxWeightLimit) : [];
+  const maxWeight = Math.max(0, ...normalized);
+
+  const uids: number[] = [];
+  const weights: number[] = [];
+  entries.forEach(([uid], i) => {
+    const w = maxWeight > 0 ? Math.round((normalized[i] / maxWeight) * U16_MAX) : 0;
+    if (w > 0) {
+      uids.push(uid);
+      weights.push(w);
+    } else {
+      excludedUids.push(uid);
+    }
+  });
+
+  const contentHash = createHash('sha256').update(JSON.stringify({ uids, weights })).digest('hex');
+
+  return {
+    uids,
+    weights,
+    normalizedWeights: normalized.map(round4),
+    excludedUids: excludedUids.sort((a, b) => a - b),
+    maxWeightLimit,
+    contentHash,
+    hashAlgorithm: 'sha256(JSON.stringify({ uids, weights }))'
+  };
+};
+
+// =====================
+// SARIF EXPORT
+// =====================
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVEL: Record<string, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note'
+};
+
+// GitHub code scanning reads `security-severity` (0-10) to rank results
+const SARIF_SECURITY_SEVERITY: Record<string, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '3.0',
+  info: '0.0'
+};
+
+const toSarifLocation = (codeLocation?: string) => {
+  const loc = parseCodeLocation(codeLocation);
+  if (!codeLocation || !loc.file) return undefined;
+  const file = codeLocation.trim().match(/^(.*?)(?:[:#\s,]|$)/)?.[1] || loc.file;
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file.replace(/\\/g, '/') },
+      ...(loc.startLine !== undefined && {
+        region: { startLine: Math.max(loc.startLine, 1), endLine: Math.max(loc.endLine ?? loc.startLine, 1) }
+      })
+    }
+  };
+};
+
+/**
+ * One SARIF run per miner response: the miner's agent is the tool, and each
+ * finding id becomes both a rule and a result.
+ */
+const toSarifRun = (sessionId: string, projectId: string | undefined, response: MinerResponse) => {
+  const findings = response.agentFindings?.findings ?? [];
+  return {
+    tool: {
+      driver: {
+        name: `audit-agent-miner-${response.minerUid}`,
+        informationUri: response.githubUrl,
+        properties: { minerUid: response.minerUid, githubUrl: response.githubUrl },
+        rules: findings.map(f => ({
+          id: f.id,
+          name: f.title,
+          shortDescription: { text: f.title },
+          ...(f.description && { fullDescription: { text: f.description } }),
+          ...(f.remediation && { help: { text: f.remediation } }),
+          defaultConfiguration: { level: SARIF_LEVEL[f.severity] ?? 'warning' },
+          properties: { 'security-severity': SARIF_SECURITY_SEVERITY[f.severity], tags: ['security'] }
+        }))
+      }
+    },
+    automationDetails: { id: `${sessionId}/${response.minerUid}` },
+    properties: {
+      sessionId,
+      projectId,
+      minerUid: response.minerUid,
+      githubUrl: response.githubUrl,
+      rewardScore: response.rewardScore,
+      submittedAt: response.timestamp
+    },
+    results: findings.map((f, ruleIndex) => {
+      const location = toSarifLocation(f.codeLocation);
+      return {
+        ruleId: f.id,
+        ruleIndex,
+        level: SARIF_LEVEL[f.severity] ?? 'warning',
+        message: { text: f.description ? `${f.title}: ${f.description}` : f.title },
+        ...(location && { locations: [location] }),
+        properties: {
+          severity: f.severity,
+          confidenceScore: f.confidenceScore,
+          remediation: f.remediation,
+          codeLocation: f.codeLocation
+        }
+      };
+    })
+  };
+};
+
+const toSarifLog = (runs: ReturnType<typeof toSarifRun>[]) => ({
+  $schema: SARIF_SCHEMA,
+  version: '2.1.0',
+  runs
+});
+
+// =====================
+// PUBLIC AUDIT PROJECTION
+// =====================
+
+type Audit = z.infer<typeof AuditSchema>;
+
+const AUDIT_ID_SEPARATOR = ':';
+
+/**
+ * Projects one stored miner response into the frontend's AuditSchema shape and
+ * validates it, so a schema drift is caught per row instead of shipping bad
+ * data. Callers decide whether a row that does not fit is skipped or fatal.
+ */
+const toAudit = (
+  session: { sessionId: string; projectId?: string; projectName?: string; state?: string },
+  response: MinerResponse
+): z.SafeParseReturnType<unknown, Audit> => {
+  const findings = response.agentFindings?.findings ?? [];
+  const count = (severity: AgentFinding['severity']) => findings.filter(f => f.severity === severity).length;
+
+  return AuditSchema.safeParse({
+    id: `${session.sessionId}${AUDIT_ID_SEPARATOR}${response.minerUid}`,
+    created_at: new Date(response.timestamp).getTime(),
+    // Rows recorded before hotkeys were tracked have none
+    miner_hotkey: response.minerHotkey ?? null,
+    name: session.projectName || session.projectId || session.sessionId,
+    score: response.rewardScore ?? 0,
+    status: response.agentPerformance?.completionStatus ?? (response.success ? 'completed' : 'error'),
+    findings_count: {
+      critical: count('critical'),
+      high: count('high'),
+      medium: count('medium'),
+      low: count('low'),
+      info: count('info')
+    },
+    vulnerabilities: findings.map(f => ({
+      id: f.id,
+      title: f.title,
+      severity: f.severity,
+      line: f.line ?? 0,
+      impact: f.impact ?? '',
+      description: f.description ?? '',
+      recommendation: f.remediation ?? ''
+    }))
+  });
+};
+
+// =====================
+// TIME SERIES + MINER TRENDS
+// =====================
+
+/**
+ * Window start and bucket width shared by the time-series endpoints.
+ */
+const timeRangeBuckets = (timeRange: TimeRange): { since: Date; bucketMs: number } => {
+  const since = new Date();
+  if (timeRange === '24h') {
+    since.setHours(since.getHours() - 24);
+    return { since, bucketMs: 60 * 60 * 1000 };
+  }
+  if (timeRange === '30d') {
+    since.setDate(since.getDate() - 30);
+    return { since, bucketMs: 24 * 60 * 60 * 1000 };
+  }
+  since.setDate(since.getDate() - 7);
+  return { since, bucketMs: 6 * 60 * 60 * 1000 };
+};
+
+const bucketStartExpr = (bucketMs: number) =>
+  ({ $subtract: [{ $toLong: '$timestamp' }, { $mod: [{ $toLong: '$timestamp' }, bucketMs] }] });
+
+/**
+ * Share of values below `value`, counting ties as half (0-100).
+ */
+const percentileRank = (value: number, values: number[]): number => {
+  if (values.length === 0) return 0;
+  const below = values.filter(v => v < value).length;
+  const equal = values.filter(v => v === value).length;
+  return ((below + 0.5 * equal) / values.length) * 100;
+};
+
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+};
+
+interface StreakStats {
+  current: { status: 'success' | 'failed' | null; length: number };
+  longestSuccess: number;
+  longestFailure: number;
+}
+
+/**
+ * Runs of successful/failed participations, oldest first. timeout and error
+ * count as failures.
+ */
+const computeStreaks = (statuses: string[]): StreakStats => {
+  const stats: StreakStats = { current: { status: null, length: 0 }, longestSuccess: 0, longestFailure: 0 };
+  for (const raw of statuses) {
+    const status = raw === 'success' ? 'success' : 'failed';
+    stats.current = stats.current.status === status
+      ? { status, length: stats.current.length + 1 }
+      : { status, length: 1 };
+    if (status === 'success') stats.longestSuccess = Math.max(stats.longestSuccess, stats.current.length);
+    else stats.longestFailure = Math.max(stats.longestFailure, stats.current.length);
+  }
+  return stats;
+};
+
+// $avg yields null for buckets where the field was never recorded
+const round4OrNull = (n: number | null | undefined): number | null =>
+  n === null || n === undefined ? null : round4(n);
+
+// =====================
+// INTERFACES
+// =====================
+
+interface ValidationSessionDocument extends ValidationSession, Document {}
+
+interface MinerHistoryDocument extends Document {
+  minerUid: number;
+  minerHotkey?: string;
+  sessionId: string;
+  performanceScore?: number;
+  rewardScore: number;
+  githubUrl?: string;
+  findingsCount?: number;
+  criticalFindingsCount?: number;
+  accuracy?: number;
+  executionTime?: number;
+  timestamp: Date;
+  status: 'success' | 'failed' | 'timeout' | 'error';
+}
+
+type ConsensusStakeSource = 'metagraph' | 'equal';
+type ConsensusExclusion = 'not-in-metagraph' | 'zero-stake';
+
+interface ConsensusResultDocument extends Document {
+  netuid: number;
+  epoch: number;
+  computedAt: Date;
+  stakeSource: ConsensusStakeSource;
+  metagraphBlock?: number;
+  totalStake: number;
+  outlierThreshold: number;
+  validators: Array<{
+    validatorAddress: string;
+    sessionId: string;
+    stake: number | null;
+    stakeWeight: number;
+    excluded?: ConsensusExclusion;
+    minersScored: number;
+    meanAbsDeviation: number | null;
+    outlier: boolean;
+  }>;
+  miners: Array<{
+    minerUid: number;
+    consensusScore: number;
+    validatorCount: number;
+    stakeCoverage: number;
+    minScore: number;
+    maxScore: number;
+  }>;
+}
+
+interface MetagraphSnapshotDocument extends Document {
+  netuid: number;
+  epoch: number;
+  block?: number;
+  stakes: Array<{ hotkey: string; stake: number }>;
+  uploadedBy?: string;
+  updatedAt: Date;
+}
+
+interface GroundTruthDocument extends Document {
+  projectId: string;
+  vulnerabilities: GroundTruthVulnerability[];
+  version: number;
+  uploadedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface WebhookSubscriptionDocument extends Document {
+  subscriptionId: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+}
+
+interface WebhookDeliveryDocument extends Document {
+  deliveryId: string;
+  subscriptionId: string;
+  eventType: string;
+  eventId: number;
+  payload: Record<string, any>;
+  status: 'pending' | 'delivered' | 'dead-letter';
+  attempts: number;
+  nextAttemptAt: Date;
+  lastAttemptAt?: Date;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+interface IdempotencyRecordDocument extends Document {
+  key: string;
+  scope: string;
+  requestHash: string;
+  state: 'processing' | 'completed';
+  statusCode?: number;
+  responseBody?: any;
+  expiresAt: Date;
+}
+
+interface ApiKeyDocument extends Document {
+  keyId: string;
+  keyHash: string;
+  keyPrefix: string;
+  label?: string;
+  validatorAddress?: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+  rotatedFrom?: string;
+  replacedBy?: string;
+}
+
+interface MinerRegistrationDocument extends Document {
+  minerUid: number;
+  hotkey: string;
+  active: boolean;
+  startedAt: Date;
+  lastSeenAt: Date;
+  endedAt?: Date;
+}
+
+interface SubmissionFingerprintDocument extends SubmissionFingerprintData, Document {}
+
+interface PlagiarismSubmissionRef {
+  sessionId: string;
+  minerUid: number;
+  minerHotkey?: string;
+  submittedAt: Date;
+}
+
+interface PlagiarismSuspectDocument extends Document {
+  pairId: string;
+  // The earlier submission; the later one is the suspected copy
+  original: PlagiarismSubmissionRef;
+  suspect: PlagiarismSubmissionRef;
+  sessionIds: string[];
+  minerUids: number[];
+  crossSession: boolean;
+  score: number;
+  sameRepo: boolean;
+  repoKey?: string;
+  findingOverlap: number;
+  sharedFindings: SubmissionComparison['sharedFindings'];
+  detectedAt: Date;
+  updatedAt: Date;
+}
+
+type TriageStatus = typeof TRIAGE_STATUSES[number];
+
+interface FindingTriageDocument extends Document {
+  sessionId: string;
+  minerUid: number;
+  minerHotkey?: string;
+  findingId: string;
+  projectId?: string;
+  severity?: string;
+  // When the miner submitted the finding; windows the leaderboard's false-positive rate
+  submittedAt: Date;
+  status?: TriageStatus;
+  duplicateOf?: { sessionId: string; minerUid: number; findingId: string };
+  history: Array<{
+    action: 'status' | 'comment';
+    status?: TriageStatus;
+    comment?: string;
+    reviewer: string;
+    at: Date;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface FindingIndexDocument extends Document {
+  sessionId: string;
+  projectId?: string;
+  validatorAddress?: string;
+  minerUid: number;
+  minerHotkey?: string;
+  findingId: string;
+  title: string;
+  description?: string;
+  remediation?: string;
+  severity: AgentFinding['severity'];
+  confidenceScore?: number;
+  codeLocation?: string;
+  submittedAt: Date;
+}
+
+interface ReindexJobDocument extends Document {
+  name: string;
+  // Changes on every restart so a batch from the previous run cannot write into this one
+  runId: string;
+  state: 'running' | 'completed';
+  // Sessions are walked in _id order; the last one indexed
+  lastSessionId?: mongoose.Types.ObjectId;
+  sessions: number;
+  findings: number;
+  batches: number;
+  lockedUntil?: Date;
+  lastError?: string;
+  requestedBy?: string;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+interface UsedNonceDocument extends Document {
+  hotkey: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+interface RewardUpdateDocument extends Document {
+  updateId: string;
+  sessionId: string;
+  minerUids: number[];
+  rewards: number[];
+  timestamp: Date;
+  confirmed: boolean;
+  confirmationTime?: Date;
+}
+
+// =====================
+// DATABASE SCHEMAS
+// =====================
+const agentFindingSchema = new Schema(
+  {
+    id: { type: String },
+    title: { type: String },
+    severity: {
+      type: String,
+      enum: ['critical', 'high', 'medium', 'low', 'info']
+    },
+    description: { type: String },
+    codeLocation: { type: String },
+    line: { type: Number },
+    impact: { type: String },
+    remediation: { type: String },
+    confidenceScore: { type: Number }
+  },
+  { _id: false }
+);
+
+const agentFindingsDataSchema = new Schema({
+  findingsCount: { type: Number },
+  criticalCount: { type: Number },
+  highCount: { type: Number },
+  mediumCount: { type: Number },
+  lowCount: { type: Number },
+  infoCount: { type: Number },
+  findings: [agentFindingSchema]
+});
+
+const groundTruthEvaluationSchema = new Schema(
+  {
+    groundTruthVersion: { type: Number },
+    truePositives: { type: Number },
+    falsePositives: { type: Number },
+    missedFindings: [{ type: String }],
+    matches: [{
+      findingId: { type: String },
+      groundTruthId: { type: String },
+      similarity: { type: Number },
+      _id: false
+    }],
+    precision: { type: Number },
+    recall: { type: Number },
+    f1: { type: Number },
+    evaluatedAt: { type: Date }
+  },
+  { _id: false }
+);
+
+const computedRewardSchema = new Schema(
+  {
+    policyVersion: { type: String },
+    score: { type: Number },
+    breakdown: Schema.Types.Mixed,
+    submittedScore: { type: Number },
+    delta: { type: Number },
+    flagged: { type: Boolean },
+    computedAt: { type: Date }
+  },
+  { _id: false }
+);
+
+const validationSessionSchema = new Schema<ValidationSessionDocument>({
+  sessionId: { type: String, required: true, unique: true, index: true },
+  timestamp: { type: Date, default: Date.now, index: true },
+  projectId: String,
+  projectName: String,
+  state: {
+    type: String,
+    enum: ['pending', 'in-progress', 'completed', 'failed'],
+    default: 'pending'
+  },
+  stateHistory: [{
+    from: { type: String },
+    to: { type: String },
+    reason: { type: String },
+    timestamp: { type: Date },
+    _id: false
+  }],
+  sampledMinerCount: { type: Number },
+  sampledMinerUids: [{ type: Number }],
+  challengeInfo: {
+    projectId: { type: String },
+    description: { type: String },
+    difficulty: { type: String },
+    createdAt: { type: Date },
+    rawData: Schema.Types.Mixed
+  },
+  minerResponses: [{
+    minerUid: { type: Number },
+    minerHotkey: { type: String },
+    githubUrl: { type: String },
+    responseTime: { type: Number },
+    success: { type: Boolean },
+    errorMessage: { type: String },
+    timestamp: { type: Date },
+    agentPerformance: {
+      executionTime: { type: Number },
+      findingsCount: { type: Number },
+      accuracy: { type: Number },
+      reportedAccuracy: { type: Number },
+      completionStatus: { type: String }
+    },
+    agentFindings: agentFindingsDataSchema,
+    groundTruthEvaluation: groundTruthEvaluationSchema,
+    rewardScore: { type: Number },
+    rewardReason: { type: String },
+    computedReward: computedRewardSchema,
+    _id: false
+  }],
+  computedRewards: [{
+    minerUid: { type: Number },
+    score: { type: Number },
+    timestamp: { type: Date },
+    computedScore: { type: Number },
+    policyVersion: { type: String },
+    flagged: { type: Boolean },
+    _id: false
+  }],
+  metrics: {
+    totalQueryTime: { type: Number },
+    averageRewardScore: { type: Number },
+    successRate: { type: Number },
+    failureCount: { type: Number },
+    validFindings: { type: Number }
+  },
+  subnetSnapshot: {
+    netuid: { type: Number },
+    block: { type: Number },
+    epoch: { type: Number },
+    validatorStake: { type: Number },
+    activeValidators: { type: Number },
+    activeMiners: { type: Number },
+    totalStake: { type: Number },
+    emissionPerBlock: { type: Number },
+    timestamp: { type: Date }
+  },
+  validationErrors: [{
+    stage: { type: String },
+    message: { type: String },
+    timestamp: { type: Date },
+    stackTrace: { type: String },
+    _id: false
+  }],
+  metadata: {
+    validatorAddress: { type: String },
+    configVersion: { type: String },
+    remarks: { type: String }
+  }
+});
+
+const minerHistorySchema = new Schema<MinerHistoryDocument>({
+  minerUid: { type: Number, required: true, index: true },
+  minerHotkey: { type: String },
+  sessionId: { type: String, required: true, index: true },
+  performanceScore: { type: Number },
+  rewardScore: { type: Number },
+  githubUrl: { type: String },
+  findingsCount: { type: Number },
+  criticalFindingsCount: { type: Number },
+  accuracy: { type: Number },
+  executionTime: { type: Number },
+  timestamp: { type: Date, default: Date.now, index: true },
+  status: { type: String, enum: ['success', 'failed', 'timeout', 'error'] }
+});
+
+const rewardUpdateSchema = new Schema<RewardUpdateDocument>({
+  updateId: { type: String, required: true, unique: true },
+  sessionId: { type: String, required: true, index: true },
+  minerUids: [{ type: Number }],
+  rewards: [{ type: Number }],
+  timestamp: { type: Date, default: Date.now, index: true },
+  confirmed: { type: Boolean, default: false },
+  confirmationTime: { type: Date }
+});
+
+const consensusResultSchema = new Schema<ConsensusResultDocument>({
+  netuid: { type: Number, required: true },
+  epoch: { type: Number, required: true },
+  computedAt: { type: Date, default: Date.now },
+  stakeSource: { type: String, enum: ['metagraph', 'equal'] },
+  metagraphBlock: { type: Number },
+  totalStake: { type: Number },
+  outlierThreshold: { type: Number },
+  validators: [{
+    validatorAddress: { type: String },
+    sessionId: { type: String },
+    stake: { type: Number, default: null },
+    stakeWeight: { type: Number },
+    excluded: { type: String, enum: ['not-in-metagraph', 'zero-stake'] },
+    minersScored: { type: Number },
+    meanAbsDeviation: { type: Number },
+    outlier: { type: Boolean },
+    _id: false
+  }],
+  miners: [{
+    minerUid: { type: Number },
+    consensusScore: { type: Number },
+    validatorCount: { type: Number },
+    stakeCoverage: { type: Number },
+    minScore: { type: Number },
+    maxScore: { type: Number },
+    _id: false
+  }]
+});
+
+const metagraphSnapshotSchema = new Schema<MetagraphSnapshotDocument>({
+  netuid: { type: Number, required: true },
+  epoch: { type: Number, required: true },
+  block: { type: Number },
+  stakes: [{
+    hotkey: { type: String, required: true },
+    stake: { type: Number, required: true },
+    _id: false
+  }],
+  uploadedBy: { type: String },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+const groundTruthSchema = new Schema<GroundTruthDocument>({
+  projectId: { type: String, required: true, unique: true },
+  vulnerabilities: [{
+    id: { type: String },
+    title: { type: String },
+    severity: { type: String, enum: ['critical', 'high', 'medium', 'low', 'info'] },
+    codeLocation: { type: String },
+    description: { type: String },
+    _id: false
+  }],
+  version: { type: Number, default: 1 },
+  uploadedBy: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+const webhookSubscriptionSchema = new Schema<WebhookSubscriptionDocument>({
+  subscriptionId: { type: String, required: true, unique: true },
+  url: { type: String, required: true },
+  secret: { type: String, required: true },
+  events: [{ type: String }],
+  description: { type: String },
+  active: { type: Boolean, default: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>({
+  deliveryId: { type: String, required: true, unique: true },
+  subscriptionId: { type: String, required: true, index: true },
+  eventType: { type: String },
+  eventId: { type: Number },
+  payload: Schema.Types.Mixed,
+  status: { type: String, enum: ['pending', 'delivered', 'dead-letter'], default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  lastAttemptAt: { type: Date },
+  lastStatusCode: { type: Number },
+  lastError: { type: String },
+  deliveredAt: { type: Date },
+  createdAt: { type: Date, default: Date.now, index: true }
+});
+
+const idempotencyRecordSchema = new Schema<IdempotencyRecordDocument>({
+  key: { type: String, required: true },
+  scope: { type: String, required: true },
+  requestHash: { type: String, required: true },
+  state: { type: String, enum: ['processing', 'completed'], default: 'processing' },
+  statusCode: { type: Number },
+  responseBody: Schema.Types.Mixed,
+  expiresAt: { type: Date, required: true }
+});
+
+const apiKeySchema = new Schema<ApiKeyDocument>({
+  keyId: { type: String, required: true, unique: true },
+  keyHash: { type: String, required: true, unique: true },
+  keyPrefix: { type: String, required: true },
+  label: { type: String },
+  validatorAddress: { type: String, index: true },
+  scopes: [{ type: String, enum: API_KEY_SCOPES }],
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date },
+  revokedAt: { type: Date },
+  lastUsedAt: { type: Date },
+  rotatedFrom: { type: String },
+  replacedBy: { type: String }
+});
+
+// One row per UID→hotkey registration period; the open period has active: true
+const minerRegistrationSchema = new Schema<MinerRegistrationDocument>({
+  minerUid: { type: Number, required: true },
+  hotkey: { type: String, required: true },
+  active: { type: Boolean, default: true },
+  startedAt: { type: Date, required: true },
+  lastSeenAt: { type: Date, required: true },
+  endedAt: { type: Date }
+});
+
+// One row per (session, miner) submission, kept so later submissions can be compared against it
+const submissionFingerprintSchema = new Schema<SubmissionFingerprintDocument>({
+  sessionId: { type: String, required: true },
+  minerUid: { type: Number, required: true },
+  minerHotkey: { type: String },
+  repoKey: { type: String },
+  submittedAt: { type: Date, required: true },
+  findings: [{
+    findingId: { type: String },
+    title: { type: String },
+    fingerprint: { type: String },
+    _id: false
+  }]
+});
+
+const plagiarismSubmissionRefSchema = new Schema(
+  {
+    sessionId: { type: String, required: true },
+    minerUid: { type: Number, required: true },
+    minerHotkey: { type: String },
+    submittedAt: { type: Date, required: true }
+  },
+  { _id: false }
+);
+
+const plagiarismSuspectSchema = new Schema<PlagiarismSuspectDocument>({
+  pairId: { type: String, required: true, unique: true },
+  original: { type: plagiarismSubmissionRefSchema, required: true },
+  suspect: { type: plagiarismSubmissionRefSchema, required: true },
+  sessionIds: [{ type: String }],
+  minerUids: [{ type: Number }],
+  crossSession: { type: Boolean, required: true },
+  score: { type: Number, required: true },
+  sameRepo: { type: Boolean, required: true },
+  repoKey: { type: String },
+  findingOverlap: { type: Number, required: true },
+  sharedFindings: [{
+    fingerprint: { type: String },
+    title: { type: String },
+    originalFindingId: { type: String },
+    suspectFindingId: { type: String },
+    _id: false
+  }],
+  detectedAt: { type: Date, required: true },
+  updatedAt: { type: Date, required: true }
+});
+
+// Reviewer verdict on one reported finding; history is append-only
+const findingTriageSchema = new Schema<FindingTriageDocument>({
+  sessionId: { type: String, required: true },
+  minerUid: { type: Number, required: true },
+  minerHotkey: { type: String },
+  findingId: { type: String, required: true },
+  projectId: { type: String },
+  severity: { type: String },
+  submittedAt: { type: Date, required: true },
+  status: { type: String, enum: TRIAGE_STATUSES },
+  duplicateOf: {
+    type: new Schema(
+      { sessionId: String, minerUid: Number, findingId: String },
+      { _id: false }
+    )
+  },
+  history: [{
+    action: { type: String, enum: ['status', 'comment'], required: true },
+    status: { type: String, enum: TRIAGE_STATUSES },
+    comment: { type: String },
+    reviewer: { type: String, required: true },
+    at: { type: Date, required: true },
+    _id: false
+  }],
+  createdAt: { type: Date, required: true },
+  updatedAt: { type: Date, required: true }
+});
+
+// Denormalized copy of every reported finding, one row each, for cross-session search
+const findingIndexSchema = new Schema<FindingIndexDocument>({
+  sessionId: { type: String, required: true },
+  projectId: { type: String },
+  validatorAddress: { type: String },
+  minerUid: { type: Number, required: true },
+  minerHotkey: { type: String },
+  findingId: { type: String, required: true },
+  title: { type: String, required: true },
+  description: { type: String },
+  remediation: { type: String },
+  severity: { type: String, enum: SEVERITIES, required: true },
+  confidenceScore: { type: Number },
+  codeLocation: { type: String },
+  submittedAt: { type: Date, required: true }
+});
+
+const reindexJobSchema = new Schema<ReindexJobDocument>({
+  name: { type: String, required: true, unique: true },
+  runId: { type: String, required: true },
+  state: { type: String, enum: ['running', 'completed'], required: true },
+  lastSessionId: { type: Schema.Types.ObjectId },
+  sessions: { type: Number, default: 0 },
+  findings: { type: Number, default: 0 },
+  batches: { type: Number, default: 0 },
+  lockedUntil: { type: Date },
+  lastError: { type: String },
+  requestedBy: { type: String },
+  startedAt: { type: Date, required: true },
+  updatedAt: { type: Date, required: true },
+  completedAt: { type: Date }
+});
+
+const usedNonceSchema = new Schema<UsedNonceDocument>({
+  hotkey: { type: String, required: true },
+  nonce: { type: String, required: true },
+  expiresAt: { type: Date, required: true }
+});
+
+validationSessionSchema.index({ timestamp: -1 });
+validationSessionSchema.index({ timestamp: -1, sessionId: -1 });
+validationSessionSchema.index({ 'metadata.validatorAddress': 1, timestamp: -1, sessionId: -1 });
+validationSessionSchema.index({ projectId: 1, timestamp: -1, sessionId: -1 });
+validationSessionSchema.index({ state: 1, timestamp: 1 });
+validationSessionSchema.index({ 'subnetSnapshot.netuid': 1, 'subnetSnapshot.epoch': 1 });
+consensusResultSchema.index({ netuid: 1, epoch: -1 }, { unique: true });
+metagraphSnapshotSchema.index({ netuid: 1, epoch: -1 }, { unique: true });
+minerHistorySchema.index({ minerUid: 1, timestamp: -1 });
+minerHistorySchema.index({ sessionId: 1, minerUid: 1 }, { unique: true });
+minerHistorySchema.index({ minerUid: 1, minerHotkey: 1, timestamp: -1 });
+minerRegistrationSchema.index({ minerUid: 1, startedAt: -1 });
+// At most one open registration per UID
+minerRegistrationSchema.index({ minerUid: 1 }, { unique: true, partialFilterExpression: { active: true } });
+submissionFingerprintSchema.index({ sessionId: 1, minerUid: 1 }, { unique: true });
+submissionFingerprintSchema.index({ repoKey: 1, submittedAt: -1 });
+submissionFingerprintSchema.index({ 'findings.fingerprint': 1 });
+plagiarismSuspectSchema.index({ score: -1, updatedAt: -1 });
+plagiarismSuspectSchema.index({ sessionIds: 1 });
+plagiarismSuspectSchema.index({ minerUids: 1 });
+findingTriageSchema.index({ sessionId: 1, minerUid: 1, findingId: 1 }, { unique: true });
+findingTriageSchema.index({ minerUid: 1, minerHotkey: 1, submittedAt: -1 });
+findingIndexSchema.index(
+  { title: 'text', description: 'text', remediation: 'text' },
+  { weights: { title: 5, remediation: 2, description: 1 }, name: 'finding_text' }
+);
+findingIndexSchema.index({ sessionId: 1, minerUid: 1, findingId: 1 }, { unique: true });
+findingIndexSchema.index({ severity: 1, submittedAt: -1 });
+findingIndexSchema.index({ projectId: 1, submittedAt: -1 });
+findingIndexSchema.index({ minerUid: 1, submittedAt: -1 });
+findingIndexSchema.index({ validatorAddress: 1, submittedAt: -1 });
+findingIndexSchema.index({ submittedAt: -1 });
+rewardUpdateSchema.index({ sessionId: 1, timestamp: -1 });
+usedNonceSchema.index({ hotkey: 1, nonce: 1 }, { unique: true });
+idempotencyRecordSchema.index({ key: 1, scope: 1 }, { unique: true });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+idempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+usedNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// =====================
+// MODELS
+// =====================
+
+const ValidationSession: Model<ValidationSessionDocument> = mongoose.model(
+  'ValidationSession',
+  validationSessionSchema
+);
+
+const MinerHistory: Model<MinerHistoryDocument> = mongoose.model(
+  'MinerHistory',
+  minerHistorySchema
+);
+
+const RewardUpdate: Model<RewardUpdateDocument> = mongoose.model(
+  'RewardUpdate',
+  rewardUpdateSchema
+);
+
+const ConsensusResult: Model<ConsensusResultDocument> = mongoose.model(
+  'ConsensusResult',
+  consensusResultSchema
+);
+
+const MetagraphSnapshot: Model<MetagraphSnapshotDocument> = mongoose.model(
+  'MetagraphSnapshot',
+  metagraphSnapshotSchema
+);
+
+const GroundTruth: Model<GroundTruthDocument> = mongoose.model(
+  'GroundTruth',
+  groundTruthSchema
+);
+
+const WebhookSubscription: Model<WebhookSubscriptionDocument> = mongoose.model(
+  'WebhookSubscription',
+  webhookSubscriptionSchema
+);
+
+const WebhookDelivery: Model<WebhookDeliveryDocument> = mongoose.model(
+  'WebhookDelivery',
+  webhookDeliverySchema
+);
+
+const IdempotencyRecord: Model<IdempotencyRecordDocument> = mongoose.model(
+  'IdempotencyRecord',
+  idempotencyRecordSchema
+);
+
+const ApiKey: Model<ApiKeyDocument> = mongoose.model(
+  'ApiKey',
+  apiKeySchema
+);
+
+const MinerRegistration: Model<MinerRegistrationDocument> = mongoose.model(
+  'MinerRegistration',
+  minerRegistrationSchema
+);
+
+const SubmissionFingerprint: Model<SubmissionFingerprintDocument> = mongoose.model(
+  'SubmissionFingerprint',
+  submissionFingerprintSchema
+);
+
+const PlagiarismSuspect: Model<PlagiarismSuspectDocument> = mongoose.model(
+  'PlagiarismSuspect',
+  plagiarismSuspectSchema
+);
+
+const FindingTriage: Model<FindingTriageDocument> = mongoose.model(
+  'FindingTriage',
+  findingTriageSchema
+);
+
+const FindingIndex: Model<FindingIndexDocument> = mongoose.model(
+  'FindingIndex',
+  findingIndexSchema
+);
+
+const ReindexJob: Model<ReindexJobDocument> = mongoose.model(
+  'ReindexJob',
+  reindexJobSchema
+);
+
+const UsedNonce: Model<UsedNonceDocument> = mongoose.model(
+  'UsedNonce',
+  usedNonceSchema
+);
+
+// =====================
+// LIVE EVENTS
+// =====================
+
+type SessionEventType =
+  | 'session.started'
+  | 'challenge.recorded'
+  | 'miner.response'
+  | 'reward.recorded'
+  | 'error.logged'
+  | 'session.completed'
+  | 'session.failed';
+
+interface SessionEvent {
+  id: number;
+  type: SessionEventType;
+  sessionId: string;
+  validatorAddress?: string;
+  projectId?: string;
+  timestamp: Date;
+  data: Record<string, any>;
+}
+
+// Process-local: events reach only streams held by the instance that
+// published them, and the replay buffer does not survive a restart. Live
+// streaming assumes a single long-running instance, not serverless.
+const EVENT_BUFFER_SIZE = 1000;
+const eventBuffer: SessionEvent[] = [];
+const eventBus = new EventEmitter();
+
+// Seeded from the clock so ids keep increasing across restarts and a stale
+// Last-Event-ID never skips newer events.
+let lastEventId = Date.now() * 1000;
+
+/**
+ * Streams the event to live subscribers and queues its webhook deliveries.
+ * Callers await the returned promise before responding, so a serverless
+ * instance frozen after the response cannot drop the deliveries; it never
+ * rejects.
+ */
+const publishEvent = (
+  type: SessionEventType,
+  session: { sessionId: string; projectId?: string; metadata?: { validatorAddress?: string } },
+  data: Record<string, any> = {}
+): Promise<void> => {
+  const event: SessionEvent = {
+    id: ++lastEventId,
+    type,
+    sessionId: session.sessionId,
+    validatorAddress: session.metadata?.validatorAddress,
+    projectId: session.projectId,
+    timestamp: new Date(),
+    data
+  };
+  eventBuffer.push(event);
+  if (eventBuffer.length > EVENT_BUFFER_SIZE) eventBuffer.shift();
+  eventBus.emit('event', event);
+  return enqueueWebhookDeliveries(event).catch((err: any) => console.error('Failed to enqueue webhooks:', err));
+};
+
+/**
+ * Event context for routes behind verifySessionOwner, which loads the session
+ * owner and project into res.locals.
+ */
+const sessionEventSource = (sessionId: string, res: Response) => ({
+  sessionId,
+  projectId: res.locals.session?.projectId,
+  metadata: res.locals.session?.metadata
+});
+
+// =====================
+// TRANSACTIONS
+// =====================
+
+// Flipped off the first time the server reports it is not a replica set member,
+// when ALLOW_NON_TRANSACTIONAL_WRITES permits the fallback
+let transactionsSupported = true;
+
+const isTransactionUnsupported = (err: any): boolean =>
+  err?.code === 20 && /Transaction numbers are only allowed/.test(err?.message ?? '');
+
+/**
+ * Runs `fn` in a Mongo transaction when the deployment supports them (replica
+ * set or sharded cluster). withTransaction retries on transient errors, so
+ * `fn` must be safe to re-run. A standalone server is an error unless
+ * ALLOW_NON_TRANSACTIONAL_WRITES is set; `fn` then runs once with a null
+ * session and its writes are not atomic, so callers order them with the
+ * guarded session write first and keep the rest idempotent.
+ */
+const withTransaction = async (fn: (dbSession: mongoose.ClientSession | null) => Promise<void>): Promise<void> => {
+  if (!transactionsSupported) {
+    await fn(null);
+    return;
+  }
+
+  const dbSession = await mongoose.startSession();
+  try {
+    await dbSession.withTransaction(() => fn(dbSession));
+  } catch (err: any) {
+    if (!isTransactionUnsupported(err)) throw err;
+    if (!ALLOW_NON_TRANSACTIONAL_WRITES) {
+      throw new Error('MongoDB does not support transactions (standalone server); run a replica set or set ALLOW_NON_TRANSACTIONAL_WRITES=true');
+    }
+    transactionsSupported = false;
+    console.warn('MongoDB does not support transactions (standalone server); reward writes are not atomic');
+    await fn(null);
+  } finally {
+    await dbSession.endSession();
+  }
+};
+
+/**
+ * One MinerHistory row per session and miner, shared by /miner-reward and
+ * /rewards-update so leaderboard and history see both the same way. Upserts
+ * on (sessionId, minerUid): re-recording a reward replaces the row.
+ */
+const upsertHistory = (entries: Array<Record<string, any>>, dbSession: mongoose.ClientSession | null) =>
+  MinerHistory.bulkWrite(
+    entries.map(entry => ({
+      updateOne: {
+        filter: { sessionId: entry.sessionId, minerUid: entry.minerUid },
+        update: { $set: entry },
+        upsert: true
+      }
+    })),
+    { session: dbSession ?? undefined }
+  );
+
+const buildHistoryEntry = (
+  sessionId: string,
+  minerUid: number,
+  rewardScore: number,
+  minerResponse?: MinerResponse
+): Record<string, any> => ({
+  minerUid,
+  minerHotkey: minerResponse?.minerHotkey,
+  sessionId,
+  rewardScore,
+  findingsCount: minerResponse?.agentFindings?.findingsCount || 0,
+  criticalFindingsCount: minerResponse?.agentFindings?.criticalCount || 0,
+  githubUrl: minerResponse?.githubUrl,
+  accuracy: minerResponse?.agentPerformance?.accuracy,
+  executionTime: minerResponse?.agentPerformance?.executionTime,
+  timestamp: new Date(),
+  status: rewardScore > 0 ? 'success' : 'failed'
+});
+
+// =====================
+// MINER REGISTRATIONS
+// =====================
+
+/**
+ * Keeps the UID→hotkey timeline current. The same hotkey extends the open
+ * period; a different one closes it and opens a new period, so stats from a
+ * deregistered miner are never credited to the UID's next owner.
+ */
+const recordMinerRegistrations = async (
+  responses: Array<Pick<MinerResponse, 'minerUid' | 'minerHotkey' | 'timestamp'>>
+): Promise<void> => {
+  for (const { minerUid, minerHotkey, timestamp } of responses) {
+    if (!minerHotkey) continue;
+    const seenAt = timestamp ?? new Date();
+
+    const extended = await MinerRegistration.updateOne(
+      { minerUid, hotkey: minerHotkey, active: true },
+      { $max: { lastSeenAt: seenAt } }
+    );
+    if (extended.matchedCount > 0) continue;
+
+    await MinerRegistration.updateMany(
+      { minerUid, active: true },
+      { $set: { active: false, endedAt: seenAt } }
+    );
+    try {
+      await MinerRegistration.create({
+        minerUid,
+        hotkey: minerHotkey,
+        active: true,
+        startedAt: seenAt,
+        lastSeenAt: seenAt
+      });
+    } catch (err: any) {
+      // A concurrent request opened the period first
+      if (err?.code !== 11000) throw err;
+    }
+  }
+};
+
+// =====================
+// PLAGIARISM SCAN
+// =====================
+
+const toSubmissionRef = (f: SubmissionFingerprintData): PlagiarismSubmissionRef => ({
+  sessionId: f.sessionId,
+  minerUid: f.minerUid,
+  minerHotkey: f.minerHotkey,
+  submittedAt: f.submittedAt
+});
+
+interface PlagiarismCandidate {
+  _id: mongoose.Types.ObjectId;
+  sessionId: string;
+  minerUid: number;
+  minerHotkey?: string;
+  repoKey?: string;
+  submittedAt: Date;
+  prints: string[];
+}
+
+/**
+ * Orders one submission's candidates by shared finding fingerprints, then
+ * repo match, then recency, and keeps the top PLAGIARISM_MAX_CANDIDATES. An
+ * old original that shares findings outranks any number of recent
+ * same-repo submissions that share none.
+ */
+const rankPlagiarismCandidates = (
+  submission: SubmissionFingerprintData,
+  candidates: PlagiarismCandidate[]
+): PlagiarismCandidate[] => {
+  const prints = new Set(submission.findings.map(f => f.fingerprint));
+  return candidates
+    // The same hotkey under another UID is one miner re-registering, not copying
+    .filter(c => c.minerUid !== submission.minerUid &&
+      !(submission.minerHotkey && c.minerHotkey === submission.minerHotkey))
+    .map(c => ({
+      candidate: c,
+      shared: c.prints.filter(p => prints.has(p)).length,
+      sameRepo: !!submission.repoKey && c.repoKey === submission.repoKey
+    }))
+    .filter(r => r.shared > 0 || r.sameRepo)
+    .sort((a, b) =>
+      b.shared - a.shared ||
+      Number(b.sameRepo) - Number(a.sameRepo) ||
+      b.candidate.submittedAt.getTime() - a.candidate.submittedAt.getTime())
+    .slice(0, PLAGIARISM_MAX_CANDIDATES)
+    .map(r => r.candidate);
+};
+
+/**
+ * Stores each response's fingerprint, then compares it with other miners'
+ * submissions from the lookback window that share its repo or any finding
+ * fingerprint. Pairs at or above the threshold are upserted as suspects;
+ * the earlier submission is treated as the original. A batch costs the same
+ * four round trips as a single response. Returns the number of suspect
+ * pairs written.
+ */
+const scanForPlagiarism = async (sessionId: string, responses: MinerResponse[]): Promise<number> => {
+  const submissions = responses.map(r => toSubmissionFingerprint(sessionId, r));
+  if (submissions.length === 0) return 0;
+
+  await SubmissionFingerprint.bulkWrite(submissions.map(submission => ({
+    updateOne: {
+      filter: { sessionId, minerUid: submission.minerUid },
+      update: { $set: submission },
+      upsert: true
+    }
+  })), { ordered: false });
+
+  const prints = Array.from(new Set(submissions.flatMap(s => s.findings.map(f => f.fingerprint))));
+  const repoKeys = Array.from(new Set(submissions.flatMap(s => s.repoKey ?? [])));
+  const signals: Array<Record<string, any>> = [];
+  if (repoKeys.length > 0) signals.push({ repoKey: { $in: repoKeys } });
+  if (prints.length > 0) signals.push({ 'findings.fingerprint': { $in: prints } });
+  if (signals.length === 0) return 0;
+
+  // Fingerprints only; full findings are loaded for the candidates that survive ranking
+  const candidates: PlagiarismCandidate[] = await SubmissionFingerprint.aggregate([
+    {
+      $match: {
+        submittedAt: { $gte: new Date(Date.now() - PLAGIARISM_LOOKBACK_MS) },
+        $or: signals,
+        $nor: [{ sessionId, minerUid: { $in: submissions.map(s => s.minerUid) } }]
+      }
+    },
+    {
+      $project: {
+        sessionId: 1,
+        minerUid: 1,
+        minerHotkey: 1,
+        repoKey: 1,
+        submittedAt: 1,
+        prints: { $ifNull: ['$findings.fingerprint', []] }
+      }
+    },
+    { $addFields: { shared: { $size: { $setIntersection: ['$prints', prints] } } } },
+    { $sort: { shared: -1, submittedAt: -1 } },
+    { $limit: PLAGIARISM_MAX_CANDIDATES * submissions.length }
+  ]);
+
+  const ranked = submissions.map(submission => ({
+    submission,
+    candidates: rankPlagiarismCandidates(submission, candidates)
+  }));
+  const selectedIds = Array.from(new Set(ranked.flatMap(r => r.candidates.map(c => String(c._id)))));
+  if (selectedIds.length === 0) return 0;
+
+  const loaded = await SubmissionFingerprint.find({ _id: { $in: selectedIds } }).lean();
+  const byId = new Map(loaded.map(doc => [String(doc._id), doc as SubmissionFingerprintData]));
+
+  const now = new Date();
+  const suspects = new Map<string, any>();
+  for (const { submission, candidates: selected } of ranked) {
+    for (const { _id } of selected) {
+      const candidate = byId.get(String(_id));
+      if (!candidate) continue;
+
+      const [original, suspect] = candidate.submittedAt <= submission.submittedAt
+        ? [candidate, submission]
+        : [submission, candidate];
+      const comparison = compareSubmissions(original, suspect);
+      if (comparison.score < PLAGIARISM_SCORE_THRESHOLD) continue;
+
+      // Two submissions in one batch meet twice; keep one write per pair
+      const pairId = plagiarismPairId(original, suspect);
+      suspects.set(pairId, {
+        updateOne: {
+          filter: { pairId },
+          update: {
+            $set: {
+              original: toSubmissionRef(original),
+              suspect: toSubmissionRef(suspect),
+              sessionIds: Array.from(new Set([original.sessionId, suspect.sessionId])),
+              minerUids: [original.minerUid, suspect.minerUid],
+              crossSession: original.sessionId !== suspect.sessionId,
+              ...comparison,
+              ...(comparison.sameRepo && { repoKey: suspect.repoKey }),
+              updatedAt: now
+            },
+            $setOnInsert: { detectedAt: now }
+          },
+          upsert: true
+        }
+      });
+    }
+  }
+
+  if (suspects.size > 0) await PlagiarismSuspect.bulkWrite(Array.from(suspects.values()), { ordered: false });
+  return suspects.size;
+};
+
+// =====================
+// FINDING TRIAGE STATS
+// =====================
+
+const triageStatsGroup = {
+  triagedCount: { $sum: 1 },
+  confirmed: { $sum: { $cond: [{ $eq: ['$status', 'confirmed'] }, 1, 0] } },
+  falsePositive: { $sum: { $cond: [{ $eq: ['$status', 'false-positive'] }, 1, 0] } },
+  duplicate: { $sum: { $cond: [{ $eq: ['$status', 'duplicate'] }, 1, 0] } },
+  wontFix: { $sum: { $cond: [{ $eq: ['$status', 'wont-fix'] }, 1, 0] } }
+};
+
+interface TriageStats {
+  triagedCount: number;
+  confirmed: number;
+  falsePositive: number;
+  duplicate: number;
+  wontFix: number;
+  falsePositiveRate: number | null;
+}
+
+const EMPTY_TRIAGE_STATS: TriageStats = {
+  triagedCount: 0, confirmed: 0, falsePositive: 0, duplicate: 0, wontFix: 0, falsePositiveRate: null
+};
+
+/**
+ * Counts triage verdicts per group. Findings with only comments have no
+ * status and are left out, so the false-positive rate is over reviewed
+ * findings only.
+ */
+const aggregateTriageStats = async (
+  match: Record<string, any>,
+  groupBy: Record<string, string> | string | null
+): Promise<Array<{ _id: any } & TriageStats>> => {
+  const groups = await FindingTriage.aggregate([
+    { $match: { ...match, status: { $exists: true } } },
+    { $group: { _id: groupBy, ...triageStatsGroup } }
+  ]);
+  return groups.map((g: any) => ({
+    ...g,
+    falsePositiveRate: g.triagedCount > 0 ? round4(g.falsePositive / g.triagedCount) : null
+  }));
+};
+
+/** One group's stats from aggregateTriageStats, zeroed when nothing was reviewed */
+const triageStatsFor = (
+  groups: Array<{ _id: any } & TriageStats>,
+  matches: (id: any) => boolean
+): TriageStats => {
+  const group = groups.find(g => matches(g._id));
+  if (!group) return EMPTY_TRIAGE_STATS;
+  const { _id, ...stats } = group;
+  return stats;
+};
+
+// =====================
+// FINDING SEARCH INDEX
+// =====================
+
+const toFindingIndexRows = (
+  session: { sessionId: string; projectId?: string; metadata?: { validatorAddress?: string } },
+  response: MinerResponse
+) =>
+  (response.agentFindings?.findings ?? []).map(f => ({
+    sessionId: session.sessionId,
+    projectId: session.projectId,
+    validatorAddress: session.metadata?.validatorAddress,
+    minerUid: response.minerUid,
+    minerHotkey: response.minerHotkey,
+    findingId: f.id,
+    title: f.title,
+    description: f.description,
+    remediation: f.remediation,
+    severity: f.severity,
+    confidenceScore: f.confidenceScore,
+    codeLocation: f.codeLocation,
+    submittedAt: response.timestamp ?? new Date()
+  }));
+
+/**
+ * Makes the index match each given response: one upsert per finding on the
+ * unique (sessionId, minerUid, findingId) key, then removal of that miner's
+ * rows whose finding the response no longer carries. Concurrent writes for
+ * the same miner cannot duplicate a row, and a re-submitted response drops
+ * its earlier findings.
+ */
+const writeFindingIndex = async (
+  session: Parameters<typeof toFindingIndexRows>[0],
+  responses: MinerResponse[]
+): Promise<number> => {
+  const ops: any[] = [];
+  let rowCount = 0;
+  for (const response of responses) {
+    const rows = toFindingIndexRows(session, response);
+    rowCount += rows.length;
+    for (const row of rows) {
+      ops.push({
+        updateOne: {
+          filter: { sessionId: row.sessionId, minerUid: row.minerUid, findingId: row.findingId },
+          update: { $set: row },
+          upsert: true
+        }
+      });
+    }
+    ops.push({
+      deleteMany: {
+        filter: {
+          sessionId: session.sessionId,
+          minerUid: response.minerUid,
+          findingId: { $nin: rows.map(r => r.findingId) }
+        }
+      }
+    });
+  }
+  if (ops.length > 0) await FindingIndex.bulkWrite(ops, { ordered: true });
+  return rowCount;
+};
+
+const indexFindings = async (sessionId: string, responses: MinerResponse[]): Promise<number> => {
+  if (responses.length === 0) return 0;
+  const session = await ValidationSession.findOne(
+    { sessionId },
+    { sessionId: 1, projectId: 1, 'metadata.validatorAddress': 1 }
+  ).lean();
+  if (!session) return 0;
+  return writeFindingIndex(session, responses);
+};
+
+const FINDINGS_REINDEX_JOB = 'findings';
+const REINDEX_BATCH_SIZE = 100;
+// Outlives any batch; a batch that dies holding it is retried once it lapses
+const REINDEX_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Indexes the next REINDEX_BATCH_SIZE sessions of a running reindex, in _id
+ * order, and records where it stopped. Safe to call from the worker timer
+ * and the cron route at once: the lease lets one caller through, and a
+ * retried batch only repeats idempotent upserts. Returns the job, or null
+ * when none is running or another caller holds the lease.
+ */
+const runReindexBatch = async (): Promise<ReindexJobDocument | null> => {
+  const now = new Date();
+  const job = await ReindexJob.findOneAndUpdate(
+    {
+      name: FINDINGS_REINDEX_JOB,
+      state: 'running',
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }]
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + REINDEX_LEASE_MS) } },
+    { new: true }
+  );
+  if (!job) return null;
+
+  const sameRun = { _id: job._id, runId: job.runId };
+  try {
+    const sessions = await ValidationSession.find(
+      {
+        'minerResponses.0': { $exists: true },
+        ...(job.lastSessionId && { _id: { $gt: job.lastSessionId } })
+      },
+      { sessionId: 1, projectId: 1, 'metadata.validatorAddress': 1, minerResponses: 1 }
+    ).sort({ _id: 1 }).limit(REINDEX_BATCH_SIZE).lean();
+
+    let findings = 0;
+    for (const session of sessions) {
+      findings += await writeFindingIndex(session, (session.minerResponses || []) as MinerResponse[]);
+    }
+
+    const done = sessions.length < REINDEX_BATCH_SIZE;
+    return await ReindexJob.findOneAndUpdate(
+      sameRun,
+      {
+        $set: {
+          ...(sessions.length > 0 && { lastSessionId: sessions[sessions.length - 1]._id }),
+          state: done ? 'completed' : 'running',
+          updatedAt: new Date(),
+          ...(done && { completedAt: new Date() })
+        },
+        $inc: { sessions: sessions.length, findings, batches: 1 },
+        $unset: { lockedUntil: '', lastError: '' }
+      },
+      { new: true }
+    );
+  } catch (error: any) {
+    await ReindexJob.updateOne(sameRun, {
+      $set: { lastError: error?.message ?? String(error), updatedAt: new Date() },
+      $unset: { lockedUntil: '' }
+    });
+    throw error;
+  }
+};
+
+let reindexWorkerBusy = false;
+
+/**
+ * Runs batches back to back until the job completes, another caller holds
+ * the lease, or `deadline` passes. Errors stay on the job as lastError and
+ * the next call resumes from the last finished batch.
+ */
+const advanceReindex = async (deadline: number): Promise<ReindexJobDocument | null> => {
+  if (reindexWorkerBusy) return null;
+  reindexWorkerBusy = true;
+  let job: ReindexJobDocument | null = null;
+  try {
+    do {
+      job = await runReindexBatch();
+    } while (job?.state === 'running' && Date.now() < deadline);
+  } catch (error: any) {
+    console.error('Findings reindex batch failed:', error);
+  } finally {
+    reindexWorkerBusy = false;
+  }
+  return job;
+};
+
+const toPublicReindexJob = (job: any) => ({
+  state: job.state,
+  sessions: job.sessions,
+  findings: job.findings,
+  batches: job.batches,
+  lastError: job.lastError,
+  requestedBy: job.requestedBy,
+  startedAt: job.startedAt,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt
+});
+
+let reindexTimer: NodeJS.Timeout | undefined;
+
+const startReindexWorker = (): void => {
+  reindexTimer = setInterval(() => { advanceReindex(Date.now() + REINDEX_TIME_BUDGET_MS); }, REINDEX_POLL_INTERVAL_MS);
+};
+
+const HIGHLIGHT_CONTEXT_CHARS = 80;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+/**
+ * Snippet of `text` around the first query term, HTML-escaped, with every
+ * term wrapped in <mark>. Terms match as word prefixes to roughly follow the
+ * text index's stemming ("overflow" marks "overflows").
+ */
+const highlightText = (text: string | undefined, terms: string[]): string | undefined => {
+  if (!text || terms.length === 0) return undefined;
+  // Terms come from tokenize, so they are plain [a-z0-9] and safe to join into a pattern
+  const pattern = new RegExp(`\\b(?:${terms.join('|')})\\w*`, 'gi');
+  const first = text.search(pattern);
+  if (first < 0) return undefined;
+
+  const start = Math.max(0, first - HIGHLIGHT_CONTEXT_CHARS);
+  const end = Math.min(text.length, first + HIGHLIGHT_CONTEXT_CHARS * 2);
+  const snippet = text.slice(start, end);
+  const marked = snippet
+    .split(new RegExp(`(${pattern.source})`, 'gi'))
+    .map((part, idx) => (idx % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('');
+  return `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+};
+
+// =====================
+// ROUTE TABLE
+// =====================
+
+interface RouteResponse {
+  status: 200 | 201 | 202;
+  contentType: string;
+  schema?: z.ZodTypeAny;
+}
+
+interface RouteEntry {
+  method: 'get' | 'post';
+  path: string;
+  response: RouteResponse;
+  handles: RequestHandler[];
+}
+
+// Every route registered through `api`, in registration order; the OpenAPI
+// document is built from this rather than from Express internals
+const routeTable: RouteEntry[] = [];
+
+const jsonResponse = (schema: z.ZodTypeAny, status: RouteResponse['status'] = 200): RouteResponse =>
+  ({ status, contentType: 'application/json', schema });
+
+const textResponse = (contentType: string): RouteResponse => ({ status: 200, contentType });
+
+const sarifResponse: RouteResponse = { status: 200, contentType: 'application/sarif+json', schema: sarifLogResponse };
+
+const register = (method: RouteEntry['method']) =>
+  (path: string, response: RouteResponse, ...handles: RequestHandler[]): void => {
+    routeTable.push({ method, path, response, handles });
+    app[method](path, ...handles);
+  };
+
+/**
+ * Registers a route on `app` and records it, with what it answers on
+ * success, in routeTable.
+ */
+const api = { get: register('get'), post: register('post') };
+
+// ─────────────────────────────────────────────────────────────
+// WRITE ENDPOINTS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/validation/start
+ */
+api.post(
+  '/api/validation/start',
+  jsonResponse(sessionStartedResponse, 201),
+  authenticate,
+  requireScope('session-write'),
+  startSessionLimiter,
+  validate({ body: startSessionBody }, 'lenient'),
+  idempotent,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sampledMinerUids, validatorAddress, configVersion }: z.infer<typeof startSessionBody> = req.body;
+
+      const boundAddress = req.identity?.validatorAddress;
+      if (!mayNameValidator(req)) {
+        res.status(403).json({ success: false, error: 'Forbidden: API key is not bound to a validator' });
+        return;
+      }
+      if (boundAddress && validatorAddress !== undefined && validatorAddress !== boundAddress) {
+        res.status(403).json({ success: false, error: 'validatorAddress does not match authenticated hotkey' });
+        return;
+      }
+
+      const ownerAddress = boundAddress ?? validatorAddress;
+      if (!ownerAddress) {
+        res.status(400).json({ success: false, error: 'validatorAddress is required' });
+        return;
+      }
+
+      const sessionId = uuidv4();
+
+      const session = new ValidationSession({
+        sessionId,
+        sampledMinerCount: sampledMinerUids.length,
+        sampledMinerUids,
+        state: 'pending',
+        stateHistory: [{ to: 'pending', reason: 'session started', timestamp: new Date() }],
+        metadata: {
+          validatorAddress: ownerAddress,
+          configVersion
+        },
+        minerResponses: [],
+        computedRewards: [],
+        validationErrors: []
+      });
+
+      await session.save();
+
+      await publishEvent('session.started', session, { sampledMinerCount: sampledMinerUids.length });
+
+      res.status(201).json({
+        success: true,
+        sessionId,
+        message: 'Validation session started',
+        timestamp: new Date()
+      });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/start:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/challenge
+ */
+api.post(
+  '/api/validation/:sessionId/challenge',
+  jsonResponse(challengeRecordedResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: challengeBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireTransition('in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { projectId, description, difficulty, rawData }: z.infer<typeof challengeBody> = req.body;
+
+      const session = await transitionSession(sessionId, res.locals.session.state, 'in-progress', {
+        $set: {
+          projectId,
+          'challengeInfo.projectId': projectId,
+          'challengeInfo.description': description,
+          'challengeInfo.difficulty': difficulty,
+          'challengeInfo.rawData': rawData || {},
+          'challengeInfo.createdAt': new Date()
+        }
+      }, 'challenge recorded');
+
+      if (!session) {
+        res.status(409).json({ success: false, error: 'Session state changed concurrently' });
+        return;
+      }
+
+      await publishEvent('challenge.recorded', session, { difficulty });
+
+      res.json({ success: true, message: 'Challenge recorded', projectId });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/challenge:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/miner-response
+ * UPDATED: Now includes agentFindings
+ */
+api.post(
+  '/api/validation/:sessionId/miner-response',
+  jsonResponse(minerResponseRecordedResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: minerResponseBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireSessionState('in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const projectId = res.locals.session.projectId;
+      const groundTruth = projectId ? await GroundTruth.findOne({ projectId }).lean() : null;
+
+      const response = buildMinerResponse(req.body, groundTruth);
+
+      const action = await upsertMinerResponse(sessionId, res, response);
+      if (!action) {
+        sessionStateConflict(res);
+        return;
+      }
+
+      // Registrations, plagiarism scan and indexing are awaited so a serverless instance
+      // frozen after the response cannot cut them off; the response is recorded either way
+      await recordMinerRegistrations([response])
+        .catch((err: any) => console.error('Failed to record miner registration:', err));
+      await scanForPlagiarism(sessionId, [response])
+        .catch((err: any) => console.error(`Plagiarism scan failed for ${sessionId} miner ${response.minerUid}:`, err));
+      await indexFindings(sessionId, [response])
+        .catch((err: any) => console.error(`Search indexing failed for ${sessionId} miner ${response.minerUid}:`, err));
+
+      await publishEvent('miner.response', sessionEventSource(sessionId, res), {
+        minerUid: response.minerUid,
+        success: response.success,
+        findingsCount: response.agentFindings?.findingsCount ?? 0,
+        criticalCount: response.agentFindings?.criticalCount ?? 0
+      });
+
+      res.json({ 
+        success: true, 
+        message: 'Miner response recorded', 
+        minerUid: response.minerUid,
+        action,
+        findingsCount: response.agentFindings?.findingsCount ?? 0,
+        evaluation: response.groundTruthEvaluation && {
+          precision: response.groundTruthEvaluation.precision,
+          recall: response.groundTruthEvaluation.recall,
+          f1: response.groundTruthEvaluation.f1
+        }
+      });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/miner-response:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/miner-responses
+ * Batch ingestion: upserts by minerUid and reports a result per item
+ */
+api.post(
+  '/api/validation/:sessionId/miner-responses',
+  jsonResponse(minerResponsesBatchResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: minerResponsesBatchBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireSessionState('in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { responses }: z.infer<typeof minerResponsesBatchBody> = req.body;
+
+      const projectId = res.locals.session.projectId;
+      const groundTruth = projectId ? await GroundTruth.findOne({ projectId }).lean() : null;
+
+      const results: Array<{
+        index: number;
+        minerUid?: number;
+        success: boolean;
+        action?: 'inserted' | 'updated';
+        error?: string;
+        details?: FieldError[];
+      }> = [];
+      const seen = new Set<number>();
+      const pending: Array<{ index: number; response: MinerResponse }> = [];
+
+      responses.forEach((item: unknown, index: number) => {
+        const parsed = parseWithMode(minerResponseBody, item, 'lenient');
+        if (!parsed.success) {
+          results.push({
+            index,
+            success: false,
+            error: 'Validation failed',
+            details: toFieldErrors('body', parsed.error, `responses.${index}`)
+          });
+          return;
+        }
+
+        const response = buildMinerResponse(parsed.data, groundTruth);
+        if (seen.has(response.minerUid)) {
+          results.push({ index, minerUid: response.minerUid, success: false, error: 'Duplicate minerUid in batch' });
+          return;
+        }
+        seen.add(response.minerUid);
+        pending.push({ index, response });
+      });
+
+      // uids already stored are rewritten, the rest inserted
+      const stored = pending.length > 0
+        ? await ValidationSession.findOne({ sessionId }, { 'minerResponses.minerUid': 1 }).lean()
+        : null;
+      const present = new Set((stored?.minerResponses ?? []).map((r: any) => r.minerUid));
+
+      // The whole batch in one ordered write: per miner the guarded $push, then
+      // the rewrite. Concurrent batches for the same session cannot both insert
+      // a minerUid, and nothing matches once the session leaves in-progress.
+      const ops: any[] = pending.flatMap(({ response }) => {
+        const { push, rewrite } = minerResponseUpdates(sessionId, res, response);
+        return [{ updateOne: push }, { updateOne: rewrite }];
+      });
+      const written = ops.length > 0 ? await ValidationSession.bulkWrite(ops, { ordered: true }) : null;
+
+      // While the session is writable an inserted miner matches both updates
+      // and a stored one only the rewrite. On a shortfall, a session still
+      // writable (states never return to in-progress) means a concurrent
+      // request inserted one of the uids first; otherwise the state changed
+      // partway and only the items the matched count covers were recorded.
+      const needed = (response: MinerResponse) => (present.has(response.minerUid) ? 1 : 2);
+      let matched = written?.matchedCount ?? 0;
+      if (matched < pending.reduce((sum, { response }) => sum + needed(response), 0)) {
+        const after = await ValidationSession.findOne({ sessionId }, { state: 1 }).lean();
+        if (after && (res.locals.allowedStates as SessionState[]).includes(after.state as SessionState)) {
+          matched = Infinity;
+        }
+      }
+      const recorded: MinerResponse[] = [];
+      for (const { index, response } of pending) {
+        const action = present.has(response.minerUid) ? 'updated' : 'inserted';
+        if (matched < needed(response)) {
+          matched = 0;
+          results.push({ index, minerUid: response.minerUid, success: false, error: 'Session is no longer in-progress' });
+          continue;
+        }
+        matched -= needed(response);
+        recorded.push(response);
+        results.push({ index, minerUid: response.minerUid, success: true, action });
+      }
+      if (pending.length > 0 && recorded.length === 0) {
+        sessionStateConflict(res);
+        return;
+      }
+
+      await recordMinerRegistrations(recorded)
+        .catch((err: any) => console.error('Failed to record miner registrations:', err));
+      await scanForPlagiarism(sessionId, recorded)
+        .catch((err: any) => console.error(`Plagiarism scan failed for ${sessionId} (${recorded.length} responses):`, err));
+      await indexFindings(sessionId, recorded)
+        .catch((err: any) => console.error(`Search indexing failed for ${sessionId} (${recorded.length} responses):`, err));
+
+      const source = sessionEventSource(sessionId, res);
+      await Promise.all(recorded.map(r =>
+        publishEvent('miner.response', source, {
+          minerUid: r.minerUid,
+          success: r.success,
+          findingsCount: r.agentFindings?.findingsCount ?? 0,
+          criticalCount: r.agentFindings?.criticalCount ?? 0
+        })));
+
+      const accepted = results.filter(r => r.success).length;
+      res.status(accepted === 0 ? 400 : 200).json({
+        success: accepted > 0,
+        message: `${accepted} of ${responses.length} miner responses recorded`,
+        accepted,
+        rejected: responses.length - accepted,
+        results: results.sort((a, b) => a.index - b.index)
+      });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/miner-responses:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/miner-reward
+ * UPDATED: Records findings count in history
+ */
+api.post(
+  '/api/validation/:sessionId/miner-reward',
+  jsonResponse(minerRewardRecordedResponse),
+  authenticate,
+  requireScope('reward-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: minerRewardBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireSessionState('in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { minerUid: cleanUid, rewardScore, rewardReason }: z.infer<typeof minerRewardBody> = req.body;
+
+      let findingsCount = 0;
+      let computed: ComputedReward | undefined;
+      let writable = true;
+
+      // Session, RewardUpdate and MinerHistory commit together or not at all
+      await withTransaction(async (dbSession) => {
+        writable = true;
+        const session = await ValidationSession.findOne(writableSession(sessionId, res)).session(dbSession);
+        if (!session) {
+          writable = false;
+          return;
+        }
+
+        const minerResponse = session.minerResponses.find((r: any) => r.minerUid === cleanUid);
+        findingsCount = minerResponse?.agentFindings?.findingsCount || 0;
+        computed = computeReward(
+          resolveRewardPolicy(session.metadata?.configVersion),
+          minerResponse,
+          session.challengeInfo?.difficulty,
+          rewardScore
+        );
+
+        // Matches the session even when the miner has no response, so
+        // matchedCount only drops to 0 when the state changed
+        const updated = await ValidationSession.updateOne(
+          writableSession(sessionId, res),
+          {
+            $set: {
+              'minerResponses.$[r].rewardScore': rewardScore,
+              'minerResponses.$[r].rewardReason': rewardReason,
+              'minerResponses.$[r].computedReward': computed
+            }
+          },
+          { session: dbSession, arrayFilters: [{ 'r.minerUid': cleanUid }] }
+        );
+        if (updated.matchedCount === 0) {
+          writable = false;
+          return;
+        }
+
+        await RewardUpdate.create(
+          [{ updateId: uuidv4(), sessionId, minerUids: [cleanUid], rewards: [rewardScore] }],
+          { session: dbSession }
+        );
+
+        await upsertHistory([buildHistoryEntry(sessionId, cleanUid, rewardScore, minerResponse)], dbSession);
+      });
+
+      if (!writable) {
+        sessionStateConflict(res);
+        return;
+      }
+
+      await publishEvent('reward.recorded', sessionEventSource(sessionId, res), {
+        minerUid: cleanUid,
+        rewardScore,
+        computedScore: computed?.score,
+        flagged: computed?.flagged
+      });
+
+      res.json({ 
+        success: true, 
+        message: 'Reward recorded', 
+        minerUid: cleanUid, 
+        rewardScore,
+        findingsCount,
+        computedReward: computed && {
+          policyVersion: computed.policyVersion,
+          score: computed.score,
+          delta: computed.delta,
+          flagged: computed.flagged
+        }
+      });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/miner-reward:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/rewards-update
+ */
+api.post(
+  '/api/validation/:sessionId/rewards-update',
+  jsonResponse(rewardsUpdatedResponse),
+  authenticate,
+  requireScope('reward-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: rewardsUpdateBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireSessionState('in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { minerUids: cleanUids, rewards: cleanRewards }: z.infer<typeof rewardsUpdateBody> = req.body;
+
+      const updateId = uuidv4();
+
+      let flaggedCount = 0;
+      let writable = true;
+
+      await withTransaction(async (dbSession) => {
+        writable = true;
+        const session = await ValidationSession.findOne(writableSession(sessionId, res)).session(dbSession);
+        if (!session) {
+          writable = false;
+          return;
+        }
+
+        const policy = resolveRewardPolicy(session.metadata?.configVersion);
+        const history: Array<Record<string, any>> = [];
+        const $set: Record<string, any> = {};
+        const arrayFilters: Array<Record<string, number>> = [];
+        flaggedCount = 0;
+
+        $set.computedRewards = cleanUids.map((uid: number, idx: number) => {
+          const response = session.minerResponses.find((r: any) => r.minerUid === uid);
+          const computed = computeReward(policy, response, session.challengeInfo?.difficulty, cleanRewards[idx]);
+          if (response && computed) {
+            $set[`minerResponses.$[r${idx}].computedReward`] = computed;
+            arrayFilters.push({ [`r${idx}.minerUid`]: uid });
+          }
+          if (computed?.flagged) flaggedCount++;
+          history.push(buildHistoryEntry(sessionId, uid, cleanRewards[idx], response));
+          return {
+            minerUid: uid,
+            score: cleanRewards[idx],
+            timestamp: new Date(),
+            computedScore: computed?.score,
+            policyVersion: computed?.policyVersion,
+            flagged: computed?.flagged
+          };
+        });
+
+        const successCount = cleanRewards.filter((r: number) => r > 0).length;
+        $set.metrics = {
+          successRate: (successCount / cleanUids.length) * 100,
+          averageRewardScore: cleanRewards.reduce((a: number, b: number) => a + b, 0) / cleanUids.length,
+          failureCount: cleanUids.length - successCount
+        };
+
+        // The guarded session write goes first: nothing else is written once the state moved on
+        const updated = await ValidationSession.updateOne(
+          writableSession(sessionId, res),
+          { $set },
+          { session: dbSession, arrayFilters }
+        );
+        if (updated.matchedCount === 0) {
+          writable = false;
+          return;
+        }
+
+        await RewardUpdate.create(
+          [{ updateId, sessionId, minerUids: cleanUids, rewards: cleanRewards }],
+          { session: dbSession }
+        );
+        await upsertHistory(history, dbSession);
+      });
+
+      if (!writable) {
+        sessionStateConflict(res);
+        return;
+      }
+
+      await publishEvent('reward.recorded', sessionEventSource(sessionId, res), {
+        updateId,
+        minerCount: cleanUids.length,
+        averageReward: cleanRewards.reduce((a: number, b: number) => a + b, 0) / cleanUids.length,
+        flaggedCount
+      });
+
+      res.json({ success: true, message: 'Rewards updated', updateId, minerCount: cleanUids.length, flaggedCount });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/rewards-update:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/subnet-snapshot
+ */
+api.post(
+  '/api/validation/:sessionId/subnet-snapshot',
+  jsonResponse(acknowledgedResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: subnetSnapshotBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireSessionState('pending', 'in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const {
+        netuid, block, activeValidators, activeMiners, totalStake, emissionPerBlock, validatorStake
+      }: z.infer<typeof subnetSnapshotBody> = req.body;
+
+      const updated = await ValidationSession.updateOne(
+        writableSession(sessionId, res),
+        {
+          $set: {
+            'subnetSnapshot.netuid': netuid,
+            'subnetSnapshot.block': block,
+            'subnetSnapshot.epoch': Math.floor(block / EPOCH_LENGTH_BLOCKS),
+            'subnetSnapshot.validatorStake': validatorStake,
+            'subnetSnapshot.activeValidators': activeValidators,
+            'subnetSnapshot.activeMiners': activeMiners,
+            'subnetSnapshot.totalStake': totalStake,
+            'subnetSnapshot.emissionPerBlock': emissionPerBlock,
+            'subnetSnapshot.timestamp': new Date()
+          }
+        }
+      );
+      if (updated.matchedCount === 0) {
+        sessionStateConflict(res);
+        return;
+      }
+
+      res.json({ success: true, message: 'Subnet snapshot recorded' });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/subnet-snapshot:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/error
+ */
+api.post(
+  '/api/validation/:sessionId/error',
+  jsonResponse(acknowledgedResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: errorBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireSessionState('pending', 'in-progress'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { stage, message, stackTrace }: z.infer<typeof errorBody> = req.body;
+
+      const updated = await ValidationSession.updateOne(
+        writableSession(sessionId, res),
+        {
+          $push: {
+            validationErrors: {
+              stage,
+              message,
+              timestamp: new Date(),
+              stackTrace: process.env.NODE_ENV !== 'production' ? stackTrace : undefined
+            }
+          }
+        }
+      );
+      if (updated.matchedCount === 0) {
+        sessionStateConflict(res);
+        return;
+      }
+
+      await publishEvent('error.logged', sessionEventSource(sessionId, res), {
+        stage,
+        message
+      });
+
+      res.json({ success: true, message: 'Error logged' });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/error:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/complete
+ */
+api.post(
+  '/api/validation/:sessionId/complete',
+  jsonResponse(sessionClosedResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: completeBody }, 'lenient'),
+  verifySessionOwner,
+  idempotent,
+  requireTransition('completed'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { metrics }: z.infer<typeof completeBody> = req.body;
+
+      const session = await transitionSession(sessionId, res.locals.session.state, 'completed', {
+        $set: {
+          'metrics.totalQueryTime': metrics?.totalQueryTime,
+          'metrics.averageRewardScore': metrics?.averageRewardScore,
+          'metrics.successRate': metrics?.successRate,
+          'metrics.failureCount': metrics?.failureCount,
+          'metrics.validFindings': metrics?.validFindings
+        }
+      }, 'validator completed session');
+
+      if (!session) {
+        res.status(409).json({ success: false, error: 'Session state changed concurrently' });
+        return;
+      }
+
+      const snap = session.subnetSnapshot;
+      if (snap?.netuid !== undefined && snap?.epoch !== undefined && session.computedRewards?.length) {
+        computeConsensus(snap.netuid, snap.epoch)
+          .catch((err: any) => console.error('Consensus recompute failed:', err));
+      }
+
+      await publishEvent('session.completed', session, { metrics: session.metrics });
+
+      res.json({ success: true, message: 'Validation session completed', sessionId });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/complete:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/fail
+ */
+api.post(
+  '/api/validation/:sessionId/fail',
+  jsonResponse(sessionFailedResponse),
+  authenticate,
+  requireScope('session-write'),
+  writeLimiter,
+  validate({ params: sessionParams, body: failBody }, 'strict'),
+  verifySessionOwner,
+  idempotent,
+  requireTransition('failed'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const { reason }: z.infer<typeof failBody> = req.body;
+
+      const session = await transitionSession(sessionId, res.locals.session.state, 'failed', {}, reason);
+
+      if (!session) {
+        res.status(409).json({ success: false, error: 'Session state changed concurrently' });
+        return;
+      }
+
+      await publishEvent('session.failed', session, { reason });
+
+      res.json({ success: true, message: 'Validation session failed', sessionId, reason });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/fail:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// =====================
+// STUCK SESSION REAPER
+// =====================
+
+const reaperStatus = {
+  running: false,
+  lastRunAt: null as Date | null,
+  lastRunDurationMs: 0,
+  lastReaped: { pending: 0, 'in-progress': 0 },
+  totalReaped: 0,
+  runCount: 0,
+  lastError: null as string | null
+};
+
+/**
+ * Fails sessions that never left pending/in-progress before the deadline.
+ */
+const reapStuckSessions = async (): Promise<void> => {
+  if (reaperStatus.running) return;
+  reaperStatus.running = true;
+  const startedAt = Date.now();
+
+  try {
+    const cutoff = new Date(startedAt - SESSION_TIMEOUT_MS);
+    const reaped = { pending: 0, 'in-progress': 0 };
+
+    for (const from of ['pending', 'in-progress'] as const) {
+      const stuck = await ValidationSession.find(
+        { state: from, timestamp: { $lt: cutoff } },
+        { sessionId: 1 }
+      ).limit(1000).lean();
+      if (stuck.length === 0) continue;
+
+      const now = new Date();
+      const result = await ValidationSession.updateMany(
+        { sessionId: { $in: stuck.map((s: any) => s.sessionId) }, state: from },
+        {
+          $set: { state: 'failed' },
+          $push: {
+            stateHistory: { from, to: 'failed', reason: 'session timed out', timestamp: now },
+            validationErrors: {
+              stage: 'session-timeout',
+              message: `Session still ${from} after ${SESSION_TIMEOUT_MS}ms deadline`,
+              timestamp: now
+            }
+          }
+        }
+      );
+      reaped[from] = result.modifiedCount;
+
+      const failed = await ValidationSession.find(
+        { sessionId: { $in: stuck.map((s: any) => s.sessionId) }, state: 'failed' },
+        { sessionId: 1, projectId: 1, 'metadata.validatorAddress': 1 }
+      ).lean();
+      for (const session of failed) {
+        await publishEvent('session.failed', session, { reason: 'session timed out', previousState: from });
+      }
+    }
+
+    reaperStatus.lastReaped = reaped;
+    reaperStatus.totalReaped += reaped.pending + reaped['in-progress'];
+    reaperStatus.lastError = null;
+  } catch (error: any) {
+    console.error('Session reaper failed:', error);
+    reaperStatus.lastError = error?.message ?? String(error);
+  } finally {
+    reaperStatus.running = false;
+    reaperStatus.runCount += 1;
+    reaperStatus.lastRunAt = new Date(startedAt);
+    reaperStatus.lastRunDurationMs = Date.now() - startedAt;
+  }
+};
+
+let reaperTimer: NodeJS.Timeout | undefined;
+
+const startReaper = (): void => {
+  reaperTimer = setInterval(reapStuckSessions, REAPER_INTERVAL_MS);
+  reapStuckSessions();
+};
+
+// =====================
+// WEBHOOK DISPATCH
+// =====================
+
+const WEBHOOK_BACKOFF_BASE_MS = 30_000;
+const WEBHOOK_BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+const WEBHOOK_CLAIM_LEASE_MS = 60_000;
+
+/**
+ * A miner response carrying critical findings is also surfaced as
+ * `finding.critical` so subscribers need not filter every response.
+ */
+const webhookTypesFor = (event: SessionEvent): string[] =>
+  event.type === 'miner.response' && event.data.criticalCount > 0
+    ? [event.type, 'finding.critical']
+    : [event.type];
+
+const enqueueWebhookDeliveries = async (event: SessionEvent): Promise<void> => {
+  const types = webhookTypesFor(event);
+  const subscriptions = await WebhookSubscription.find(
+    { active: true, events: { $in: [...types, '*'] } },
+    { subscriptionId: 1, events: 1 }
+  ).lean();
+
+  const deliveries = subscriptions.flatMap((sub: any) =>
+    types
+      .filter(t => sub.events.includes(t) || sub.events.includes('*'))
+      .map(t => ({
+        deliveryId: uuidv4(),
+        subscriptionId: sub.subscriptionId,
+        eventType: t,
+        eventId: event.id,
+        payload: { ...event, type: t },
+        status: 'pending',
+        nextAttemptAt: new Date()
+      }))
+  );
+
+  if (deliveries.length > 0) await WebhookDelivery.insertMany(deliveries);
+};
+
+/**
+ * Receivers verify `X-Webhook-Signature: t=<unix ms>,v1=<hex>` where v1 is
+ * HMAC-SHA256(secret, `${t}.${rawBody}`).
+ */
+const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Uses the global fetch, which needs Node 18+ (see engines in package.json)
+const attemptDelivery = async (delivery: WebhookDeliveryDocument): Promise<void> => {
+  const subscription = await WebhookSubscription.findOne({ subscriptionId: delivery.subscriptionId }).lean();
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!subscription || !subscription.active) {
+    await WebhookDelivery.updateOne(
+      { deliveryId: delivery.deliveryId },
+      { $set: { status: 'dead-letter', lastError: 'Subscription inactive or removed', lastAttemptAt: now } }
+    );
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Delivery': delivery.deliveryId,
+        'X-Webhook-Signature': `t=${timestamp},v1=${signWebhookPayload(subscription.secret, timestamp, body)}`
+      },
+      body,
+      signal: controller.signal
+    });
+    statusCode = response.status;
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (err: any) {
+    error = err?.name === 'AbortError' ? 'Timed out' : (err?.message ?? String(err));
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!error) {
+    await WebhookDelivery.updateOne(
+      { deliveryId: delivery.deliveryId },
+      { $set: { status: 'delivered', attempts, lastAttemptAt: now, lastStatusCode: statusCode, deliveredAt: new Date() } }
+    );
+    return;
+  }
+
+  const deadLetter = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  const backoff = Math.min(WEBHOOK_BACKOFF_BASE_MS * 2 ** (attempts - 1), WEBHOOK_BACKOFF_MAX_MS);
+  await WebhookDelivery.updateOne(
+    { deliveryId: delivery.deliveryId },
+    {
+      $set: {
+        status: deadLetter ? 'dead-letter' : 'pending',
+        attempts,
+        lastAttemptAt: now,
+        lastStatusCode: statusCode,
+        lastError: safeStr(error, 512),
+        nextAttemptAt: new Date(Date.now() + backoff)
+      }
+    }
+  );
+};
+
+let webhookWorkerBusy = false;
+
+/** Returns how many deliveries were attempted */
+const processWebhookDeliveries = async (): Promise<number> => {
+  if (webhookWorkerBusy) return 0;
+  webhookWorkerBusy = true;
+  let processed = 0;
+  try {
+    for (let i = 0; i < 20; i++) {
+      // Claim with a lease so concurrent instances don't double-send
+      const now = new Date();
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        { status: 'pending', nextAttemptAt: { $lte: now } },
+        { $set: { nextAttemptAt: new Date(now.getTime() + WEBHOOK_CLAIM_LEASE_MS) } },
+        { sort: { nextAttemptAt: 1 } }
+      );
+      if (!delivery) break;
+      await attemptDelivery(delivery);
+      processed++;
+    }
+  } catch (error: any) {
+    console.error('Webhook worker failed:', error);
+  } finally {
+    webhookWorkerBusy = false;
+  }
+  return processed;
+};
+
+let webhookTimer: NodeJS.Timeout | undefined;
+
+const startWebhookWorker = (): void => {
+  webhookTimer = setInterval(() => { processWebhookDeliveries(); }, WEBHOOK_POLL_INTERVAL_MS);
+};
+
+// ─────────────────────────────────────────────────────────────
+// CONSENSUS ENDPOINTS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Combines every validator's latest rewarded session in an epoch into a
+ * stake-weighted score per miner. A validator's deviation is measured against
+ * the consensus of the *other* validators so large stake cannot mask itself.
+ *
+ * Stake comes only from the admin-uploaded metagraph for the epoch, never from
+ * the validators' own subnet snapshots. Validators absent from it, or holding
+ * no stake, are reported as excluded and do not shape the consensus. Without a
+ * metagraph every validator counts equally and the result says so.
+ */
+const computeConsensus = async (netuid: number, epoch: number) => {
+  const [sessions, metagraph] = await Promise.all([
+    ValidationSession.find(
+      {
+        'subnetSnapshot.netuid': netuid,
+        'subnetSnapshot.epoch': epoch,
+        state: { $ne: 'failed' },
+        'computedRewards.0': { $exists: true }
+      },
+      { sessionId: 1, timestamp: 1, computedRewards: 1, 'metadata.validatorAddress': 1 }
+    ).sort({ timestamp: -1 }).lean(),
+    MetagraphSnapshot.findOne({ netuid, epoch }).lean()
+  ]);
+
+  const latestByValidator = new Map<string, any>();
+  for (const s of sessions as any[]) {
+    const addr = s.metadata?.validatorAddress;
+    if (addr && !latestByValidator.has(addr)) latestByValidator.set(addr, s);
+  }
+
+  const stakeSource: ConsensusStakeSource = metagraph ? 'metagraph' : 'equal';
+  const stakeByHotkey = new Map((metagraph?.stakes ?? []).map(s => [s.hotkey, s.stake]));
+
+  const validators = Array.from(latestByValidator.entries()).map(([validatorAddress, s]) => {
+    const stake = metagraph ? stakeByHotkey.get(validatorAddress) ?? null : null;
+    const excluded: ConsensusExclusion | undefined = !metagraph ? undefined
+      : stake === null ? 'not-in-metagraph'
+      : stake === 0 ? 'zero-stake'
+      : undefined;
+    return {
+      validatorAddress,
+      sessionId: s.sessionId as string,
+      stake,
+      excluded,
+      scores: new Map<number, number>((s.computedRewards || []).map((r: any) => [r.minerUid, r.score]))
+    };
+  });
+
+  const weightOf = (v: typeof validators[number]): number =>
+    v.excluded ? 0 : stakeSource === 'metagraph' ? v.stake! : 1;
+  const totalStake = validators.reduce((acc, v) => acc + (v.excluded ? 0 : v.stake ?? 0), 0);
+  const totalWeight = validators.reduce((acc, v) => acc + weightOf(v), 0);
+  const counted = validators.filter(v => weightOf(v) > 0);
+
+  const minerUids = Array.from(new Set(counted.flatMap(v => Array.from(v.scores.keys())))).sort((a, b) => a - b);
+
+  const weightedScore = (uid: number, exclude?: string): number | undefined => {
+    let sum = 0;
+    let weight = 0;
+    for (const v of counted) {
+      if (v.validatorAddress === exclude || !v.scores.has(uid)) continue;
+      sum += weightOf(v) * v.scores.get(uid)!;
+      weight += weightOf(v);
+    }
+    return weight > 0 ? sum / weight : undefined;
+  };
+
+  const miners = minerUids.map(uid => {
+    const scorers = counted.filter(v => v.scores.has(uid));
+    const scores = scorers.map(v => v.scores.get(uid)!);
+    return {
+      minerUid: uid,
+      consensusScore: round4(weightedScore(uid) ?? 0),
+      validatorCount: scorers.length,
+      stakeCoverage: round4(scorers.reduce((acc, v) => acc + weightOf(v), 0) / totalWeight),
+      minScore: Math.min(...scores),
+      maxScore: Math.max(...scores)
+    };
+  });
+
+  const validatorResults = validators.map(v => {
+    const deviations: number[] = [];
+    for (const [uid, score] of v.scores) {
+      const others = weightedScore(uid, v.validatorAddress);
+      if (others !== undefined) deviations.push(Math.abs(score - others));
+    }
+    const mad = deviations.length > 0 ? deviations.reduce((a, b) => a + b, 0) / deviations.length : null;
+    return {
+      validatorAddress: v.validatorAddress,
+      sessionId: v.sessionId,
+      stake: v.stake,
+      stakeWeight: round4(weightOf(v) / (totalWeight || 1)),
+      excluded: v.excluded,
+      minersScored: v.scores.size,
+      meanAbsDeviation: mad === null ? null : round4(mad),
+      outlier: mad !== null && mad > CONSENSUS_OUTLIER_THRESHOLD
+    };
+  });
+
+  return ConsensusResult.findOneAndUpdate(
+    { netuid, epoch },
+    {
+      $set: {
+        computedAt: new Date(),
+        stakeSource,
+        metagraphBlock: metagraph?.block,
+        totalStake,
+        outlierThreshold: CONSENSUS_OUTLIER_THRESHOLD,
+        validators: validatorResults,
+        miners
+      }
+    },
+    { upsert: true, new: true }
+  ).lean();
+};
+
+/**
+ * POST /api/consensus/:netuid/:epoch/metagraph
+ * Trusted per-hotkey stake for the epoch, as read from the chain by an operator.
+ */
+api.post(
+  '/api/consensus/:netuid/:epoch/metagraph',
+  jsonResponse(metagraphRecordedResponse),
+  requireApiKey,
+  requireScope('admin'),
+  writeLimiter,
+  validate({ params: epochParams, body: metagraphBody }, 'strict'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { netuid, epoch } = parsedAs(epochParams, req.params);
+      const { block, stakes }: z.infer<typeof metagraphBody> = req.body;
+
+      const snapshot = await MetagraphSnapshot.findOneAndUpdate(
+        { netuid, epoch },
+        { $set: { block, stakes, uploadedBy: req.identity?.keyId, updatedAt: new Date() } },
+        { upsert: true, new: true }
+      ).lean();
+
+      res.json({
+        success: true,
+        data: { netuid, epoch, block: snapshot?.block, validatorCount: stakes.length }
+      });
+    } catch (error: any) {
+      console.error('Error in POST /api/consensus/:netuid/:epoch/metagraph:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/consensus/:netuid/:epoch/compute
+ */
+api.post(
+  '/api/consensus/:netuid/:epoch/compute',
+  jsonResponse(consensusResponse),
+  requireApiKey,
+  requireScope('admin'),
+  writeLimiter,
+  validate({ params: epochParams }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { netuid, epoch } = parsedAs(epochParams, req.params);
+      const result = await computeConsensus(netuid, epoch);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      console.error('Error in POST /api/consensus/:netuid/:epoch/compute:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * GET /api/consensus/:netuid/:epoch
+ */
+api.get('/api/consensus/:netuid/:epoch', jsonResponse(consensusResponse), readLimiter, validate({ params: epochParams, query: consensusQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = parsedAs(epochParams, req.params);
+    const { outliersOnly } = parsedAs(consensusQuery, req.query);
+
+    const result = await ConsensusResult.findOne(params, { _id: 0, __v: 0 }).lean();
+    if (!result) {
+      res.status(404).json({ success: false, error: 'No consensus computed for this epoch' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: outliersOnly
+        ? { ...result, validators: result.validators.filter(v => v.outlier) }
+        : result
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// WEIGHT EXPORT ENDPOINTS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Folds every RewardUpdate of each session into one reward per miner, the
+ * latest update for a uid winning. /miner-reward writes one update per miner
+ * and /rewards-update one per batch, so no single update is the whole session.
+ */
+const mergedSessionRewards = async (sessionIds: string[]) => {
+  const updates = await RewardUpdate.find({ sessionId: { $in: sessionIds } })
+    .sort({ timestamp: 1, _id: 1 })
+    .lean();
+
+  const bySession = new Map<string, { rewards: Map<number, number>; updateIds: string[] }>();
+  for (const u of updates) {
+    const merged = bySession.get(u.sessionId) ?? { rewards: new Map<number, number>(), updateIds: [] };
+    u.minerUids.forEach((uid: number, idx: number) => merged.rewards.set(uid, u.rewards[idx]));
+    merged.updateIds.push(u.updateId);
+    bySession.set(u.sessionId, merged);
+  }
+  return bySession;
+};
+
+/**
+ * GET /api/validation/:sessionId/weights
+ * set_weights payload from all of the session's RewardUpdates
+ */
+api.get('/api/validation/:sessionId/weights', jsonResponse(sessionWeightsResponse), readLimiter, validate({ params: sessionParams, query: maxWeightLimitQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const { maxWeightLimit } = parsedAs(maxWeightLimitQuery, req.query);
+
+    const merged = (await mergedSessionRewards([sessionId])).get(sessionId);
+    if (!merged) {
+      res.status(404).json({ success: false, error: 'No reward update recorded for this session' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        sessionId,
+        updateIds: merged.updateIds,
+        ...buildWeightVector(merged.rewards, maxWeightLimit)
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/weights/:netuid/:epoch?validatorAddress=
+ * Averages a validator's merged per-session rewards across the epoch
+ */
+api.get('/api/weights/:netuid/:epoch', jsonResponse(epochWeightsResponse), readLimiter, validate({ params: epochParams, query: epochWeightsQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = parsedAs(epochParams, req.params);
+    const { validatorAddress, maxWeightLimit } = parsedAs(epochWeightsQuery, req.query);
+
+    const sessions = await ValidationSession.find(
+      {
+        'subnetSnapshot.netuid': params.netuid,
+        'subnetSnapshot.epoch': params.epoch,
+        'metadata.validatorAddress': validatorAddress,
+        state: { $ne: 'failed' }
+      },
+      { sessionId: 1 }
+    ).lean();
+
+    const merged = await mergedSessionRewards(sessions.map((s: any) => s.sessionId));
+
+    if (merged.size === 0) {
+      res.status(404).json({ success: false, error: 'No reward updates recorded for this epoch' });
+      return;
+    }
+
+    const sums = new Map<number, { total: number; count: number }>();
+    for (const { rewards: sessionRewards } of merged.values()) {
+      for (const [uid, reward] of sessionRewards) {
+        const acc = sums.get(uid) ?? { total: 0, count: 0 };
+        acc.total += reward;
+        acc.count += 1;
+        sums.set(uid, acc);
+      }
+    }
+    const rewards = new Map<number, number>();
+    for (const [uid, { total, count }] of sums) rewards.set(uid, total / count);
+
+    res.json({
+      success: true,
+      data: {
+        ...params,
+        validatorAddress,
+        sessionIds: Array.from(merged.keys()).sort(),
+        updateIds: Array.from(merged.values()).flatMap(m => m.updateIds).sort(),
+        ...buildWeightVector(rewards, maxWeightLimit)
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// GROUND TRUTH ENDPOINTS
+// ─────────────────────────────────────────────────────────────
+
+const RESCORE_BATCH_SIZE = 200;
+
+/**
+ * Re-evaluates every stored response for a project against the latest ground
+ * truth, keeping MinerHistory.accuracy in step. Sessions are streamed and
+ * written in batches; responses are addressed by minerUid, not array position,
+ * so a response appended mid-rescore cannot receive another miner's score.
+ */
+const rescoreProject = async (
+  projectId: string,
+  groundTruth: { vulnerabilities: GroundTruthVulnerability[]; version: number }
+): Promise<number> => {
+  const cursor = ValidationSession.find(
+    { projectId },
+    { sessionId: 1, 'minerResponses.minerUid': 1, 'minerResponses.agentFindings.findings': 1 }
+  ).lean().cursor({ batchSize: RESCORE_BATCH_SIZE });
+
+  let sessionOps: any[] = [];
+  let historyOps: any[] = [];
+  let rescored = 0;
+
+  const flush = async (): Promise<void> => {
+    if (sessionOps.length > 0) await ValidationSession.bulkWrite(sessionOps, { ordered: false });
+    if (historyOps.length > 0) await MinerHistory.bulkWrite(historyOps, { ordered: false });
+    rescored += historyOps.length;
+    sessionOps = [];
+    historyOps = [];
+  };
+
+  for await (const session of cursor as AsyncIterable<any>) {
+    for (const r of session.minerResponses || []) {
+      const evaluation = evaluateAgainstGroundTruth(r.agentFindings?.findings ?? [], groundTruth);
+      sessionOps.push({
+        updateOne: {
+          filter: { sessionId: session.sessionId },
+          update: {
+            $set: {
+              'minerResponses.$[r].groundTruthEvaluation': evaluation,
+              'minerResponses.$[r].agentPerformance.accuracy': evaluation.f1
+            }
+          },
+          arrayFilters: [{ 'r.minerUid': r.minerUid }]
+        }
+      });
+      historyOps.push({
+        updateMany: {
+          filter: { sessionId: session.sessionId, minerUid: r.minerUid },
+          update: { $set: { accuracy: evaluation.f1 } }
+        }
+      });
+    }
+    if (sessionOps.length >= RESCORE_BATCH_SIZE) await flush();
+  }
+
+  await flush();
+  return rescored;
+};
+
+/**
+ * POST /api/ground-truth/:projectId
+ * Replace the known vulnerabilities for a project and re-score its responses.
+ */
+api.post(
+  '/api/ground-truth/:projectId',
+  jsonResponse(groundTruthRecordedResponse),
+  authenticate,
+  requireScope('ground-truth', 'admin'),
+  writeLimiter,
+  validate({ params: projectParams, body: groundTruthBody }, 'strict'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+      const { vulnerabilities }: z.infer<typeof groundTruthBody> = req.body;
 
-// =====================
-// MODELS
-// =====================
+      const cleanVulns: GroundTruthVulnerability[] = vulnerabilities.map((v, idx) => ({
+        ...v,
+        id: v.id || `GT-${idx + 1}`
+      }));
 
-const ValidationSession: Model<ValidationSessionDocument> = mongoose.model(
-  'ValidationSession',
-  validationSessionSchema
-);
+      const groundTruth = await GroundTruth.findOneAndUpdate(
+        { projectId },
+        {
+          $set: {
+            vulnerabilities: cleanVulns,
+            uploadedBy: req.identity?.validatorAddress ?? req.identity?.keyId,
+            updatedAt: new Date()
+          },
+          $inc: { version: 1 },
+          $setOnInsert: { createdAt: new Date() }
+        },
+        { upsert: true, new: true }
+      );
 
-const MinerHistory: Model<MinerHistoryDocument> = mongoose.model(
-  'MinerHistory',
-  minerHistorySchema
+      const rescoredResponses = await rescoreProject(projectId, groundTruth);
+
+      res.json({
+        success: true,
+        message: 'Ground truth recorded',
+        projectId,
+        version: groundTruth.version,
+        vulnerabilityCount: cleanVulns.length,
+        rescoredResponses
+      });
+    } catch (error: any) {
+      console.error('Error in POST /api/ground-truth/:projectId:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
 );
 
-const RewardUpdate: Model<RewardUpdateDocument> = mongoose.model(
-  'RewardUpdate',
-  rewardUpdateSchema
+/**
+ * GET /api/ground-truth/:projectId
+ * Authenticated: ground truth must not leak to miners.
+ */
+api.get(
+  '/api/ground-truth/:projectId',
+  jsonResponse(groundTruthResponse),
+  authenticate,
+  requireScope('ground-truth', 'admin'),
+  readLimiter,
+  validate({ params: projectParams }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { projectId } = req.params;
+      const groundTruth = await GroundTruth.findOne({ projectId }, { _id: 0, __v: 0 }).lean();
+      if (!groundTruth) {
+        res.status(404).json({ success: false, error: 'Ground truth not found' });
+        return;
+      }
+      res.json({ success: true, data: groundTruth });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
 );
 
 // ─────────────────────────────────────────────────────────────
-// WRITE ENDPOINTS
+// TRIAGE ENDPOINTS
 // ─────────────────────────────────────────────────────────────
 
+type FindingRef = { sessionId: string; minerUid: number; findingId: string };
+
 /**
- * POST /api/validation/start
+ * Resolves a finding from the miner's recorded response, or null when the
+ * session, response or finding id does not exist.
  */
-app.post(
-  '/api/validation/start',
-  requireApiKey,
-  startSessionLimiter,
-  async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { sampledMinerUids, validatorAddress, configVersion } = req.body;
+const loadRecordedFinding = async ({ sessionId, minerUid, findingId }: FindingRef) => {
+  const session = await ValidationSession.findOne(
+    { sessionId },
+    { projectId: 1, minerResponses: { $elemMatch: { minerUid } } }
+  ).lean();
+  const response = session?.minerResponses?.[0];
+  const finding = response?.agentFindings?.findings.find(f => f.id === findingId);
+  return session && response && finding ? { projectId: session.projectId, response, finding } : null;
+};
 
-      if (!Array.isArray(sampledMinerUids) || sampledMinerUids.length === 0) {
-        res.status(400).json({ success: false, error: 'sampledMinerUids must be a non-empty array' });
-        return;
+/**
+ * Appends one entry to the finding's triage history, creating the record on
+ * first review. `$set` carries the new verdict for status changes.
+ */
+const appendTriageEntry = (
+  ref: FindingRef,
+  recorded: NonNullable<Awaited<ReturnType<typeof loadRecordedFinding>>>,
+  entry: FindingTriageDocument['history'][number],
+  update: { $set?: Record<string, any>; $unset?: Record<string, ''> } = {}
+) => {
+  const { projectId, response, finding } = recorded;
+  return FindingTriage.findOneAndUpdate(
+    ref,
+    {
+      ...update,
+      $set: { ...update.$set, updatedAt: entry.at },
+      $push: { history: entry },
+      $setOnInsert: {
+        ...(response.minerHotkey && { minerHotkey: response.minerHotkey }),
+        ...(projectId && { projectId }),
+        severity: finding.severity,
+        submittedAt: response.timestamp ?? entry.at,
+        createdAt: entry.at
       }
+    },
+    { upsert: true, new: true, projection: { _id: 0, __v: 0 } }
+  ).lean();
+};
+
+const reviewerOf = (req: Request): string =>
+  req.identity?.validatorAddress ?? req.identity?.keyId ?? 'anonymous';
 
-      const cleanUids: number[] = sampledMinerUids
-        .map((u: unknown) => Math.floor(Number(u)))
-        .filter((u: number) => isFinite(u) && u >= 0);
+/**
+ * POST /api/validation/:sessionId/miners/:minerUid/findings/:findingId/triage
+ * Record a reviewer verdict; earlier verdicts stay in history
+ */
+api.post(
+  '/api/validation/:sessionId/miners/:minerUid/findings/:findingId/triage',
+  jsonResponse(triageResponse),
+  authenticate,
+  requireScope('triage', 'admin'),
+  writeLimiter,
+  validate({ params: findingParams, body: triageBody }, 'strict'),
+  idempotent,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ref = parsedAs(findingParams, req.params);
+      const { status, comment, duplicateOf }: z.infer<typeof triageBody> = req.body;
 
-      if (cleanUids.length === 0) {
-        res.status(400).json({ success: false, error: 'sampledMinerUids contains no valid UIDs' });
+      const recorded = await loadRecordedFinding(ref);
+      if (!recorded) {
+        res.status(404).json({ success: false, error: 'Finding not found' });
         return;
       }
 
-      if (cleanUids.length > 256) {
-        res.status(400).json({ success: false, error: 'sampledMinerUids exceeds maximum of 256' });
-        return;
+      const original = duplicateOf && { ...duplicateOf, sessionId: duplicateOf.sessionId ?? ref.sessionId };
+      if (original) {
+        const self = original.sessionId === ref.sessionId &&
+          original.minerUid === ref.minerUid && original.findingId === ref.findingId;
+        if (self || !(await loadRecordedFinding(original))) {
+          res.status(400).json({
+            success: false,
+            error: 'Validation failed',
+            details: [{
+              location: 'body',
+              field: 'duplicateOf',
+              reason: self ? 'must reference a different finding' : 'must reference a recorded finding'
+            }]
+          });
+          return;
+        }
       }
 
-      if (!validatorAddress || typeof validatorAddress !== 'string') {
-        res.status(400).json({ success: false, error: 'validatorAddress is required' });
+      const triage = await appendTriageEntry(
+        ref,
+        recorded,
+        { action: 'status', status, comment, reviewer: reviewerOf(req), at: new Date() },
+        original
+          ? { $set: { status, duplicateOf: original } }
+          : { $set: { status }, $unset: { duplicateOf: '' } }
+      );
+
+      res.json({ success: true, data: triage });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/miners/:minerUid/findings/:findingId/triage:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/validation/:sessionId/miners/:minerUid/findings/:findingId/comments
+ * Add a reviewer comment without changing the verdict
+ */
+api.post(
+  '/api/validation/:sessionId/miners/:minerUid/findings/:findingId/comments',
+  jsonResponse(triageResponse),
+  authenticate,
+  requireScope('triage', 'admin'),
+  writeLimiter,
+  validate({ params: findingParams, body: triageCommentBody }, 'strict'),
+  idempotent,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ref = parsedAs(findingParams, req.params);
+      const { comment }: z.infer<typeof triageCommentBody> = req.body;
+
+      const recorded = await loadRecordedFinding(ref);
+      if (!recorded) {
+        res.status(404).json({ success: false, error: 'Finding not found' });
         return;
       }
 
-      const sessionId = uuidv4();
+      const triage = await appendTriageEntry(
+        ref,
+        recorded,
+        { action: 'comment', comment, reviewer: reviewerOf(req), at: new Date() }
+      );
 
-      const session = new ValidationSession({
-        sessionId,
-        sampledMinerCount: cleanUids.length,
-        sampledMinerUids: cleanUids,
-        state: 'pending',
-        metadata: {
-          validatorAddress: safeStr(validatorAddress, 64),
-          configVersion: safeStr(configVersion, 32)
-        },
-        minerResponses: [],
-        computedRewards: [],
-        validationErrors: []
-      });
+      res.json({ success: true, data: triage });
+    } catch (error: any) {
+      console.error('Error in POST /api/validation/:sessionId/miners/:minerUid/findings/:findingId/comments:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      await session.save();
+/**
+ * GET /api/validation/:sessionId/miners/:minerUid/findings/:findingId/triage
+ * Current verdict plus the full history of verdicts and comments
+ */
+api.get('/api/validation/:sessionId/miners/:minerUid/findings/:findingId/triage', jsonResponse(triageResponse), readLimiter, validate({ params: findingParams }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ref = parsedAs(findingParams, req.params);
+    const triage = await FindingTriage.findOne(ref, { _id: 0, __v: 0 }).lean();
 
-      res.status(201).json({
-        success: true,
-        sessionId,
-        message: 'Validation session started',
-        timestamp: new Date()
+    if (!triage) {
+      res.status(404).json({ success: false, error: 'No triage recorded for this finding' });
+      return;
+    }
+
+    res.json({ success: true, data: triage });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ─────────────────────────────────────────────────────────────
+// ADMIN ENDPOINTS - API KEY REGISTRY
+// ─────────────────────────────────────────────────────────────
+
+const generateApiKey = (): string => `apk_${randomBytes(32).toString('base64url')}`;
+
+const toPublicKey = (k: any) => ({
+  keyId: k.keyId,
+  keyPrefix: k.keyPrefix,
+  label: k.label,
+  validatorAddress: k.validatorAddress,
+  scopes: k.scopes,
+  createdAt: k.createdAt,
+  expiresAt: k.expiresAt,
+  revokedAt: k.revokedAt,
+  lastUsedAt: k.lastUsedAt,
+  rotatedFrom: k.rotatedFrom,
+  replacedBy: k.replacedBy
+});
+
+/**
+ * POST /api/admin/keys
+ * Issue a new key. The plaintext key is only ever returned here.
+ */
+api.post(
+  '/api/admin/keys',
+  jsonResponse(issuedKeyResponse, 201),
+  requireApiKey,
+  requireScope('admin'),
+  writeLimiter,
+  validate({ body: issueKeyBody }, 'strict'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { validatorAddress, scopes, expiresInDays, label }: z.infer<typeof issueKeyBody> = req.body;
+      const key = generateApiKey();
+
+      const record = await ApiKey.create({
+        keyId: uuidv4(),
+        keyHash: hashApiKey(key),
+        keyPrefix: key.slice(0, 12),
+        label,
+        validatorAddress,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000) : undefined
       });
+
+      res.status(201).json({ success: true, key, data: toPublicKey(record) });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/start:', error);
+      console.error('Error in POST /api/admin/keys:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/challenge
+ * GET /api/admin/keys
  */
-app.post(
-  '/api/validation/:sessionId/challenge',
+api.get(
+  '/api/admin/keys',
+  jsonResponse(keysResponse),
+  requireApiKey,
+  requireScope('admin'),
+  readLimiter,
+  validate({ query: listKeysQuery }),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { validatorAddress, includeRevoked } = parsedAs(listKeysQuery, req.query);
+      const filter: Record<string, any> = {};
+      if (validatorAddress) filter.validatorAddress = validatorAddress;
+      if (!includeRevoked) filter.revokedAt = { $exists: false };
+
+      const keys = await ApiKey.find(filter).sort({ createdAt: -1 }).limit(500).lean();
+      res.json({ success: true, data: keys.map(toPublicKey) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/keys/:keyId/rotate
+ * Issues a replacement with the same binding and scopes; the old key keeps
+ * working until the overlap window ends.
+ */
+api.post(
+  '/api/admin/keys/:keyId/rotate',
+  jsonResponse(rotatedKeyResponse, 201),
   requireApiKey,
+  requireScope('admin'),
   writeLimiter,
-  verifySessionOwner,
+  validate({ params: keyParams, body: rotateKeyBody }, 'strict'),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { projectId, description, difficulty, rawData } = req.body;
+      const { keyId } = req.params;
+      const { overlapSeconds }: z.infer<typeof rotateKeyBody> = req.body;
+      const overlapMs = overlapSeconds !== undefined ? overlapSeconds * 1000 : DEFAULT_ROTATION_OVERLAP_MS;
 
-      if (!projectId || typeof projectId !== 'string') {
-        res.status(400).json({ success: false, error: 'projectId is required' });
+      const existing = await ApiKey.findOne({ keyId, revokedAt: { $exists: false } });
+      if (!existing) {
+        res.status(404).json({ success: false, error: 'Key not found' });
         return;
       }
 
-      const VALID_DIFFICULTIES = ['easy', 'medium', 'hard', 'critical'];
-      const cleanDifficulty = VALID_DIFFICULTIES.includes(difficulty) ? difficulty : undefined;
-
-      const session = await ValidationSession.findOneAndUpdate(
-        { sessionId },
-        {
-          $set: {
-            state: 'in-progress',
-            projectId: safeStr(projectId, 128),
-            'challengeInfo.projectId': safeStr(projectId, 128),
-            'challengeInfo.description': safeStr(description, 2048),
-            'challengeInfo.difficulty': cleanDifficulty,
-            'challengeInfo.rawData': rawData || {},
-            'challengeInfo.createdAt': new Date()
-          }
-        },
-        { new: true }
-      );
+      const key = generateApiKey();
+      const replacement = await ApiKey.create({
+        keyId: uuidv4(),
+        keyHash: hashApiKey(key),
+        keyPrefix: key.slice(0, 12),
+        label: existing.label,
+        validatorAddress: existing.validatorAddress,
+        scopes: existing.scopes,
+        expiresAt: existing.expiresAt,
+        rotatedFrom: existing.keyId
+      });
 
-      if (!session) {
-        res.status(404).json({ success: false, error: 'Session not found' });
-        return;
-      }
+      const overlapEnd = new Date(Date.now() + overlapMs);
+      existing.expiresAt = existing.expiresAt && existing.expiresAt < overlapEnd ? existing.expiresAt : overlapEnd;
+      existing.replacedBy = replacement.keyId;
+      await existing.save();
 
-      res.json({ success: true, message: 'Challenge recorded', projectId });
+      res.status(201).json({
+        success: true,
+        key,
+        data: toPublicKey(replacement),
+        previous: toPublicKey(existing)
+      });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/challenge:', error);
+      console.error('Error in POST /api/admin/keys/:keyId/rotate:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/miner-response
- * UPDATED: Now includes agentFindings
+ * POST /api/admin/keys/:keyId/revoke
  */
-app.post(
-  '/api/validation/:sessionId/miner-response',
+api.post(
+  '/api/admin/keys/:keyId/revoke',
+  jsonResponse(revokedKeyResponse),
   requireApiKey,
+  requireScope('admin'),
   writeLimiter,
-  verifySessionOwner,
+  validate({ params: keyParams }),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { 
-        minerUid, 
-        githubUrl, 
-        responseTime, 
-        success, 
-        errorMessage, 
-        agentPerformance,
-        agentFindings,
-        rewardScore,
-        rewardReason
-      } = req.body;
+      const { keyId } = req.params;
+      const record = await ApiKey.findOneAndUpdate(
+        { keyId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+        { new: true }
+      );
 
-      const cleanUid = Math.floor(Number(minerUid));
-      if (!isFinite(cleanUid) || cleanUid < 0) {
-        res.status(400).json({ success: false, error: 'minerUid must be a non-negative integer' });
+      if (!record) {
+        res.status(404).json({ success: false, error: 'Key not found' });
         return;
       }
 
-      let cleanGithubUrl: string | undefined;
-      if (githubUrl) {
-        try {
-          const u = new URL(String(githubUrl));
-          if (u.hostname !== 'github.com') throw new Error('Not github.com');
-          cleanGithubUrl = u.href.slice(0, 256);
-        } catch {
-          res.status(400).json({ success: false, error: 'githubUrl must be a valid github.com URL' });
-          return;
-        }
-      }
+      res.json({ success: true, message: 'Key revoked', data: toPublicKey(record) });
+    } catch (error: any) {
+      console.error('Error in POST /api/admin/keys/:keyId/revoke:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      const cleanResponseTime = safeNum(responseTime, 0, 3_600_000);
+// ─────────────────────────────────────────────────────────────
+// ADMIN ENDPOINTS - SESSION REAPER
+// ─────────────────────────────────────────────────────────────
 
-      const VALID_STATUSES = ['completed', 'error', 'timeout', 'no_response'];
-      const completionStatus = VALID_STATUSES.includes(agentPerformance?.completionStatus)
-        ? agentPerformance.completionStatus
-        : undefined;
+/**
+ * GET /api/admin/reaper/status
+ */
+api.get(
+  '/api/admin/reaper/status',
+  jsonResponse(reaperDetailResponse),
+  requireApiKey,
+  requireScope('admin'),
+  readLimiter,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const cutoff = new Date(Date.now() - SESSION_TIMEOUT_MS);
+      const overdue = await ValidationSession.countDocuments({
+        state: { $in: ['pending', 'in-progress'] },
+        timestamp: { $lt: cutoff }
+      });
 
-      // Validate and clean agent findings
-      const cleanAgentFindings = validateAgentFindings(agentFindings);
+      res.json({
+        success: true,
+        data: {
+          ...reaperStatus,
+          sessionTimeoutMs: SESSION_TIMEOUT_MS,
+          intervalMs: REAPER_INTERVAL_MS,
+          nextRunAt: reaperStatus.lastRunAt
+            ? new Date(reaperStatus.lastRunAt.getTime() + REAPER_INTERVAL_MS)
+            : null,
+          overdueSessions: overdue
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      const session = await ValidationSession.findOneAndUpdate(
-        { sessionId },
-        {
-          $push: {
-            minerResponses: {
-              minerUid: cleanUid,
-              githubUrl: cleanGithubUrl,
-              responseTime: cleanResponseTime,
-              success: Boolean(success),
-              errorMessage: safeStr(errorMessage, 512),
-              timestamp: new Date(),
-              agentPerformance: {
-                executionTime: safeNum(agentPerformance?.executionTime, 0, 3_600_000),
-                findingsCount: safeNum(agentPerformance?.findingsCount, 0, 10_000),
-                accuracy: safeNum(agentPerformance?.accuracy, 0, 1),
-                completionStatus
-              },
-              agentFindings: cleanAgentFindings,
-              rewardScore: isValidScore(rewardScore) ? rewardScore : undefined,
-              rewardReason: safeStr(rewardReason, 256)
-            }
-          }
-        },
-        { new: true }
-      );
+/**
+ * POST /api/admin/reaper/run
+ * Trigger a reaper pass immediately.
+ */
+api.post(
+  '/api/admin/reaper/run',
+  jsonResponse(reaperRunResponse),
+  requireApiKey,
+  requireScope('admin'),
+  writeLimiter,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (reaperStatus.running) {
+        res.status(409).json({ success: false, error: 'Reaper is already running' });
+        return;
+      }
+      await reapStuckSessions();
+      res.json({ success: true, data: { ...reaperStatus } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      if (!session) {
-        res.status(404).json({ success: false, error: 'Session not found' });
+// ─────────────────────────────────────────────────────────────
+// CRON ENDPOINTS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Accepts `Authorization: Bearer <CRON_SECRET>`, the header Vercel Cron sends.
+ * Cron routes are disabled entirely while CRON_SECRET is unset.
+ */
+const requireCronSecret = (req: Request, res: Response, next: NextFunction): void => {
+  if (!CRON_SECRET) {
+    res.status(503).json({ success: false, error: 'Cron endpoints are disabled: CRON_SECRET is not set' });
+    return;
+  }
+  if (req.headers.authorization !== `Bearer ${CRON_SECRET}`) {
+    res.status(401).json({ success: false, error: 'Unauthorized' });
+    return;
+  }
+  next();
+};
+
+/**
+ * GET /api/cron/reaper
+ * One reaper pass, scheduled from vercel.json on serverless deploys where the
+ * in-process timer never runs. reaperStatus there only reflects the instance
+ * that served the call.
+ */
+api.get(
+  '/api/cron/reaper',
+  jsonResponse(reaperRunResponse),
+  requireCronSecret,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      if (reaperStatus.running) {
+        res.status(409).json({ success: false, error: 'Reaper is already running' });
         return;
       }
+      await reapStuckSessions();
+      res.json({ success: true, data: { ...reaperStatus } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      res.json({ 
-        success: true, 
-        message: 'Miner response recorded', 
-        minerUid: cleanUid,
-        findingsCount: cleanAgentFindings?.findingsCount ?? 0
-      });
+/**
+ * GET /api/cron/webhooks
+ * Dispatches due webhook deliveries where the polling worker cannot run.
+ */
+api.get(
+  '/api/cron/webhooks',
+  jsonResponse(webhooksProcessedResponse),
+  requireCronSecret,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const processed = await processWebhookDeliveries();
+      res.json({ success: true, data: { processed } });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/miner-response:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/miner-reward
- * UPDATED: Records findings count in history
+ * GET /api/cron/reindex
+ * Advances a running findings reindex by as many batches as fit in one
+ * invocation. A no-op when none is running.
+ */
+api.get(
+  '/api/cron/reindex',
+  jsonResponse(reindexAdvancedResponse),
+  requireCronSecret,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      await advanceReindex(Date.now() + REINDEX_TIME_BUDGET_MS);
+      const job = await ReindexJob.findOne({ name: FINDINGS_REINDEX_JOB }).lean();
+      res.json({ success: true, data: job ? toPublicReindexJob(job) : null });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+// ─────────────────────────────────────────────────────────────
+// ADMIN ENDPOINTS - FINDING INDEX
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/admin/findings/reindex
+ * Starts rebuilding the search index from stored sessions, e.g. for findings
+ * recorded before the index existed. The worker timer, or /api/cron/reindex
+ * on serverless, indexes it in batches; poll GET for progress.
  */
-app.post(
-  '/api/validation/:sessionId/miner-reward',
+api.post(
+  '/api/admin/findings/reindex',
+  jsonResponse(reindexJobResponse, 202),
   requireApiKey,
+  requireScope('admin'),
   writeLimiter,
-  verifySessionOwner,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { minerUid, rewardScore, rewardReason } = req.body;
-
-      const cleanUid = Math.floor(Number(minerUid));
-      if (!isFinite(cleanUid) || cleanUid < 0) {
-        res.status(400).json({ success: false, error: 'minerUid must be a non-negative integer' });
-        return;
-      }
-
-      if (!isValidScore(rewardScore)) {
-        res.status(400).json({ success: false, error: 'rewardScore must be a number between 0 and 1' });
-        return;
-      }
-
-      const session = await ValidationSession.findOne({ sessionId });
-      if (!session) {
-        res.status(404).json({ success: false, error: 'Session not found' });
-        return;
-      }
-
-      // Find the miner response to get findings count
-      const minerResponse = session.minerResponses.find((r: any) => r.minerUid === cleanUid);
-      const findingsCount = minerResponse?.agentFindings?.findingsCount || 0;
-      const criticalFindingsCount = minerResponse?.agentFindings?.criticalCount || 0;
-
-      // Update miner response with reward
-      await ValidationSession.findOneAndUpdate(
-        { sessionId, 'minerResponses.minerUid': cleanUid },
+      const now = new Date();
+      // Matches nothing while a run is in progress; the upsert then hits the unique name
+      const job = await ReindexJob.findOneAndUpdate(
+        { name: FINDINGS_REINDEX_JOB, state: { $ne: 'running' } },
         {
           $set: {
-            'minerResponses.$.rewardScore': rewardScore,
-            'minerResponses.$.rewardReason': safeStr(rewardReason, 256)
-          }
-        }
+            runId: uuidv4(),
+            state: 'running',
+            sessions: 0,
+            findings: 0,
+            batches: 0,
+            requestedBy: req.identity?.keyId,
+            startedAt: now,
+            updatedAt: now
+          },
+          $unset: { lastSessionId: '', lockedUntil: '', lastError: '', completedAt: '' }
+        },
+        { upsert: true, new: true }
       );
 
-      // Record in history with findings data
-      await MinerHistory.create({
-        minerUid: cleanUid,
-        sessionId,
-        rewardScore,
-        findingsCount,
-        criticalFindingsCount,
-        githubUrl: minerResponse?.githubUrl,
-        accuracy: minerResponse?.agentPerformance?.accuracy,
-        executionTime: minerResponse?.agentPerformance?.executionTime,
-        timestamp: new Date(),
-        status: rewardScore > 0 ? 'success' : 'failed'
-      });
-
-      res.json({ 
-        success: true, 
-        message: 'Reward recorded', 
-        minerUid: cleanUid, 
-        rewardScore,
-        findingsCount 
-      });
+      res.status(202).json({ success: true, data: toPublicReindexJob(job) });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/miner-reward:', error);
+      if (error?.code === 11000) {
+        res.status(409).json({ success: false, error: 'A findings reindex is already running' });
+        return;
+      }
+      console.error('Error in POST /api/admin/findings/reindex:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/rewards-update
+ * GET /api/admin/findings/reindex
  */
-app.post(
-  '/api/validation/:sessionId/rewards-update',
+api.get(
+  '/api/admin/findings/reindex',
+  jsonResponse(reindexJobResponse),
   requireApiKey,
-  writeLimiter,
-  verifySessionOwner,
-  async (req: Request, res: Response): Promise<void> => {
+  requireScope('admin'),
+  readLimiter,
+  async (_req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { minerUids, rewards } = req.body;
-
-      if (!Array.isArray(minerUids) || !Array.isArray(rewards)) {
-        res.status(400).json({ success: false, error: 'minerUids and rewards must be arrays' });
+      const job = await ReindexJob.findOne({ name: FINDINGS_REINDEX_JOB }).lean();
+      if (!job) {
+        res.status(404).json({ success: false, error: 'No findings reindex has been started' });
         return;
       }
+      res.json({ success: true, data: toPublicReindexJob(job) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      if (minerUids.length !== rewards.length) {
-        res.status(400).json({ success: false, error: 'minerUids and rewards must have the same length' });
-        return;
-      }
+// ─────────────────────────────────────────────────────────────
+// ADMIN ENDPOINTS - WEBHOOKS
+// ─────────────────────────────────────────────────────────────
 
-      if (minerUids.length > 256) {
-        res.status(400).json({ success: false, error: 'Batch exceeds maximum of 256 miners' });
-        return;
-      }
+const toPublicSubscription = (sub: any) => ({
+  subscriptionId: sub.subscriptionId,
+  url: sub.url,
+  events: sub.events,
+  description: sub.description,
+  active: sub.active,
+  createdAt: sub.createdAt
+});
 
-      const cleanUids = minerUids.map((u: unknown) => Math.floor(Number(u)));
-      const cleanRewards = rewards.map((r: unknown) => {
-        const n = Number(r);
-        return isFinite(n) ? Math.min(Math.max(n, 0), 1) : 0;
+/**
+ * POST /api/admin/webhooks
+ * The signing secret is only returned on creation.
+ */
+api.post(
+  '/api/admin/webhooks',
+  jsonResponse(subscriptionCreatedResponse, 201),
+  requireApiKey,
+  requireScope('admin'),
+  writeLimiter,
+  validate({ body: webhookBody }, 'strict'),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { url, events, description }: z.infer<typeof webhookBody> = req.body;
+
+      const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+      const subscription = await WebhookSubscription.create({
+        subscriptionId: uuidv4(),
+        url: new URL(url).href,
+        secret,
+        events: Array.from(new Set(events)),
+        description
       });
 
-      if (cleanUids.some((u: number) => !isFinite(u) || u < 0)) {
-        res.status(400).json({ success: false, error: 'All minerUids must be non-negative integers' });
-        return;
-      }
-
-      const updateId = uuidv4();
-
-      await RewardUpdate.create({ updateId, sessionId, minerUids: cleanUids, rewards: cleanRewards });
-
-      const session = await ValidationSession.findOne({ sessionId });
-      if (session) {
-        session.computedRewards = cleanUids.map((uid: number, idx: number) => ({
-          minerUid: uid,
-          score: cleanRewards[idx],
-          timestamp: new Date()
-        }));
-
-        const successCount = cleanRewards.filter((r: number) => r > 0).length;
-        session.metrics = {
-          successRate: (successCount / cleanUids.length) * 100,
-          averageRewardScore: cleanRewards.reduce((a: number, b: number) => a + b, 0) / cleanUids.length,
-          failureCount: cleanUids.length - successCount
-        };
-
-        await session.save();
-      }
+      res.status(201).json({ success: true, secret, data: toPublicSubscription(subscription) });
+    } catch (error: any) {
+      console.error('Error in POST /api/admin/webhooks:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
 
-      res.json({ success: true, message: 'Rewards updated', updateId, minerCount: cleanUids.length });
+/**
+ * GET /api/admin/webhooks
+ */
+api.get(
+  '/api/admin/webhooks',
+  jsonResponse(subscriptionsResponse),
+  requireApiKey,
+  requireScope('admin'),
+  readLimiter,
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const subscriptions = await WebhookSubscription.find().sort({ createdAt: -1 }).limit(500).lean();
+      res.json({ success: true, data: subscriptions.map(toPublicSubscription) });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/rewards-update:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/subnet-snapshot
+ * POST /api/admin/webhooks/:subscriptionId/disable
  */
-app.post(
-  '/api/validation/:sessionId/subnet-snapshot',
+api.post(
+  '/api/admin/webhooks/:subscriptionId/disable',
+  jsonResponse(subscriptionDisabledResponse),
   requireApiKey,
+  requireScope('admin'),
   writeLimiter,
-  verifySessionOwner,
+  validate({ params: subscriptionParams }),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { netuid, block, activeValidators, activeMiners, totalStake, emissionPerBlock } = req.body;
+      const subscription = await WebhookSubscription.findOneAndUpdate(
+        { subscriptionId: req.params.subscriptionId },
+        { $set: { active: false } },
+        { new: true }
+      );
 
-      if (typeof netuid !== 'number' || typeof block !== 'number') {
-        res.status(400).json({ success: false, error: 'netuid and block must be numbers' });
+      if (!subscription) {
+        res.status(404).json({ success: false, error: 'Subscription not found' });
         return;
       }
 
-      await ValidationSession.findOneAndUpdate(
-        { sessionId },
-        {
-          $set: {
-            'subnetSnapshot.netuid': safeNum(netuid, 0, 65535),
-            'subnetSnapshot.block': safeNum(block, 0),
-            'subnetSnapshot.activeValidators': safeNum(activeValidators, 0, 10_000),
-            'subnetSnapshot.activeMiners': safeNum(activeMiners, 0, 100_000),
-            'subnetSnapshot.totalStake': safeNum(totalStake, 0),
-            'subnetSnapshot.emissionPerBlock': safeNum(emissionPerBlock, 0),
-            'subnetSnapshot.timestamp': new Date()
-          }
-        }
-      );
-
-      res.json({ success: true, message: 'Subnet snapshot recorded' });
+      res.json({ success: true, message: 'Subscription disabled', data: toPublicSubscription(subscription) });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/subnet-snapshot:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/error
+ * GET /api/admin/webhooks/deliveries
+ * Delivery log, newest first. Filters: status, subscriptionId, eventType.
  */
-app.post(
-  '/api/validation/:sessionId/error',
+api.get(
+  '/api/admin/webhooks/deliveries',
+  jsonResponse(deliveriesResponse),
   requireApiKey,
-  writeLimiter,
-  verifySessionOwner,
+  requireScope('admin'),
+  readLimiter,
+  validate({ query: listDeliveriesQuery }),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { stage, message, stackTrace } = req.body;
-
-      if (!stage || !message) {
-        res.status(400).json({ success: false, error: 'stage and message are required' });
-        return;
-      }
-
-      const VALID_STAGES = [
-        'session-start', 'challenge-fetch', 'ground-truth-fetch',
-        'miner-query', 'miner-processing', 'rewards-update',
-        'subnet-snapshot', 'validator-critical'
-      ];
+      const { limit, skip, status, subscriptionId, eventType } = parsedAs(listDeliveriesQuery, req.query);
 
-      const cleanStage = VALID_STAGES.includes(stage) ? stage : 'unknown';
+      const filter: Record<string, any> = {};
+      if (status) filter.status = status;
+      if (subscriptionId) filter.subscriptionId = subscriptionId;
+      if (eventType) filter.eventType = eventType;
 
-      await ValidationSession.findOneAndUpdate(
-        { sessionId },
-        {
-          $push: {
-            validationErrors: {
-              stage: cleanStage,
-              message: safeStr(message, 1024),
-              timestamp: new Date(),
-              stackTrace: process.env.NODE_ENV !== 'production'
-                ? safeStr(stackTrace, 4096)
-                : undefined
-            }
-          }
-        }
-      );
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(filter, { _id: 0, __v: 0 }).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+        WebhookDelivery.countDocuments(filter)
+      ]);
 
-      res.json({ success: true, message: 'Error logged' });
+      res.json({ success: true, data: deliveries, pagination: { total, limit, skip } });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/error:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
 /**
- * POST /api/validation/:sessionId/complete
+ * POST /api/admin/webhooks/deliveries/:deliveryId/retry
+ * Re-queues a dead-lettered (or pending) delivery for immediate dispatch.
  */
-app.post(
-  '/api/validation/:sessionId/complete',
+api.post(
+  '/api/admin/webhooks/deliveries/:deliveryId/retry',
+  jsonResponse(deliveryRequeuedResponse),
   requireApiKey,
+  requireScope('admin'),
   writeLimiter,
-  verifySessionOwner,
+  validate({ params: deliveryParams }),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { sessionId } = req.params;
-      const { metrics } = req.body;
-
-      const session = await ValidationSession.findOneAndUpdate(
-        { sessionId },
-        {
-          $set: {
-            state: 'completed',
-            'metrics.totalQueryTime': safeNum(metrics?.totalQueryTime, 0, 86_400_000),
-            'metrics.averageRewardScore': safeNum(metrics?.averageRewardScore, 0, 1),
-            'metrics.successRate': safeNum(metrics?.successRate, 0, 100),
-            'metrics.failureCount': safeNum(metrics?.failureCount, 0, 10_000),
-            'metrics.validFindings': safeNum(metrics?.validFindings, 0, 100_000)
-          }
-        },
-        { new: true }
-      );
-
-      if (!session) {
-        res.status(404).json({ success: false, error: 'Session not found' });
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        { deliveryId: req.params.deliveryId, status: { $ne: 'delivered' } },
+        { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+        { new: true, projection: { _id: 0, __v: 0 } }
+      ).lean();
+
+      if (!delivery) {
+        res.status(404).json({ success: false, error: 'Undelivered delivery not found' });
         return;
       }
 
-      res.json({ success: true, message: 'Validation session completed', sessionId });
+      res.json({ success: true, message: 'Delivery re-queued', data: delivery });
     } catch (error: any) {
-      console.error('Error in POST /api/validation/:sessionId/complete:', error);
       res.status(500).json({ success: false, error: 'Internal server error' });
     }
   }
 );
 
+// ─────────────────────────────────────────────────────────────
+// LIVE EVENT STREAM
+// ─────────────────────────────────────────────────────────────
+
+const SSE_HEARTBEAT_MS = 25_000;
+const SSE_MAX_CONNECTIONS = Number(process.env.SSE_MAX_CONNECTIONS) || 500;
+const SSE_MAX_CONNECTIONS_PER_CLIENT = Number(process.env.SSE_MAX_CONNECTIONS_PER_CLIENT) || 5;
+
+const sseConnections = new Map<string, number>();
+let sseConnectionCount = 0;
+// One listener per open stream
+eventBus.setMaxListeners(SSE_MAX_CONNECTIONS);
+
+/**
+ * GET /api/events/stream
+ * Server-Sent Events feed of session activity. Filters: sessionId,
+ * validatorAddress, projectId, types (comma-separated). Reconnecting clients
+ * send Last-Event-ID (or ?lastEventId=) to replay what they missed from the
+ * in-memory buffer.
+ *
+ * Admin keys see every validator; validator-bound keys only their own
+ * sessions. Connections are capped per key and per instance. Events and
+ * replay are local to one instance (see eventBuffer): behind a load balancer
+ * or on serverless a stream misses events published elsewhere.
+ */
+api.get('/api/events/stream', textResponse('text/event-stream'), requireApiKey, readLimiter, validate({ query: eventStreamQuery }), (req: Request, res: Response): void => {
+  const { sessionId, validatorAddress: requested, projectId, types, lastEventId } = parsedAs(eventStreamQuery, req.query);
+  const isAdmin = !!req.identity?.scopes.includes('admin');
+  const boundTo = req.identity?.validatorAddress;
+
+  if (!isAdmin && !boundTo) {
+    res.status(403).json({ success: false, error: 'Forbidden: API key is not bound to a validator' });
+    return;
+  }
+  if (!isAdmin && requested && requested !== boundTo) {
+    res.status(403).json({ success: false, error: 'Forbidden: events belong to another validator' });
+    return;
+  }
+  const validatorAddress = isAdmin ? requested : boundTo;
+
+  const client = req.identity!.keyId ?? boundTo!;
+  if (sseConnectionCount >= SSE_MAX_CONNECTIONS) {
+    res.setHeader('Retry-After', '30');
+    res.status(503).json({ success: false, error: 'Event stream is at capacity' });
+    return;
+  }
+  if ((sseConnections.get(client) ?? 0) >= SSE_MAX_CONNECTIONS_PER_CLIENT) {
+    res.status(429).json({
+      success: false,
+      error: `At most ${SSE_MAX_CONNECTIONS_PER_CLIENT} concurrent event streams per API key`
+    });
+    return;
+  }
+  sseConnectionCount++;
+  sseConnections.set(client, (sseConnections.get(client) ?? 0) + 1);
+
+  const matches = (e: SessionEvent): boolean =>
+    (!sessionId || e.sessionId === sessionId) &&
+    (!validatorAddress || e.validatorAddress === validatorAddress) &&
+    (!projectId || e.projectId === projectId) &&
+    (!types || types.length === 0 || types.includes(e.type));
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const send = (e: SessionEvent): void => {
+    if (!matches(e)) return;
+    res.write(`id: ${e.id}\nevent: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`);
+  };
+
+  const resumeFrom = Number(req.headers['last-event-id'] ?? lastEventId);
+  if (isFinite(resumeFrom) && resumeFrom > 0) {
+    for (const e of eventBuffer) if (e.id > resumeFrom) send(e);
+  }
+
+  eventBus.on('event', send);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    eventBus.off('event', send);
+    sseConnectionCount--;
+    const open = (sseConnections.get(client) ?? 1) - 1;
+    if (open > 0) sseConnections.set(client, open);
+    else sseConnections.delete(client);
+  });
+});
+
 // ─────────────────────────────────────────────────────────────
 // READ ENDPOINTS - FINDINGS QUERIES (NEW)
 // ─────────────────────────────────────────────────────────────
@@ -983,7 +6108,7 @@ app.post(
  * GET /api/validation/:sessionId/findings
  * Get all findings for a validation session grouped by miner
  */
-app.get('/api/validation/:sessionId/findings', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/validation/:sessionId/findings', jsonResponse(sessionFindingsResponse), readLimiter, validate({ params: sessionParams }), async (req: Request, res: Response): Promise<void> => {
   try {
     const { sessionId } = req.params;
     
@@ -1010,6 +6135,7 @@ app.get('/api/validation/:sessionId/findings', readLimiter, async (req: Request,
           low: r.agentFindings.lowCount
         },
         findings: r.agentFindings.findings,
+        evaluation: r.groundTruthEvaluation,
         rewardScore: r.rewardScore,
         timestamp: r.timestamp
       }));
@@ -1036,13 +6162,177 @@ app.get('/api/validation/:sessionId/findings', readLimiter, async (req: Request,
   }
 });
 
+/**
+ * GET /api/validation/:sessionId/clusters
+ * Findings deduplicated across miners
+ */
+api.get('/api/validation/:sessionId/clusters', jsonResponse(clustersResponse), readLimiter, validate({ params: sessionParams, query: clustersQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const { uniqueOnly, minMiners } = parsedAs(clustersQuery, req.query);
+
+    const session = await ValidationSession.findOne(
+      { sessionId },
+      { minerResponses: 1, projectId: 1, timestamp: 1 }
+    ).lean();
+
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    let clusters = clusterSessionFindings(sessionId, (session.minerResponses || []) as MinerResponse[]);
+    const summary = {
+      totalReports: clusters.reduce((acc, c) => acc + c.reportCount, 0),
+      clusterCount: clusters.length,
+      uniqueFindings: clusters.filter(c => c.uniqueToOneMiner).length
+    };
+
+    if (uniqueOnly) clusters = clusters.filter(c => c.uniqueToOneMiner);
+    if (minMiners !== undefined) clusters = clusters.filter(c => c.minerCount >= minMiners);
+
+    clusters.sort((a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.minerCount - a.minerCount);
+
+    res.json({
+      success: true,
+      data: {
+        sessionId,
+        projectId: session.projectId,
+        timestamp: session.timestamp,
+        summary,
+        clusters
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/validation/:sessionId/reward-audit
+ * Validator-submitted rewards next to the server-computed policy score
+ */
+api.get('/api/validation/:sessionId/reward-audit', jsonResponse(rewardAuditResponse), readLimiter, validate({ params: sessionParams, query: rewardAuditQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const { flaggedOnly } = parsedAs(rewardAuditQuery, req.query);
+
+    const session = await ValidationSession.findOne(
+      { sessionId },
+      { 'minerResponses.minerUid': 1, 'minerResponses.rewardScore': 1, 'minerResponses.computedReward': 1, metadata: 1 }
+    ).lean();
+
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    let rewards = (session.minerResponses || [])
+      .filter((r: any) => r.computedReward)
+      .map((r: any) => ({
+        minerUid: r.minerUid,
+        submittedScore: r.computedReward.submittedScore,
+        computedScore: r.computedReward.score,
+        delta: r.computedReward.delta,
+        flagged: r.computedReward.flagged,
+        policyVersion: r.computedReward.policyVersion,
+        breakdown: r.computedReward.breakdown
+      }));
+
+    const flaggedCount = rewards.filter((r: any) => r.flagged).length;
+    if (flaggedOnly) rewards = rewards.filter((r: any) => r.flagged);
+
+    res.json({
+      success: true,
+      data: {
+        sessionId,
+        configVersion: session.metadata?.configVersion,
+        policyVersion: resolveRewardPolicy(session.metadata?.configVersion).version,
+        disagreementThreshold: REWARD_DISAGREEMENT_THRESHOLD,
+        flaggedCount,
+        rewards
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/reward-policies
+ */
+api.get('/api/reward-policies', jsonResponse(rewardPoliciesResponse), readLimiter, (_req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    defaultPolicy: resolveRewardPolicy().version,
+    data: Object.values(REWARD_POLICIES).map(p => ({ version: p.version, description: p.description }))
+  });
+});
+
+/**
+ * GET /api/validation/:sessionId/sarif
+ * SARIF 2.1.0 log with one run per miner response
+ */
+api.get('/api/validation/:sessionId/sarif', sarifResponse, readLimiter, validate({ params: sessionParams }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+    const session = await ValidationSession.findOne(
+      { sessionId },
+      { minerResponses: 1, projectId: 1 }
+    ).lean();
+
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    const runs = ((session.minerResponses || []) as MinerResponse[])
+      .filter(r => (r.agentFindings?.findings?.length ?? 0) > 0)
+      .map(r => toSarifRun(sessionId, session.projectId, r));
+
+    res.type('application/sarif+json').send(JSON.stringify(toSarifLog(runs)));
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/validation/:sessionId/miners/:minerUid/sarif
+ */
+api.get('/api/validation/:sessionId/miners/:minerUid/sarif', sarifResponse, readLimiter, validate({ params: sessionMinerParams }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sessionId, minerUid } = parsedAs(sessionMinerParams, req.params);
+
+    const session = await ValidationSession.findOne(
+      { sessionId },
+      { minerResponses: { $elemMatch: { minerUid } }, projectId: 1 }
+    ).lean();
+
+    if (!session) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    const response = (session.minerResponses || [])[0] as MinerResponse | undefined;
+    if (!response) {
+      res.status(404).json({ success: false, error: 'Miner response not found' });
+      return;
+    }
+
+    res.type('application/sarif+json').send(JSON.stringify(toSarifLog([toSarifRun(sessionId, session.projectId, response)])));
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/findings/critical
  * Get all critical findings across all sessions
  */
-app.get('/api/findings/critical', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/findings/critical', jsonResponse(criticalFindingsResponse), readLimiter, validate({ query: criticalFindingsQuery }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const { limit } = parsedAs(criticalFindingsQuery, req.query);
 
     const sessions = await ValidationSession.aggregate([
       {
@@ -1093,13 +6383,131 @@ app.get('/api/findings/critical', readLimiter, async (req: Request, res: Respons
   }
 });
 
+const SEARCH_FACET_LIMIT = 20;
+// Applied when neither q nor from is given, so the facets never count the whole index
+const SEARCH_DEFAULT_WINDOW_MS = 30 * 86_400_000;
+
+/**
+ * GET /api/findings/search?q=
+ * Text search over title, description and remediation with severity,
+ * project, miner, validator, date and confidence filters. Facet counts
+ * reflect the applied filters. Without q, results start at most 30 days
+ * before `to` (or now) unless `from` says otherwise.
+ */
+api.get('/api/findings/search', jsonResponse(findingSearchResponse), readLimiter, validate({ query: findingSearchQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { q, severity, projectId, minerUid, validator, from, to, minConfidence, limit, skip } =
+      parsedAs(findingSearchQuery, req.query);
+
+    const match: Record<string, any> = {};
+    if (q) match.$text = { $search: q };
+    if (severity) match.severity = { $in: severity };
+    if (projectId) match.projectId = projectId;
+    if (minerUid !== undefined) match.minerUid = minerUid;
+    if (validator) match.validatorAddress = validator;
+    const since = from ?? (q ? undefined : new Date((to?.getTime() ?? Date.now()) - SEARCH_DEFAULT_WINDOW_MS));
+    if (since || to) match.submittedAt = { ...(since && { $gte: since }), ...(to && { $lte: to }) };
+    if (minConfidence !== undefined) match.confidenceScore = { $gte: minConfidence };
+
+    const facetOn = (field: string): PipelineStage.FacetPipelineStage[] => [
+      { $match: { [field]: { $ne: null } } },
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: SEARCH_FACET_LIMIT },
+      { $project: { _id: 0, value: '$_id', count: 1 } }
+    ];
+
+    const [result] = await FindingIndex.aggregate([
+      { $match: match },
+      ...(q ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+      {
+        $facet: {
+          hits: [
+            { $sort: q ? { score: -1, submittedAt: -1 } : { submittedAt: -1 } },
+            { $skip: skip },
+            { $limit: limit },
+            { $project: { _id: 0, __v: 0 } }
+          ],
+          total: [{ $count: 'count' }],
+          severity: facetOn('severity'),
+          projectId: facetOn('projectId'),
+          minerUid: facetOn('minerUid'),
+          validator: facetOn('validatorAddress')
+        }
+      }
+    ]);
+
+    const terms = Array.from(tokenize(q));
+    const hits = result.hits.map((hit: any) => ({
+      ...hit,
+      score: hit.score !== undefined ? round4(hit.score) : undefined,
+      highlights: q
+        ? {
+          title: highlightText(hit.title, terms),
+          description: highlightText(hit.description, terms),
+          remediation: highlightText(hit.remediation, terms)
+        }
+        : undefined
+    }));
+
+    res.json({
+      success: true,
+      data: hits,
+      facets: {
+        severity: result.severity,
+        projectId: result.projectId,
+        minerUid: result.minerUid,
+        validator: result.validator
+      },
+      range: { from: since ?? null, to: to ?? null },
+      pagination: { limit, skip, total: result.total[0]?.count ?? 0 }
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/findings/search:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/plagiarism/suspects
+ * Suspected copy pairs (shared repo or verbatim findings), highest score first
+ */
+api.get('/api/plagiarism/suspects', jsonResponse(plagiarismSuspectsResponse), readLimiter, validate({ query: plagiarismSuspectsQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit, skip, sessionId, minerUid, minScore, crossSession } = parsedAs(plagiarismSuspectsQuery, req.query);
+
+    const match: Record<string, any> = { score: { $gte: minScore ?? PLAGIARISM_SCORE_THRESHOLD } };
+    if (sessionId) match.sessionIds = sessionId;
+    if (minerUid !== undefined) match.minerUids = minerUid;
+    if (crossSession !== undefined) match.crossSession = crossSession;
+
+    const [suspects, total] = await Promise.all([
+      PlagiarismSuspect.find(match, { _id: 0, __v: 0, sessionIds: 0, minerUids: 0 })
+        .sort({ score: -1, updatedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      PlagiarismSuspect.countDocuments(match)
+    ]);
+
+    res.json({
+      success: true,
+      data: suspects,
+      pagination: { limit, skip, total }
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/plagiarism/suspects:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/findings/severity-distribution
  * Get distribution of findings by severity
  */
-app.get('/api/findings/severity-distribution', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/findings/severity-distribution', jsonResponse(severityDistributionResponse), readLimiter, validate({ query: timeRangeQuery('30d') }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { timeRange = '30d' } = req.query;
+    const { timeRange } = req.query;
     const since = new Date();
     
     if (timeRange === '24h') since.setHours(since.getHours() - 24);
@@ -1144,11 +6552,161 @@ app.get('/api/findings/severity-distribution', readLimiter, async (req: Request,
   }
 });
 
+// ─────────────────────────────────────────────────────────────
+// READ ENDPOINTS - PUBLIC AUDITS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * GET /api/audits
+ * Miner responses in AuditSchema shape, newest first
+ */
+api.get('/api/audits', jsonResponse(auditsResponse), readLimiter, validate({ query: listAuditsQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit, skip, projectId, minerUid } = parsedAs(listAuditsQuery, req.query);
+
+    const sessionMatch: Record<string, any> = { 'minerResponses.0': { $exists: true } };
+    if (projectId) sessionMatch.projectId = projectId;
+
+    const responseMatch: Record<string, any> = {};
+    if (minerUid !== undefined) responseMatch['minerResponses.minerUid'] = minerUid;
+
+    const rows = await ValidationSession.aggregate([
+      { $match: sessionMatch },
+      { $sort: { timestamp: -1 } },
+      { $unwind: '$minerResponses' },
+      { $match: responseMatch },
+      { $sort: { 'minerResponses.timestamp': -1 } },
+      { $skip: skip },
+      { $limit: limit },
+      { $project: { sessionId: 1, projectId: 1, projectName: 1, state: 1, minerResponses: 1 } }
+    ]);
+
+    const data: Audit[] = [];
+    const skipped: Array<{ id: string; issues: string[] }> = [];
+    for (const row of rows as any[]) {
+      const audit = toAudit(row, row.minerResponses);
+      if (audit.success) {
+        data.push(audit.data);
+      } else {
+        skipped.push({
+          id: `${row.sessionId}${AUDIT_ID_SEPARATOR}${row.minerResponses.minerUid}`,
+          issues: audit.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`)
+        });
+      }
+    }
+    if (skipped.length > 0) console.warn(`GET /api/audits skipped ${skipped.length} malformed rows`);
+
+    res.json({
+      success: true,
+      data,
+      ...(skipped.length > 0 && { skipped }),
+      pagination: { limit, skip }
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/audits:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/audits/:auditId
+ * auditId is `<sessionId>:<minerUid>`
+ */
+api.get('/api/audits/:auditId', jsonResponse(auditResponse), readLimiter, validate({ params: auditParams }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { auditId } = req.params;
+    const sep = auditId.lastIndexOf(AUDIT_ID_SEPARATOR);
+    const sessionId = auditId.slice(0, sep);
+    const minerUid = Number(auditId.slice(sep + 1));
+
+    if (sep <= 0 || !Number.isInteger(minerUid) || minerUid < 0) {
+      res.status(400).json({ success: false, error: 'Invalid audit id' });
+      return;
+    }
+
+    const session = await ValidationSession.findOne(
+      { sessionId },
+      { sessionId: 1, projectId: 1, projectName: 1, state: 1, minerResponses: { $elemMatch: { minerUid } } }
+    ).lean();
+
+    const response = session?.minerResponses?.[0];
+    if (!session || !response) {
+      res.status(404).json({ success: false, error: 'Audit not found' });
+      return;
+    }
+
+    const audit = toAudit(session, response as MinerResponse);
+    if (!audit.success) {
+      console.error(`GET /api/audits/${auditId}: stored response does not fit AuditSchema`, audit.error.issues);
+      res.status(500).json({ success: false, error: 'Stored audit is malformed' });
+      return;
+    }
+
+    res.json({ success: true, data: audit.data });
+  } catch (error: any) {
+    console.error('Error in GET /api/audits/:auditId:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────
 // READ ENDPOINTS - EXISTING
 // ─────────────────────────────────────────────────────────────
 
-app.get('/api/validation/:sessionId', readLimiter, async (req: Request, res: Response): Promise<void> => {
+/**
+ * GET /api/validation/sessions
+ * Filterable session list, newest first, paged with an opaque cursor.
+ * Registered before /api/validation/:sessionId, which would otherwise match it.
+ */
+api.get('/api/validation/sessions', jsonResponse(sessionListResponse), readLimiter, validate({ query: listSessionsQuery }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit, cursor, state, validatorAddress, projectId, configVersion, difficulty, from, to, fields } =
+      parsedAs(listSessionsQuery, req.query);
+
+    const match: Record<string, any> = {};
+    if (state) match.state = { $in: state };
+    if (validatorAddress) match['metadata.validatorAddress'] = validatorAddress;
+    if (projectId) match.projectId = projectId;
+    if (configVersion) match['metadata.configVersion'] = configVersion;
+    if (difficulty) match['challengeInfo.difficulty'] = difficulty;
+    if (from || to) match.timestamp = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    if (cursor) {
+      match.$or = [
+        { timestamp: { $lt: cursor.timestamp } },
+        { timestamp: cursor.timestamp, sessionId: { $lt: cursor.sessionId } }
+      ];
+    }
+
+    const projection = fields
+      ? Object.fromEntries(['sessionId', 'timestamp', ...fields.flatMap(f => SESSION_LIST_FIELDS[f])].map(p => [p, 1]))
+      : { 'challengeInfo.rawData': 0, 'validationErrors.stackTrace': 0 };
+
+    // One extra row tells whether another page exists without counting the collection
+    const rows = await ValidationSession.find(match, projection)
+      .sort({ timestamp: -1, sessionId: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    const last = page[page.length - 1];
+
+    res.json({
+      success: true,
+      data: page,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? encodeSessionCursor(last) : null
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/validation/sessions:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+api.get('/api/validation/:sessionId', jsonResponse(sessionResponse), readLimiter, validate({ params: sessionParams }), async (req: Request, res: Response): Promise<void> => {
   try {
     const { sessionId } = req.params;
     const session = await ValidationSession.findOne({ sessionId });
@@ -1162,10 +6720,9 @@ app.get('/api/validation/:sessionId', readLimiter, async (req: Request, res: Res
   }
 });
 
-app.get('/api/validation/sessions/recent', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/validation/sessions/recent', jsonResponse(recentSessionsResponse), readLimiter, validate({ query: recentSessionsQuery }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
-    const skip = Math.max(parseInt(req.query.skip as string) || 0, 0);
+    const { limit, skip } = parsedAs(recentSessionsQuery, req.query);
 
     const sessions = await ValidationSession.find()
       .sort({ timestamp: -1 })
@@ -1181,9 +6738,9 @@ app.get('/api/validation/sessions/recent', readLimiter, async (req: Request, res
   }
 });
 
-app.get('/api/validation/sessions/stats', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/validation/sessions/stats', jsonResponse(sessionStatsResponse), readLimiter, validate({ query: timeRangeQuery('24h') }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { timeRange = '24h' } = req.query;
+    const { timeRange } = req.query;
     const startDate = new Date();
     if (timeRange === '7d') startDate.setDate(startDate.getDate() - 7);
     else if (timeRange === '30d') startDate.setDate(startDate.getDate() - 30);
@@ -1213,39 +6770,58 @@ app.get('/api/validation/sessions/stats', readLimiter, async (req: Request, res:
   }
 });
 
-app.get('/api/miners/:minerUid/history', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/miners/:minerUid/history', jsonResponse(minerHistoryResponse), readLimiter, validate({ params: minerParams, query: minerHistoryQuery }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const minerIdNum = parseInt(req.params.minerUid);
-    if (!isFinite(minerIdNum) || minerIdNum < 0) {
-      res.status(400).json({ success: false, error: 'Invalid minerUid' });
-      return;
-    }
-
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const { minerUid: minerIdNum } = parsedAs(minerParams, req.params);
+    const { limit, minerHotkey } = parsedAs(minerHistoryQuery, req.query);
+    const match: Record<string, any> = { minerUid: minerIdNum };
+    if (minerHotkey) match.minerHotkey = minerHotkey;
 
-    const history = await MinerHistory.find({ minerUid: minerIdNum })
+    const history = await MinerHistory.find(match)
       .sort({ timestamp: -1 })
       .limit(limit);
 
-    const stats = await MinerHistory.aggregate([
-      { $match: { minerUid: minerIdNum } },
-      {
-        $group: {
-          _id: null,
-          avgReward: { $avg: '$rewardScore' },
-          totalParticipations: { $sum: 1 },
-          successCount: { $sum: { $cond: [{ $eq: ['$status', 'success'] }, 1, 0] } },
-          failureCount: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
-          avgAccuracy: { $avg: '$accuracy' },
-          totalFindingsDiscovered: { $sum: '$findingsCount' },
-          totalCriticalFindings: { $sum: '$criticalFindingsCount' }
+    const statsGroup = {
+      avgReward: { $avg: '$rewardScore' },
+      totalParticipations: { $sum: 1 },
+      successCount: { $sum: { $cond: [{ $eq: ['$status', 'success'] }, 1, 0] } },
+      failureCount: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+      avgAccuracy: { $avg: '$accuracy' },
+      totalFindingsDiscovered: { $sum: '$findingsCount' },
+      totalCriticalFindings: { $sum: '$criticalFindingsCount' }
+    };
+
+    const [[aggregated], registrations, overallTriage, triageByHotkey] = await Promise.all([
+      MinerHistory.aggregate([
+        { $match: match },
+        {
+          $facet: {
+            overall: [{ $group: { _id: null, ...statsGroup } }, { $project: { _id: 0 } }],
+            // Rows recorded before hotkeys were tracked group under minerHotkey: null
+            periods: [
+              {
+                $group: {
+                  _id: '$minerHotkey',
+                  firstSeenAt: { $min: '$timestamp' },
+                  lastSeenAt: { $max: '$timestamp' },
+                  ...statsGroup
+                }
+              },
+              { $sort: { lastSeenAt: -1 } }
+            ]
+          }
         }
-      }
+      ]),
+      MinerRegistration.find({ minerUid: minerIdNum }, { _id: 0, __v: 0 }).sort({ startedAt: -1 }).lean(),
+      aggregateTriageStats(match, null),
+      aggregateTriageStats(match, '$minerHotkey')
     ]);
 
+    const current = registrations.find(r => r.active);
+
     res.json({
       success: true, minerUid: minerIdNum, history,
-      stats: stats[0] || { 
+      stats: aggregated?.overall[0] || {
         avgReward: 0, 
         totalParticipations: 0, 
         successCount: 0, 
@@ -1253,6 +6829,121 @@ app.get('/api/miners/:minerUid/history', readLimiter, async (req: Request, res:
         avgAccuracy: 0,
         totalFindingsDiscovered: 0,
         totalCriticalFindings: 0
+      },
+      triage: triageStatsFor(overallTriage, () => true),
+      currentHotkey: current?.hotkey ?? null,
+      periods: (aggregated?.periods ?? []).map(({ _id, ...periodStats }: any) => ({
+        minerHotkey: _id,
+        current: _id !== null && _id === current?.hotkey,
+        registrations: registrations.filter(r => r.hotkey === _id),
+        ...periodStats,
+        triage: triageStatsFor(triageByHotkey, id => (id ?? null) === _id)
+      })),
+      registrations
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/miners/:minerUid/registrations
+ * Hotkeys that have held this UID, newest first; a hotkey change marks a re-registration
+ */
+api.get('/api/miners/:minerUid/registrations', jsonResponse(minerRegistrationsResponse), readLimiter, validate({ params: minerParams }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { minerUid } = parsedAs(minerParams, req.params);
+    const registrations = await MinerRegistration.find({ minerUid }, { _id: 0, __v: 0 })
+      .sort({ startedAt: -1 })
+      .lean();
+
+    res.json({
+      success: true, minerUid,
+      currentHotkey: registrations.find(r => r.active)?.hotkey ?? null,
+      reRegistrations: Math.max(0, registrations.length - 1),
+      registrations
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/miners/:minerUid/trend
+ * Bucketed reward, accuracy, findings and execution time, with the miner's
+ * percentile rank among all miners per bucket plus streak and volatility stats
+ */
+api.get('/api/miners/:minerUid/trend', jsonResponse(minerTrendResponse), readLimiter, validate({ params: minerParams, query: timeRangeQuery('7d') }), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { minerUid } = parsedAs(minerParams, req.params);
+    const { timeRange } = parsedAs(timeRangeQuery('7d'), req.query);
+    const { since, bucketMs } = timeRangeBuckets(timeRange);
+
+    const [perMinerBuckets, rows] = await Promise.all([
+      MinerHistory.aggregate([
+        { $match: { timestamp: { $gte: since } } },
+        {
+          $group: {
+            _id: { bucket: bucketStartExpr(bucketMs), minerUid: '$minerUid' },
+            avgReward: { $avg: '$rewardScore' },
+            avgAccuracy: { $avg: '$accuracy' },
+            findingsCount: { $sum: '$findingsCount' },
+            criticalFindingsCount: { $sum: '$criticalFindingsCount' },
+            avgExecutionTime: { $avg: '$executionTime' },
+            participations: { $sum: 1 },
+            successCount: { $sum: { $cond: [{ $eq: ['$status', 'success'] }, 1, 0] } }
+          }
+        }
+      ]),
+      MinerHistory.find(
+        { minerUid, timestamp: { $gte: since } },
+        { rewardScore: 1, status: 1, timestamp: 1 }
+      ).sort({ timestamp: 1 }).lean()
+    ]);
+
+    const rewardsByBucket = new Map<number, number[]>();
+    for (const b of perMinerBuckets) {
+      const list = rewardsByBucket.get(b._id.bucket) ?? [];
+      list.push(b.avgReward ?? 0);
+      rewardsByBucket.set(b._id.bucket, list);
+    }
+
+    const series = perMinerBuckets
+      .filter((b: any) => b._id.minerUid === minerUid)
+      .sort((a: any, b: any) => a._id.bucket - b._id.bucket)
+      .map((b: any) => {
+        const bucketRewards = rewardsByBucket.get(b._id.bucket) ?? [];
+        return {
+          timestamp: new Date(b._id.bucket),
+          participations: b.participations,
+          successRate: round4(b.successCount / b.participations),
+          avgReward: round4OrNull(b.avgReward),
+          avgAccuracy: round4OrNull(b.avgAccuracy),
+          findingsCount: b.findingsCount,
+          criticalFindingsCount: b.criticalFindingsCount,
+          avgExecutionTime: round4OrNull(b.avgExecutionTime),
+          percentileRank: round4(percentileRank(b.avgReward ?? 0, bucketRewards)),
+          minersInBucket: bucketRewards.length
+        };
+      });
+
+    const rewards = rows.map((r: any) => r.rewardScore ?? 0);
+    const meanReward = rewards.length ? rewards.reduce((a: number, b: number) => a + b, 0) / rewards.length : 0;
+    const rewardStdDev = stdDev(rewards);
+
+    res.json({
+      success: true,
+      minerUid,
+      timeRange,
+      bucketMs,
+      data: series,
+      streaks: computeStreaks(rows.map((r: any) => r.status)),
+      volatility: {
+        participations: rewards.length,
+        meanReward: round4(meanReward),
+        rewardStdDev: round4(rewardStdDev),
+        coefficientOfVariation: meanReward > 0 ? round4(rewardStdDev / meanReward) : null,
+        bucketRewardStdDev: round4(stdDev(series.map(b => b.avgReward ?? 0)))
       }
     });
   } catch (error: any) {
@@ -1260,10 +6951,9 @@ app.get('/api/miners/:minerUid/history', readLimiter, async (req: Request, res:
   }
 });
 
-app.get('/api/leaderboard', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/leaderboard', jsonResponse(leaderboardResponse), readLimiter, validate({ query: leaderboardQuery }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
-    const { timeRange = '30d' } = req.query;
+    const { limit, timeRange } = parsedAs(leaderboardQuery, req.query);
 
     const startDate = new Date();
     if (timeRange === '24h') startDate.setHours(startDate.getHours() - 24);
@@ -1273,8 +6963,9 @@ app.get('/api/leaderboard', readLimiter, async (req: Request, res: Response): Pr
     const leaderboard = await MinerHistory.aggregate([
       { $match: { timestamp: { $gte: startDate } } },
       {
+        // One entry per registration period: a re-registered UID's new hotkey starts from zero
         $group: {
-          _id: '$minerUid',
+          _id: { minerUid: '$minerUid', minerHotkey: '$minerHotkey' },
           totalRewards: { $sum: '$rewardScore' },
           avgReward: { $avg: '$rewardScore' },
           participationCount: { $sum: 1 },
@@ -1288,32 +6979,48 @@ app.get('/api/leaderboard', readLimiter, async (req: Request, res: Response): Pr
       { $limit: limit }
     ]);
 
+    const minerUids = leaderboard.map((e: any) => e._id.minerUid);
+    const [activeRegistrations, triageGroups] = await Promise.all([
+      MinerRegistration.find({ active: true, minerUid: { $in: minerUids } }, { minerUid: 1, hotkey: 1 }).lean(),
+      aggregateTriageStats(
+        { minerUid: { $in: minerUids }, submittedAt: { $gte: startDate } },
+        { minerUid: '$minerUid', minerHotkey: '$minerHotkey' }
+      )
+    ]);
+    const currentHotkeys = new Map(activeRegistrations.map(r => [r.minerUid, r.hotkey]));
+
     res.json({
       success: true, timeRange,
-      leaderboard: leaderboard.map((entry: any, idx: number) => ({
-        rank: idx + 1,
-        minerUid: entry._id,
-        totalRewards: entry.totalRewards,
-        avgReward: Number(entry.avgReward?.toFixed(4)) || 0,
-        participationCount: entry.participationCount,
-        successRate: Number(((entry.successCount / entry.participationCount) * 100).toFixed(2)) + '%',
-        avgAccuracy: entry.avgAccuracy?.toFixed(4) || 'N/A',
-        findingsDiscovered: entry.totalFindingsDiscovered || 0,
-        criticalFindings: entry.totalCriticalFindings || 0
-      }))
+      leaderboard: leaderboard.map((entry: any, idx: number) => {
+        const triage = triageStatsFor(triageGroups, id =>
+          id.minerUid === entry._id.minerUid && (id.minerHotkey ?? null) === (entry._id.minerHotkey ?? null));
+        return {
+          rank: idx + 1,
+          minerUid: entry._id.minerUid,
+          minerHotkey: entry._id.minerHotkey ?? null,
+          currentHolder: entry._id.minerHotkey
+            ? currentHotkeys.get(entry._id.minerUid) === entry._id.minerHotkey
+            : null,
+          totalRewards: entry.totalRewards,
+          avgReward: Number(entry.avgReward?.toFixed(4)) || 0,
+          participationCount: entry.participationCount,
+          successRate: Number(((entry.successCount / entry.participationCount) * 100).toFixed(2)) + '%',
+          avgAccuracy: entry.avgAccuracy?.toFixed(4) || 'N/A',
+          findingsDiscovered: entry.totalFindingsDiscovered || 0,
+          criticalFindings: entry.totalCriticalFindings || 0,
+          triagedFindings: triage.triagedCount,
+          falsePositiveRate: triage.falsePositiveRate
+        };
+      })
     });
   } catch (error: any) {
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
-app.get('/api/project/:projectId/summary', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/project/:projectId/summary', jsonResponse(projectSummaryResponse), readLimiter, validate({ params: projectParams }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const projectId = safeStr(req.params.projectId, 128);
-    if (!projectId) {
-      res.status(400).json({ success: false, error: 'Invalid projectId' });
-      return;
-    }
+    const { projectId } = req.params;
 
     const sessions = await ValidationSession.find({ projectId }).sort({ timestamp: -1 })
       .select('-challengeInfo.rawData');
@@ -1349,9 +7056,9 @@ app.get('/api/project/:projectId/summary', readLimiter, async (req: Request, res
   }
 });
 
-app.get('/api/network/stats', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/network/stats', jsonResponse(networkStatsResponse), readLimiter, validate({ query: networkStatsQuery }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { window: tw = '24h' } = req.query;
+    const { window: tw } = parsedAs(networkStatsQuery, req.query);
     const since = new Date();
     if (tw === '7d') since.setDate(since.getDate() - 7);
     else if (tw === '30d') since.setDate(since.getDate() - 30);
@@ -1393,10 +7100,9 @@ app.get('/api/network/stats', readLimiter, async (req: Request, res: Response):
   }
 });
 
-app.get('/api/network/agents', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/network/agents', jsonResponse(networkAgentsResponse), readLimiter, validate({ query: networkAgentsQuery }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
-    const { timeRange = '30d' } = req.query;
+    const { limit, timeRange } = parsedAs(networkAgentsQuery, req.query);
 
     const since = new Date();
     if (timeRange === '24h') since.setHours(since.getHours() - 24);
@@ -1452,28 +7158,16 @@ app.get('/api/network/agents', readLimiter, async (req: Request, res: Response):
   }
 });
 
-app.get('/api/network/throughput', readLimiter, async (req: Request, res: Response): Promise<void> => {
+api.get('/api/network/throughput', jsonResponse(networkThroughputResponse), readLimiter, validate({ query: timeRangeQuery('7d') }), async (req: Request, res: Response): Promise<void> => {
   try {
-    const { timeRange = '7d' } = req.query;
-    const since = new Date();
-    let bucketMs: number;
-
-    if (timeRange === '24h') {
-      since.setHours(since.getHours() - 24);
-      bucketMs = 60 * 60 * 1000;
-    } else if (timeRange === '30d') {
-      since.setDate(since.getDate() - 30);
-      bucketMs = 24 * 60 * 60 * 1000;
-    } else {
-      since.setDate(since.getDate() - 7);
-      bucketMs = 6 * 60 * 60 * 1000;
-    }
+    const { timeRange } = parsedAs(timeRangeQuery('7d'), req.query);
+    const { since, bucketMs } = timeRangeBuckets(timeRange);
 
     const series = await ValidationSession.aggregate([
       { $match: { timestamp: { $gte: since }, state: 'completed' } },
       {
         $group: {
-          _id: { $subtract: [{ $toLong: '$timestamp' }, { $mod: [{ $toLong: '$timestamp' }, bucketMs] }] },
+          _id: bucketStartExpr(bucketMs),
           completedSessions: { $sum: 1 },
           avgRewardScore: { $avg: '$metrics.averageRewardScore' }
         }
@@ -1495,10 +7189,299 @@ app.get('/api/network/throughput', readLimiter, async (req: Request, res: Respon
   }
 });
 
-app.get('/api/health', (_req: Request, res: Response): void => {
+api.get('/api/health', jsonResponse(healthResponse), (_req: Request, res: Response): void => {
   res.json({ success: true, status: 'healthy', timestamp: new Date() });
 });
 
+// ─────────────────────────────────────────────────────────────
+// API DOCUMENTATION
+// ─────────────────────────────────────────────────────────────
+
+type OpenApiObject = Record<string, any>;
+
+const OPENAPI_PATH = '/api/openapi.json';
+
+// Pipes document what callers send, e.g. comma lists as strings
+const JSON_SCHEMA_OPTIONS: Partial<JsonSchemaOptions<'openApi3'>> = {
+  target: 'openApi3',
+  $refStrategy: 'none',
+  pipeStrategy: 'input'
+};
+
+const toJsonSchema = (schema: z.ZodTypeAny): OpenApiObject => {
+  const { $schema, ...rest } = zodToJsonSchema(schema, JSON_SCHEMA_OPTIONS);
+  return rest;
+};
+
+const errorResponse = (description: string): OpenApiObject => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+/**
+ * Path and query parameters straight from the route's validate() schemas.
+ */
+const toParameters = (location: 'path' | 'query', schema: z.ZodTypeAny | undefined): OpenApiObject[] => {
+  if (!schema) return [];
+  const json = toJsonSchema(schema);
+  const required: string[] = json.required ?? [];
+  return Object.entries<OpenApiObject>(json.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: property
+  }));
+};
+
+/**
+ * One operation per routeTable entry. Auth, rate limits, state guards and
+ * request schemas are read off the middleware chain itself, so the document
+ * follows whatever the routes actually enforce; the success body is the one
+ * the route was registered with.
+ */
+const describeRoute = ({ path, handles, response }: RouteEntry): OpenApiObject => {
+  const tagged = handles as any[];
+  const validator = tagged.find(h => h.schemas) as ReturnType<typeof validate> | undefined;
+  const scopeGuard = tagged.find(h => h.scopes);
+  const limiter = tagged.find(h => h.rateLimit);
+  const stateGuards = tagged.filter(h => h.requiredStates);
+  const signable = handles.includes(authenticate);
+  const keyed = signable || handles.includes(requireApiKey);
+  const isIdempotent = handles.includes(idempotent);
+
+  const operation: OpenApiObject = {
+    tags: [path.split('/')[2]],
+    parameters: [
+      ...toParameters('path', validator?.schemas.params),
+      ...toParameters('query', validator?.schemas.query),
+      ...(isIdempotent ? [{ $ref: '#/components/parameters/IdempotencyKey' }] : [])
+    ],
+    responses: {
+      [response.status]: {
+        description: ({ 200: 'Success', 201: 'Created', 202: 'Accepted' })[response.status],
+        content: {
+          [response.contentType]: { schema: response.schema ? toJsonSchema(response.schema) : { type: 'string' } }
+        }
+      },
+      500: errorResponse('Internal server error')
+    }
+  };
+
+  const notes: string[] = [];
+  if (validator?.schemas.body) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: toJsonSchema(validator.schemas.body) } }
+    };
+    notes.push(validator.mode === 'lenient'
+      ? 'Lenient body: numeric and boolean strings are coerced.'
+      : 'Strict body: no type coercion.');
+  }
+  if (validator) operation.responses[400] = { $ref: '#/components/responses/ValidationFailed' };
+
+  if (keyed) {
+    operation.security = signable
+      ? [{ ApiKey: [] }, { Hotkey: [], Signature: [], Timestamp: [], Nonce: [] }]
+      : [{ ApiKey: [] }];
+    operation.responses[401] = errorResponse('Missing, invalid or unsigned credentials');
+  }
+  if (scopeGuard) {
+    notes.push(`Requires scope: ${scopeGuard.scopes.join(' or ')}.`);
+    operation.responses[403] = errorResponse('Credentials lack the required scope or do not own the session');
+  }
+  if (stateGuards.length > 0 || isIdempotent) {
+    for (const guard of stateGuards) notes.push(`Session must be ${guard.requiredStates.join(' or ')}.`);
+    operation.responses[409] = errorResponse('Session state conflict or idempotent request still in progress');
+  }
+  if (isIdempotent) {
+    operation.responses[422] = errorResponse('Idempotency-Key reused with a different body');
+  }
+  if (limiter) {
+    notes.push(`Rate limit: ${limiter.rateLimit.max} requests per ${limiter.rateLimit.windowMs / 1000}s.`);
+    operation.responses[429] = { $ref: '#/components/responses/RateLimited' };
+  }
+
+  if (notes.length > 0) operation.description = notes.join(' ');
+  return operation;
+};
+
+let openApiDocument: OpenApiObject | undefined;
+
+/**
+ * Built on first request, once every route is registered.
+ */
+const buildOpenApiDocument = (): OpenApiObject => {
+  const paths: OpenApiObject = {};
+
+  for (const route of routeTable) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = paths[path] ?? {};
+    paths[path][route.method] = {
+      operationId: `${route.method} ${route.path}`,
+      ...describeRoute(route)
+    };
+  }
+
+  const rateLimitHeader = (description: string) => ({ description, schema: { type: 'integer' } });
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Subnet Validator Backend API',
+      version: process.env.npm_package_version || '1.0.0',
+      description: 'Generated from the request schemas the server validates with.'
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        ApiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+        Hotkey: { type: 'apiKey', in: 'header', name: 'x-hotkey', description: 'SS58 validator hotkey' },
+        Signature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-signature',
+          description: 'sr25519 signature over METHOD\\noriginalUrl\\nsha256(body)\\nx-timestamp\\nx-nonce'
+        },
+        Timestamp: { type: 'apiKey', in: 'header', name: 'x-timestamp', description: 'Unix milliseconds' },
+        Nonce: { type: 'apiKey', in: 'header', name: 'x-nonce', description: 'Single-use per hotkey' }
+      },
+      parameters: {
+        IdempotencyKey: {
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: false,
+          description: 'Replays the stored response for a repeated request with the same body',
+          schema: { type: 'string', maxLength: 255 }
+        }
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: { success: { type: 'boolean', enum: [false] }, error: { type: 'string' } },
+          required: ['success', 'error']
+        },
+        ValidationError: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', enum: [false] },
+            error: { type: 'string', enum: ['Validation failed'] },
+            details: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  location: { type: 'string', enum: ['params', 'query', 'body'] },
+                  field: { type: 'string' },
+                  reason: { type: 'string' }
+                },
+                required: ['location', 'field', 'reason']
+              }
+            }
+          },
+          required: ['success', 'error', 'details']
+        }
+      },
+      responses: {
+        ValidationFailed: {
+          description: 'One entry per invalid field',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } }
+        },
+        RateLimited: {
+          description: 'Rate limit exceeded',
+          headers: {
+            'RateLimit-Limit': rateLimitHeader('Requests allowed per window'),
+            'RateLimit-Remaining': rateLimitHeader('Requests left in the current window'),
+            'RateLimit-Reset': rateLimitHeader('Seconds until the window resets'),
+            'Retry-After': rateLimitHeader('Seconds to wait before retrying')
+          },
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+        }
+      }
+    }
+  };
+};
+
+/**
+ * GET /api/openapi.json
+ */
+api.get(OPENAPI_PATH, jsonResponse(z.record(z.unknown()).describe('This OpenAPI 3.0 document')), readLimiter, (_req: Request, res: Response): void => {
+  openApiDocument = openApiDocument ?? buildOpenApiDocument();
+  res.json(openApiDocument);
+});
+
+// Helmet's CSP allows same-origin scripts only, so the page script is served
+// separately rather than inlined.
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Subnet Validator Backend API</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2328; }
+    details { border: 1px solid #d0d7de; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 0.75rem; }
+    summary { cursor: pointer; font-family: ui-monospace, monospace; }
+    .method { display: inline-block; width: 4rem; font-weight: bold; text-transform: uppercase; }
+    .get { color: #0969da; } .post { color: #1a7f37; }
+    pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+    table { border-collapse: collapse; font-size: 0.9rem; }
+    td, th { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; text-align: left; }
+  </style>
+</head>
+<body>
+  <h1>Subnet Validator Backend API</h1>
+  <p>Raw document: <a href="${OPENAPI_PATH}">${OPENAPI_PATH}</a></p>
+  <div id="operations">Loading…</div>
+  <script src="/api/docs/app.js"></script>
+</body>
+</html>`;
+
+const DOCS_SCRIPT = `(async () => {
+  const root = document.getElementById('operations');
+  const spec = await (await fetch('${OPENAPI_PATH}')).json();
+  const el = (tag, attrs, ...children) => {
+    const node = Object.assign(document.createElement(tag), attrs);
+    node.append(...children);
+    return node;
+  };
+  const json = (value) => el('pre', {}, JSON.stringify(value, null, 2));
+  const resolve = (obj) => obj && obj.$ref
+    ? obj.$ref.split('/').slice(1).reduce((acc, key) => acc[key], spec)
+    : obj;
+  root.textContent = '';
+  for (const [path, ops] of Object.entries(spec.paths)) {
+    for (const [method, op] of Object.entries(ops)) {
+      const body = el('div', {});
+      if (op.description) body.append(el('p', {}, op.description));
+      if (op.security) {
+        body.append(el('p', {}, 'Auth: ' + op.security.map(s => Object.keys(s).map(k => spec.components.securitySchemes[k].name).join(' + ')).join(' or ')));
+      }
+      const params = (op.parameters || []).map(resolve);
+      if (params.length) {
+        const table = el('table', {}, el('tr', {}, el('th', {}, 'name'), el('th', {}, 'in'), el('th', {}, 'required'), el('th', {}, 'schema')));
+        for (const p of params) {
+          table.append(el('tr', {}, el('td', {}, p.name), el('td', {}, p.in), el('td', {}, String(!!p.required)), el('td', {}, JSON.stringify(p.schema))));
+        }
+        body.append(el('h4', {}, 'Parameters'), table);
+      }
+      if (op.requestBody) body.append(el('h4', {}, 'Request body'), json(op.requestBody.content['application/json'].schema));
+      body.append(el('h4', {}, 'Responses'), el('p', {}, Object.keys(op.responses).join(', ')));
+      root.append(el('details', {}, el('summary', {}, el('span', { className: 'method ' + method }, method), path), body));
+    }
+  }
+})();`;
+
+/**
+ * GET /api/docs
+ * Browsable view of the OpenAPI document
+ */
+api.get('/api/docs', textResponse('text/html'), readLimiter, (_req: Request, res: Response): void => {
+  res.type('html').send(DOCS_PAGE);
+});
+
+api.get('/api/docs/app.js', textResponse('application/javascript'), readLimiter, (_req: Request, res: Response): void => {
+  res.type('application/javascript').send(DOCS_SCRIPT);
+});
+
 // =====================
 // ERROR HANDLING
 // =====================
@@ -1519,6 +7502,7 @@ app.use((req: Request, res: Response): void => {
 
 const connectDB = async (): Promise<void> => {
   try {
+    await cryptoWaitReady();
     await mongoose.connect(process.env.MONGO_URI!);
     console.log('✓ Connected to MongoDB');
   } catch (error) {
@@ -1529,11 +7513,20 @@ const connectDB = async (): Promise<void> => {
 
 const PORT = process.env.PORT || 5000;
 
-connectDB().then(() => {
-  app.listen(PORT, () => {
-    console.log(`✓ Server running on port ${PORT} [${process.env.NODE_ENV || 'development'}]`);
+// Tests drive the exported app directly, without a database or timers
+if (process.env.NODE_ENV !== 'test') {
+  connectDB().then(() => {
+    // Serverless instances are frozen between requests; /api/cron/* runs these there
+    if (!IS_SERVERLESS) {
+      startReaper();
+      startWebhookWorker();
+      startReindexWorker();
+    }
+    app.listen(PORT, () => {
+      console.log(`✓ Server running on port ${PORT} [${process.env.NODE_ENV || 'development'}]`);
+    });
   });
-});
+}
 
 process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
   console.error('Unhandled Rejection at:', promise, 'reason:', reason);
@@ -1541,6 +7534,9 @@ process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
 
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received — shutting down');
+  clearInterval(reaperTimer);
+  clearInterval(webhookTimer);
+  clearInterval(reindexTimer);
   await mongoose.disconnect();
   process.exit(0);
 });
@@ -0,0 +1,155 @@
+/**
+ * Domain types shared by the server and the client SDK (src/client).
+ */
+
+export type SessionState = 'pending' | 'in-progress' | 'completed' | 'failed';
+
+export interface AgentFinding {
+  id: string;
+  title: string;
+  severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  description?: string;
+  codeLocation?: string;
+  line?: number;
+  impact?: string;
+  remediation?: string;
+  confidenceScore?: number;
+}
+
+export interface AgentFindingsData {
+  findingsCount: number;
+  criticalCount: number;
+  highCount: number;
+  mediumCount: number;
+  lowCount: number;
+  infoCount?: number;
+  findings: AgentFinding[];
+}
+
+export interface GroundTruthVulnerability {
+  id: string;
+  title: string;
+  severity: AgentFinding['severity'];
+  codeLocation?: string;
+  description?: string;
+}
+
+export interface GroundTruthEvaluation {
+  groundTruthVersion: number;
+  truePositives: number;
+  falsePositives: number;
+  missedFindings: string[];
+  matches: Array<{ findingId: string; groundTruthId: string; similarity: number }>;
+  precision: number;
+  recall: number;
+  f1: number;
+  evaluatedAt: Date;
+}
+
+export interface ComputedReward {
+  policyVersion: string;
+  score: number;
+  breakdown: Record<string, number>;
+  submittedScore: number;
+  delta: number;
+  flagged: boolean;
+  computedAt: Date;
+}
+
+export interface MinerResponse {
+  minerUid: number;
+  minerHotkey?: string;
+  githubUrl?: string;
+  responseTime?: number;
+  success: boolean;
+  errorMessage?: string;
+  timestamp: Date;
+  agentPerformance?: {
+    executionTime?: number;
+    findingsCount?: number;
+    accuracy?: number;
+    reportedAccuracy?: number;
+    completionStatus?: string;
+  };
+  agentFindings?: AgentFindingsData;
+  groundTruthEvaluation?: GroundTruthEvaluation;
+  rewardScore?: number;
+  rewardReason?: string;
+  computedReward?: ComputedReward;
+}
+
+export interface ChallengeInfo {
+  projectId: string;
+  description?: string;
+  difficulty?: string;
+  createdAt: Date;
+  rawData?: Record<string, any>;
+}
+
+export interface SubnetSnapshot {
+  netuid: number;
+  block: number;
+  epoch?: number;
+  validatorStake?: number;
+  activeValidators: number;
+  activeMiners: number;
+  totalStake: number;
+  emissionPerBlock: number;
+  timestamp: Date;
+}
+
+export interface ValidationMetrics {
+  totalQueryTime?: number;
+  averageRewardScore?: number;
+  successRate?: number;
+  failureCount?: number;
+  validFindings?: number;
+}
+
+export interface ValidationSession {
+  sessionId: string;
+  timestamp: Date;
+  projectId?: string;
+  projectName?: string;
+  state: SessionState;
+  stateHistory: Array<{
+    from?: SessionState;
+    to: SessionState;
+    reason?: string;
+    timestamp: Date;
+  }>;
+  sampledMinerCount: number;
+  sampledMinerUids: number[];
+  challengeInfo: ChallengeInfo;
+  minerResponses: MinerResponse[];
+  computedRewards: Array<{
+    minerUid: number;
+    score: number;
+    timestamp: Date;
+    computedScore?: number;
+    policyVersion?: string;
+    flagged?: boolean;
+  }>;
+  metrics: ValidationMetrics;
+  subnetSnapshot: SubnetSnapshot;
+  validationErrors: Array<{
+    stage: string;
+    message: string;
+    timestamp: Date;
+    stackTrace?: string;
+  }>;
+  metadata: {
+    validatorAddress?: string;
+    configVersion?: string;
+    remarks?: string;
+  };
+}
+
+/**
+ * JSON shape of a server type: Dates arrive as ISO strings.
+ */
+export type Wire<T> =
+  T extends Date ? string
+    : T extends Array<infer U> ? Array<Wire<U>>
+      : T extends object ? { [K in keyof T]: Wire<T[K]> }
+        : T;
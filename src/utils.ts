@@ -1,9 +1,9 @@
-import { z } from "zod";
+import { z } from "zod/v3";
 
 export const AuditSchema = z.object({
   id: z.string(),
   created_at: z.number(),
-  miner_hotkey: z.string(),
+  miner_hotkey: z.string().nullable(),
   name: z.string(),
   score: z.number().min(0).max(1),
   status: z.string(),
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import { createHash } from 'crypto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, TestSigner, createSigner, model, stubQuery, stubResolve, stubSave } from './helpers';
+
+const START = '/api/validation/start';
+const body = { sampledMinerUids: [1] };
+
+describe('signer scopes come from the registry', () => {
+  let signer: TestSigner;
+
+  beforeAll(async () => {
+    signer = await createSigner();
+  });
+
+  it('forbids session writes when the hotkey only holds reward-write keys', async () => {
+    stubQuery('ApiKey', 'find', [{ scopes: ['reward-write'] }]);
+    stubResolve('UsedNonce', 'create', {});
+
+    const res = await request(app).post(START).set(signer.sign('POST', START, body)).send(body);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toMatch(/missing scope session-write/);
+  });
+
+  it('unions the scopes of every active key bound to the hotkey', async () => {
+    const find = stubQuery('ApiKey', 'find', [{ scopes: ['reward-write'] }, { scopes: ['session-write'] }]);
+    stubResolve('UsedNonce', 'create', {});
+    stubSave('ValidationSession');
+
+    const res = await request(app).post(START).set(signer.sign('POST', START, body)).send(body);
+
+    expect(res.status).toBe(201);
+    expect(find.mock.calls[0][0]).toMatchObject({ validatorAddress: signer.hotkey, revokedAt: { $exists: false } });
+  });
+});
+
+describe('registry keys', () => {
+  it('issues a key whose hash, not plaintext, is stored', async () => {
+    const create = vi.spyOn(model('ApiKey'), 'create').mockImplementation(async (doc: any) => doc);
+
+    const res = await request(app).post('/api/admin/keys').set('x-api-key', ADMIN_KEY)
+      .send({ validatorAddress: '5Validator', scopes: ['session-write', 'session-write'] });
+
+    expect(res.status).toBe(201);
+    const stored = create.mock.calls[0][0] as any;
+    expect(stored.keyHash).toBe(createHash('sha256').update(res.body.key).digest('hex'));
+    expect(JSON.stringify(stored)).not.toContain(res.body.key);
+    expect(stored.scopes).toEqual(['session-write']);
+  });
+
+  it('rejects keys the registry does not return as active', async () => {
+    stubQuery('ApiKey', 'findOne', null);
+
+    const res = await request(app).post(START).set('x-api-key', 'svk_revoked').send(body);
+
+    expect(res.status).toBe(401);
+  });
+
+  it('keeps admin routes closed to non-admin keys', async () => {
+    stubQuery('ApiKey', 'findOne', { keyId: 'k1', validatorAddress: '5V', scopes: ['session-write'] });
+    stubResolve('ApiKey', 'updateOne', {});
+
+    const res = await request(app).post('/api/admin/keys').set('x-api-key', 'svk_writer')
+      .send({ scopes: ['admin'] });
+
+    expect(res.status).toBe(403);
+  });
+});
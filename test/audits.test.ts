@@ -0,0 +1,74 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { AuditSchema } from '../src/utils';
+import { stubQuery, stubResolve } from './helpers';
+
+const finding = { id: 'F1', title: 'Reentrancy', severity: 'critical', line: 42, remediation: 'Use a guard' };
+const response = (minerUid: number, extra: Record<string, unknown> = {}) => ({
+  minerUid,
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  success: true,
+  rewardScore: 0.6,
+  agentFindings: { findings: [finding] },
+  ...extra
+});
+const row = (minerUid: number, extra?: Record<string, unknown>) =>
+  ({ sessionId: 'sess-1', projectId: 'proj', minerResponses: response(minerUid, extra) });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('audit projection', () => {
+  it('maps a stored response onto AuditSchema', async () => {
+    stubResolve('ValidationSession', 'aggregate', [row(3, { minerHotkey: '5Miner' })]);
+
+    const res = await request(app).get('/api/audits');
+
+    expect(res.status).toBe(200);
+    const [audit] = res.body.data;
+    expect(AuditSchema.parse(audit)).toEqual(audit);
+    expect(audit).toMatchObject({
+      id: 'sess-1:3',
+      miner_hotkey: '5Miner',
+      score: 0.6,
+      findings_count: { critical: 1, high: 0 },
+      vulnerabilities: [{ id: 'F1', line: 42, recommendation: 'Use a guard' }]
+    });
+  });
+
+  it('reports a missing hotkey as null, not as the uid', async () => {
+    stubResolve('ValidationSession', 'aggregate', [row(3)]);
+
+    const res = await request(app).get('/api/audits');
+
+    expect(res.body.data[0].miner_hotkey).toBeNull();
+  });
+
+  it('skips and reports rows that do not fit the schema', async () => {
+    stubResolve('ValidationSession', 'aggregate', [row(1), row(2, { rewardScore: 7 }), row(3)]);
+
+    const res = await request(app).get('/api/audits');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((a: any) => a.id)).toEqual(['sess-1:1', 'sess-1:3']);
+    expect(res.body.skipped).toEqual([{ id: 'sess-1:2', issues: [expect.stringMatching(/^score:/)] }]);
+  });
+
+  it('looks a single audit up by session and uid', async () => {
+    stubQuery('ValidationSession', 'findOne', { sessionId: 'sess:with:colons', minerResponses: [response(9)] });
+
+    const res = await request(app).get('/api/audits/sess:with:colons:9');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.id).toBe('sess:with:colons:9');
+  });
+
+  it('rejects an id without a uid', async () => {
+    const res = await request(app).get('/api/audits/sess-1:abc');
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { ValidatorApiError, ValidatorClient } from '../src/client';
+
+const reply = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+/**
+ * Fake fetch answering with `replies` in order and recording what was sent.
+ */
+const fakeFetch = (...replies: Response[]) => {
+  const calls: Array<{ url: string; method: string; headers: Record<string, string>; body?: string }> = [];
+  const fetch = vi.fn(async (url: string, init: RequestInit) => {
+    calls.push({ url, method: init.method!, headers: init.headers as Record<string, string>, body: init.body as string });
+    return replies.shift() ?? reply(500, { success: false, error: 'no reply queued' });
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, calls };
+};
+
+const clientWith = (fetch: typeof globalThis.fetch, options: Partial<ConstructorParameters<typeof ValidatorClient>[0]> = {}) =>
+  new ValidatorClient({ baseUrl: 'http://backend.test/', apiKey: 'key', retryDelayMs: 0, fetch, ...options });
+
+describe('ValidatorClient', () => {
+  it('retries a failed write with the same Idempotency-Key', async () => {
+    const { fetch, calls } = fakeFetch(
+      reply(503, { success: false, error: 'unavailable' }),
+      reply(201, { success: true, message: 'Validation session started', sessionId: 's1', timestamp: '2026-01-01T00:00:00Z' })
+    );
+
+    const result = await clientWith(fetch).startSession({ sampledMinerUids: [1, 2] });
+
+    expect(result.sessionId).toBe('s1');
+    expect(calls).toHaveLength(2);
+    expect(calls[0].url).toBe('http://backend.test/api/validation/start');
+    expect(calls[0].headers['Idempotency-Key']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(calls[1].headers['Idempotency-Key']).toBe(calls[0].headers['Idempotency-Key']);
+  });
+
+  it('surfaces validation failures without retrying', async () => {
+    const details = [{ location: 'body', field: 'sampledMinerUids', reason: 'Required' }];
+    const { fetch, calls } = fakeFetch(reply(400, { success: false, error: 'Validation failed', details }));
+
+    const error = await clientWith(fetch).startSession({} as never).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidatorApiError);
+    expect(error.status).toBe(400);
+    expect(error.details).toEqual(details);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('reports a non-JSON error page with its status once retries run out', async () => {
+    const page = () => new Response('<html>502 Bad Gateway</html>', {
+      status: 502, statusText: 'Bad Gateway', headers: { 'Content-Type': 'text/html' }
+    });
+    const { fetch, calls } = fakeFetch(page(), page());
+
+    const error = await clientWith(fetch, { retries: 1 }).getSession('s1').catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidatorApiError);
+    expect(error.status).toBe(502);
+    expect(error.message).toBe('Bad Gateway');
+    expect(error.body).toBe('<html>502 Bad Gateway</html>');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('waits out Retry-After on reads and unwraps data', async () => {
+    const { fetch, calls } = fakeFetch(
+      reply(429, { success: false, error: 'Too many requests' }, { 'Retry-After': '0' }),
+      reply(200, { success: true, data: { sessionId: 's1', timestamp: '2026-01-01T00:00:00Z' } })
+    );
+
+    const session = await clientWith(fetch).getSession('s 1');
+
+    expect(session.sessionId).toBe('s1');
+    expect(calls.map(c => c.url)).toEqual(Array(2).fill('http://backend.test/api/validation/s%201'));
+  });
+
+  it('signs the canonical request string with the hotkey instead of sending the API key', async () => {
+    const sign = vi.fn((_message: string) => '0xsig');
+    const { fetch, calls } = fakeFetch(reply(200, { success: true, message: 'Error logged' }));
+    const body = { stage: 'miner-query' as const, message: 'timeout' };
+
+    await clientWith(fetch, { signer: { hotkey: '5Hotkey', sign } }).reportError('s1', body);
+
+    const [method, path, bodyHash, timestamp, nonce] = sign.mock.calls[0][0].split('\n');
+    expect([method, path]).toEqual(['POST', '/api/validation/s1/error']);
+    expect(bodyHash).toBe(createHash('sha256').update(JSON.stringify(body)).digest('hex'));
+    expect(calls[0].headers).toMatchObject({
+      'x-hotkey': '5Hotkey',
+      'x-signature': '0xsig',
+      'x-timestamp': timestamp,
+      'x-nonce': nonce
+    });
+    expect(calls[0].headers['x-api-key']).toBeUndefined();
+  });
+});
+
+describe('SessionHandle', () => {
+  const begin = async (...replies: Response[]) => {
+    const { fetch, calls } = fakeFetch(
+      reply(201, { success: true, message: 'Validation session started', sessionId: 's1', timestamp: '2026-01-01T00:00:00Z' }),
+      ...replies
+    );
+    const session = await clientWith(fetch).beginSession({ validatorAddress: '5Validator', sampledMinerUids: [1] });
+    return { session, calls };
+  };
+
+  it('carries the validator address on every write, including fail', async () => {
+    const { session, calls } = await begin(
+      reply(200, { success: true, message: 'Validation session failed', sessionId: 's1', reason: 'no miners' })
+    );
+
+    await session.fail('no miners');
+
+    expect(calls[1].url).toBe('http://backend.test/api/validation/s1/fail');
+    expect(JSON.parse(calls[1].body!)).toEqual({ validatorAddress: '5Validator', reason: 'no miners' });
+    expect(session.currentStage).toBe('failed');
+  });
+
+  it('refuses out-of-order calls before they reach the server', async () => {
+    const { session, calls } = await begin();
+
+    expect(() => session.minerResponse({ minerUid: 1 })).toThrow('Session s1 is started; expected challenged');
+    await expect(session.complete()).rejects.toThrow('expected challenged');
+    expect(calls).toHaveLength(1);
+  });
+});
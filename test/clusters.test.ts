@@ -0,0 +1,56 @@
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../src/server';
+import { stubQuery } from './helpers';
+
+const URL = '/api/validation/sess-1/clusters';
+
+const reentrancy = { id: 'F1', title: 'Reentrancy in withdraw', severity: 'critical', codeLocation: 'contracts/Vault.sol:42' };
+const overflow = { id: 'F1', title: 'Unchecked math in fee calculation', severity: 'low', codeLocation: 'contracts/Fees.sol:7' };
+
+const response = (minerUid: number, minute: number, findings: unknown[]) => ({
+  minerUid,
+  timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+  agentFindings: { findings }
+});
+
+const clustersFor = async (responses: unknown[]) => {
+  stubQuery('ValidationSession', 'findOne', { projectId: 'p', timestamp: new Date(), minerResponses: responses });
+  const res = await request(app).get(URL);
+  expect(res.status).toBe(200);
+  return res.body.data.clusters as Array<{ clusterId: string; title: string; minerUids: number[] }>;
+};
+
+describe('finding clusters', () => {
+  it('groups the same issue across miners', async () => {
+    const clusters = await clustersFor([
+      response(1, 0, [reentrancy]),
+      response(2, 1, [{ ...reentrancy, id: 'X9' }])
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].minerUids).toEqual([1, 2]);
+  });
+
+  it('gives distinct ids to distinct clusters even when a miner reuses a finding id', async () => {
+    const clusters = await clustersFor([response(1, 0, [reentrancy, overflow])]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].clusterId).not.toBe(clusters[1].clusterId);
+  });
+
+  it('keeps an id while membership is unchanged and changes it when a report joins', async () => {
+    const before = await clustersFor([response(1, 0, [reentrancy]), response(2, 1, [overflow])]);
+    const again = await clustersFor([response(2, 1, [overflow]), response(1, 0, [reentrancy])]);
+    const after = await clustersFor([
+      response(1, 0, [reentrancy]),
+      response(2, 1, [overflow]),
+      response(3, 2, [{ ...reentrancy, id: 'R3' }])
+    ]);
+
+    const idOf = (clusters: typeof before, title: string) => clusters.find(c => c.title === title)?.clusterId;
+    expect(idOf(again, reentrancy.title)).toBe(idOf(before, reentrancy.title));
+    expect(idOf(after, overflow.title)).toBe(idOf(before, overflow.title));
+    expect(idOf(after, reentrancy.title)).not.toBe(idOf(before, reentrancy.title));
+  });
+});
@@ -0,0 +1,91 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery } from './helpers';
+
+const COMPUTE = '/api/consensus/7/12/compute';
+
+const session = (validatorAddress: string, scores: Record<number, number>) => ({
+  sessionId: `s-${validatorAddress}`,
+  metadata: { validatorAddress },
+  computedRewards: Object.entries(scores).map(([uid, score]) => ({ minerUid: Number(uid), score }))
+});
+
+/** Runs a compute pass; the stored ConsensusResult $set is echoed back as the response data */
+const compute = async (sessions: unknown[], metagraph: unknown) => {
+  stubQuery('ValidationSession', 'find', sessions);
+  stubQuery('MetagraphSnapshot', 'findOne', metagraph);
+  vi.spyOn(model('ConsensusResult'), 'findOneAndUpdate').mockImplementation((_f: any, update: any) => query(update.$set));
+  const res = await request(app).post(COMPUTE).set('x-api-key', ADMIN_KEY);
+  expect(res.status).toBe(200);
+  return res.body.data;
+};
+
+const validator = (data: any, address: string) => data.validators.find((v: any) => v.validatorAddress === address);
+
+describe('stake-weighted consensus', () => {
+  it('weights validators by metagraph stake', async () => {
+    const data = await compute(
+      [session('A', { 1: 1 }), session('B', { 1: 0 })],
+      { block: 4320, stakes: [{ hotkey: 'A', stake: 300 }, { hotkey: 'B', stake: 100 }] }
+    );
+
+    expect(data.stakeSource).toBe('metagraph');
+    expect(data.metagraphBlock).toBe(4320);
+    expect(data.totalStake).toBe(400);
+    expect(data.miners[0].consensusScore).toBe(0.75);
+    expect(validator(data, 'A').stakeWeight).toBe(0.75);
+  });
+
+  it('reports validators missing from the metagraph instead of silently zero-weighting them', async () => {
+    const data = await compute(
+      [session('A', { 1: 0.5 }), session('Ghost', { 1: 1, 2: 1 }), session('Idle', { 1: 1 })],
+      { stakes: [{ hotkey: 'A', stake: 50 }, { hotkey: 'Idle', stake: 0 }] }
+    );
+
+    expect(validator(data, 'Ghost')).toMatchObject({ stake: null, stakeWeight: 0, excluded: 'not-in-metagraph' });
+    expect(validator(data, 'Idle')).toMatchObject({ stake: 0, excluded: 'zero-stake' });
+    expect(data.miners.map((m: any) => m.minerUid)).toEqual([1]);
+    expect(data.miners[0].consensusScore).toBe(0.5);
+  });
+
+  it('falls back to equal weights, labelled as such, when no metagraph was uploaded', async () => {
+    const data = await compute([session('A', { 1: 1 }), session('B', { 1: 0 })], null);
+
+    expect(data.stakeSource).toBe('equal');
+    expect(data.miners[0].consensusScore).toBe(0.5);
+    expect(validator(data, 'A')).toMatchObject({ stake: null, stakeWeight: 0.5 });
+  });
+
+  it('flags a validator that deviates from the others', async () => {
+    const agreeing = ['A', 'B', 'D', 'E', 'F'];
+    const data = await compute(
+      [...agreeing.map(v => session(v, { 1: 0.8, 2: 0.2 })), session('C', { 1: 0.5, 2: 0.5 })],
+      { stakes: [...agreeing, 'C'].map(hotkey => ({ hotkey, stake: 1 })) }
+    );
+
+    expect(validator(data, 'C').outlier).toBe(true);
+    expect(validator(data, 'A').outlier).toBe(false);
+  });
+});
+
+describe('metagraph upload', () => {
+  const URL = '/api/consensus/7/12/metagraph';
+
+  it('stores the stake table for the epoch', async () => {
+    const upsert = vi.spyOn(model('MetagraphSnapshot'), 'findOneAndUpdate').mockImplementation(() => query({ block: 10 }));
+
+    const res = await request(app).post(URL).set('x-api-key', ADMIN_KEY)
+      .send({ block: 10, stakes: [{ hotkey: 'A', stake: 5 }] });
+
+    expect(res.status).toBe(200);
+    expect(upsert.mock.calls[0][0]).toEqual({ netuid: 7, epoch: 12 });
+  });
+
+  it('rejects duplicate hotkeys', async () => {
+    const res = await request(app).post(URL).set('x-api-key', ADMIN_KEY)
+      .send({ stakes: [{ hotkey: 'A', stake: 5 }, { hotkey: 'A', stake: 6 }] });
+
+    expect(res.status).toBe(400);
+  });
+});
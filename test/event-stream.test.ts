@@ -0,0 +1,106 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery, stubResolve } from './helpers';
+
+const STREAM = '/api/events/stream';
+let server: http.Server;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+interface Stream {
+  status: number;
+  next: (pattern: RegExp) => Promise<string>;
+  close: () => void;
+}
+
+/** Opens a raw SSE connection; `next` resolves with the buffered text once it matches */
+const open = (headers: Record<string, string>, path = STREAM): Promise<Stream> =>
+  new Promise((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const req = http.get({ port, path, headers }, res => {
+      let text = '';
+      const waiters: Array<() => void> = [];
+      res.setEncoding('utf8');
+      res.on('data', chunk => {
+        text += chunk;
+        waiters.splice(0).forEach(wake => wake());
+      });
+      resolve({
+        status: res.statusCode!,
+        next: pattern => new Promise(found => {
+          const check = () => (pattern.test(text) ? found(text) : waiters.push(check));
+          check();
+        }),
+        close: () => req.destroy()
+      });
+    });
+    req.on('error', reject);
+  });
+
+const asValidator = (validatorAddress?: string) => {
+  stubQuery('ApiKey', 'findOne', { keyId: `key-${validatorAddress}`, validatorAddress, scopes: ['session-write'] });
+  stubResolve('ApiKey', 'updateOne', {});
+  return { 'x-api-key': 'svk_validator' };
+};
+
+describe('live event stream', () => {
+  it('requires an API key', async () => {
+    const stream = await open({});
+
+    expect(stream.status).toBe(401);
+  });
+
+  it('refuses keys that are neither admin nor bound to a validator', async () => {
+    const stream = await open(asValidator(undefined));
+
+    expect(stream.status).toBe(403);
+  });
+
+  it("refuses a validator key asking for another validator's events", async () => {
+    const stream = await open(asValidator('5Alice'), `${STREAM}?validatorAddress=5Bob`);
+
+    expect(stream.status).toBe(403);
+  });
+
+  it('caps concurrent streams per key and frees the slot on disconnect', async () => {
+    const headers = asValidator('5Alice');
+    const streams = await Promise.all(Array.from({ length: 5 }, () => open(headers)));
+    expect(streams.map(s => s.status)).toEqual([200, 200, 200, 200, 200]);
+
+    const rejected = await open(headers);
+    expect(rejected.status).toBe(429);
+
+    streams[0].close();
+    await vi.waitFor(async () => {
+      const retry = await open(headers);
+      retry.close();
+      expect(retry.status).toBe(200);
+    });
+    streams.forEach(s => s.close());
+  });
+
+  it("delivers only the bound validator's events", async () => {
+    const stream = await open(asValidator('5Alice'));
+    vi.spyOn(model('ValidationSession'), 'findOne').mockImplementation((filter: any) =>
+      query({ metadata: { validatorAddress: filter.sessionId === 'alice-1' ? '5Alice' : '5Bob' }, state: 'in-progress' }));
+    stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+
+    for (const [sessionId, validatorAddress] of [['bob-1', '5Bob'], ['alice-1', '5Alice']]) {
+      await request(app).post(`/api/validation/${sessionId}/error`).set('x-api-key', ADMIN_KEY)
+        .send({ validatorAddress, stage: 'miner-query', message: 'timeout' });
+    }
+
+    const text = await stream.next(/event: error\.logged/);
+    stream.close();
+    expect(text).toContain('"sessionId":"alice-1"');
+    expect(text).not.toContain('bob-1');
+  });
+});
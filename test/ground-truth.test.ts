@@ -0,0 +1,83 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { model, stubQuery, stubResolve } from './helpers';
+
+const URL = '/api/ground-truth/proj-1';
+const vulnerabilities = [{ id: 'GT-1', title: 'Reentrancy in withdraw', severity: 'critical', codeLocation: 'Vault.sol:42' }];
+
+const withKey = (scopes: string[]) => {
+  stubQuery('ApiKey', 'findOne', { keyId: 'k1', validatorAddress: '5Validator', scopes });
+  stubResolve('ApiKey', 'updateOne', {});
+};
+
+const response = (minerUid: number, title?: string) => ({
+  minerUid,
+  agentFindings: { findings: title ? [{ title, severity: 'critical', location: 'Vault.sol:42' }] : [] }
+});
+
+describe('ground truth access', () => {
+  it('is closed to validators holding only session-write', async () => {
+    withKey(['session-write']);
+
+    const read = await request(app).get(URL).set('x-api-key', 'svk_validator');
+    const write = await request(app).post(URL).set('x-api-key', 'svk_validator').send({ vulnerabilities });
+
+    expect(read.status).toBe(403);
+    expect(write.status).toBe(403);
+    expect(read.body.error).toBe('Forbidden: missing scope ground-truth or admin');
+  });
+
+  it('is open to the ground-truth scope', async () => {
+    withKey(['ground-truth']);
+    stubQuery('GroundTruth', 'findOne', { projectId: 'proj-1', version: 1, vulnerabilities });
+
+    const res = await request(app).get(URL).set('x-api-key', 'svk_curator');
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('re-scoring on upload', () => {
+  it('pages through every session and addresses responses by minerUid', async () => {
+    withKey(['ground-truth']);
+    stubResolve('GroundTruth', 'findOneAndUpdate', { version: 2, vulnerabilities });
+    const sessions = Array.from({ length: 250 }, (_, i) => ({
+      sessionId: `s-${i}`,
+      minerResponses: [response(7, 'Reentrancy in withdraw')]
+    }));
+    stubQuery('ValidationSession', 'find', sessions);
+    const sessionWrites = vi.spyOn(model('ValidationSession'), 'bulkWrite').mockResolvedValue({} as never);
+    vi.spyOn(model('MinerHistory'), 'bulkWrite').mockResolvedValue({} as never);
+
+    const res = await request(app).post(URL).set('x-api-key', 'svk_curator').send({ vulnerabilities });
+
+    expect(res.status).toBe(200);
+    expect(res.body.rescoredResponses).toBe(250);
+    expect(sessionWrites).toHaveBeenCalledTimes(2);
+    const op = (sessionWrites.mock.calls[0][0] as any[])[0].updateOne;
+    expect(op.arrayFilters).toEqual([{ 'r.minerUid': 7 }]);
+    expect(Object.keys(op.update.$set)).toEqual([
+      'minerResponses.$[r].groundTruthEvaluation',
+      'minerResponses.$[r].agentPerformance.accuracy'
+    ]);
+  });
+
+  it('scores each miner against its own findings', async () => {
+    withKey(['admin']);
+    stubResolve('GroundTruth', 'findOneAndUpdate', { version: 3, vulnerabilities });
+    stubQuery('ValidationSession', 'find', [{ sessionId: 's-1', minerResponses: [response(1), response(2, 'Reentrancy in withdraw')] }]);
+    const sessionWrites = vi.spyOn(model('ValidationSession'), 'bulkWrite').mockResolvedValue({} as never);
+    vi.spyOn(model('MinerHistory'), 'bulkWrite').mockResolvedValue({} as never);
+
+    await request(app).post(URL).set('x-api-key', 'svk_admin').send({ vulnerabilities });
+
+    const accuracy = (sessionWrites.mock.calls[0][0] as any[]).map(o => [
+      o.updateOne.arrayFilters[0]['r.minerUid'],
+      o.updateOne.update.$set['minerResponses.$[r].agentPerformance.accuracy']
+    ]);
+    expect(accuracy[0]).toEqual([1, 0]);
+    expect(accuracy[1][0]).toBe(2);
+    expect(accuracy[1][1]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import { vi } from 'vitest';
+import { cryptoWaitReady, encodeAddress, sr25519PairFromSeed, sr25519Sign } from '@polkadot/util-crypto';
+import { u8aToHex } from '@polkadot/util';
+import { createHash, randomBytes } from 'crypto';
+
+export const ADMIN_KEY = 'test-admin-key';
+
+export const model = (name: string): any => mongoose.model(name);
+
+/**
+ * Stand-in for a mongoose Query: every chained call (sort, limit, lean, ...)
+ * returns the same object, and awaiting it yields `result`. Iterating it with
+ * `for await`, as a `.cursor()`, yields the elements of an array result.
+ */
+export const query = <T>(result: T): any => {
+  const chain: any = new Proxy({}, {
+    get: (_target, prop) => {
+      if (prop === 'then') return (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+      if (prop === 'exec') return () => Promise.resolve(result);
+      if (prop === Symbol.asyncIterator) {
+        return async function* iterate() { yield* (result as unknown[]); };
+      }
+      return () => chain;
+    }
+  });
+  return chain;
+};
+
+/** Stubs a static model method; the stub returns a chainable query resolving to `result` */
+export const stubQuery = (modelName: string, method: string, result: unknown) =>
+  vi.spyOn(model(modelName), method).mockImplementation(() => query(result));
+
+/** Stubs a static model method with a plain async result */
+export const stubResolve = (modelName: string, method: string, result: unknown) =>
+  vi.spyOn(model(modelName), method).mockResolvedValue(result as never);
+
+export interface TestSigner {
+  hotkey: string;
+  sign: (method: string, url: string, body?: unknown) => Record<string, string>;
+}
+
+/**
+ * sr25519 keypair that signs requests the way validators do: METHOD, URL,
+ * sha256(body), timestamp and nonce joined by newlines.
+ */
+export const createSigner = async (seed = randomBytes(32)): Promise<TestSigner> => {
+  await cryptoWaitReady();
+  const pair = sr25519PairFromSeed(seed);
+  const hotkey = encodeAddress(pair.publicKey, 42);
+  return {
+    hotkey,
+    sign: (method, url, body) => {
+      const raw = body === undefined ? '' : JSON.stringify(body);
+      const timestamp = String(Date.now());
+      const nonce = randomBytes(12).toString('hex');
+      const bodyHash = createHash('sha256').update(raw).digest('hex');
+      const payload = [method.toUpperCase(), url, bodyHash, timestamp, nonce].join('\n');
+      return {
+        'x-hotkey': hotkey,
+        'x-signature': u8aToHex(sr25519Sign(payload, pair)),
+        'x-timestamp': timestamp,
+        'x-nonce': nonce
+      };
+    }
+  };
+};
+
+/** Stubs `doc.save()` for a model; returns the saved documents as plain objects */
+export const stubSave = (modelName: string): any[] => {
+  const saved: any[] = [];
+  vi.spyOn(model(modelName).prototype, 'save').mockImplementation(async function save(this: any) {
+    saved.push(this.toObject());
+    return this;
+  });
+  return saved;
+};
@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery, stubResolve } from './helpers';
+
+const URL = '/api/validation/sess-1/subnet-snapshot';
+const body = { validatorAddress: '5Validator', netuid: 1, block: 10 };
+const bodyHash = createHash('sha256').update(JSON.stringify(body)).digest('hex');
+const send = (payload: unknown = body) =>
+  request(app).post(URL).set('x-api-key', ADMIN_KEY).set('idempotency-key', 'key-1').send(payload as object);
+
+const stubOwnedSession = () =>
+  stubQuery('ValidationSession', 'findOne', { metadata: { validatorAddress: '5Validator' }, state: 'in-progress' });
+
+const duplicateKey = () =>
+  vi.spyOn(model('IdempotencyRecord'), 'create').mockRejectedValue(Object.assign(new Error('dup'), { code: 11000 }));
+
+describe('Idempotency-Key', () => {
+  it('holds a short lease while processing and stores the response with the full TTL', async () => {
+    stubOwnedSession();
+    stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+    const create = stubResolve('IdempotencyRecord', 'create', {});
+    const store = stubResolve('IdempotencyRecord', 'updateOne', {});
+
+    const res = await send();
+
+    expect(res.status).toBe(200);
+    const lease = (create.mock.calls[0][0] as any).expiresAt.getTime() - Date.now();
+    expect(lease).toBeLessThanOrEqual(5 * 60_000);
+    const stored = (store.mock.calls[0][1] as any).$set;
+    expect(stored).toMatchObject({ state: 'completed', statusCode: 200, responseBody: res.body });
+    expect(stored.expiresAt.getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60_000);
+  });
+
+  it('replays a completed response without re-running the handler', async () => {
+    stubOwnedSession();
+    duplicateKey();
+    stubQuery('IdempotencyRecord', 'findOne', {
+      requestHash: bodyHash, state: 'completed', statusCode: 200, responseBody: { success: true, replay: 1 }
+    });
+    const write = vi.spyOn(model('ValidationSession'), 'updateOne');
+
+    const res = await send();
+
+    expect(res.status).toBe(200);
+    expect(res.headers['idempotent-replayed']).toBe('true');
+    expect(res.body).toEqual({ success: true, replay: 1 });
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('rejects a reused key with a different body', async () => {
+    stubOwnedSession();
+    duplicateKey();
+    stubQuery('IdempotencyRecord', 'findOne', { requestHash: bodyHash, state: 'completed' });
+
+    const res = await send({ ...body, block: 11 });
+
+    expect(res.status).toBe(422);
+  });
+
+  it('asks the client to retry while the first request is in flight', async () => {
+    stubOwnedSession();
+    duplicateKey();
+    stubQuery('IdempotencyRecord', 'findOne', { requestHash: bodyHash, state: 'processing' });
+
+    const res = await send();
+
+    expect(res.status).toBe(409);
+    expect(res.headers['retry-after']).toBe('1');
+  });
+
+  it('answers 500 when the existing record cannot be read', async () => {
+    stubOwnedSession();
+    duplicateKey();
+    vi.spyOn(model('IdempotencyRecord'), 'findOne').mockImplementation(() => { throw new Error('db down'); });
+
+    const res = await send();
+
+    expect(res.status).toBe(500);
+  });
+
+  it('releases the key when the handler fails', async () => {
+    stubOwnedSession();
+    stubResolve('IdempotencyRecord', 'create', {});
+    vi.spyOn(model('ValidationSession'), 'updateOne').mockRejectedValue(new Error('db down'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const release = stubResolve('IdempotencyRecord', 'deleteOne', {});
+
+    const res = await send();
+
+    expect(res.status).toBe(500);
+    expect(release).toHaveBeenCalledWith({ key: 'key-1', scope: expect.stringContaining(URL) });
+  });
+
+  it('releases the key when the client goes away before a response is stored', async () => {
+    stubOwnedSession();
+    stubResolve('IdempotencyRecord', 'create', {});
+    vi.spyOn(model('ValidationSession'), 'updateOne').mockImplementation(() => query(new Promise(() => undefined)));
+    const release = stubResolve('IdempotencyRecord', 'deleteOne', {});
+
+    await expect(send().timeout(200)).rejects.toThrow(/Timeout/);
+
+    await vi.waitFor(() => expect(release).toHaveBeenCalledWith(
+      { key: 'key-1', scope: expect.stringContaining(URL), state: 'processing' }
+    ));
+  });
+});
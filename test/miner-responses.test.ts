@@ -0,0 +1,137 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery } from './helpers';
+
+const VALIDATOR = '5Validator';
+const url = (path: string) => `/api/validation/sess-1/${path}`;
+const post = (path: string, body: Record<string, unknown>) =>
+  request(app).post(url(path)).set('x-api-key', ADMIN_KEY).send({ validatorAddress: VALIDATOR, ...body });
+
+/**
+ * Simulates the session's stored minerUids: the guarded $push matches only
+ * for absent uids, the rewrite only for present ones.
+ */
+const stubStoredUids = (...stored: number[]) => {
+  const present = new Set(stored);
+  return vi.spyOn(model('ValidationSession'), 'updateOne').mockImplementation(async (filter: any) => {
+    const uid = filter['minerResponses.minerUid'];
+    const matched = typeof uid === 'object' ? !present.has(uid.$ne) : present.has(uid);
+    if (matched && typeof uid === 'object') present.add(uid.$ne);
+    return { matchedCount: matched ? 1 : 0 } as never;
+  });
+};
+
+beforeEach(() => {
+  stubQuery('ValidationSession', 'findOne', { metadata: { validatorAddress: VALIDATOR }, state: 'in-progress' });
+  // Registration, plagiarism and search indexing hit unstubbed models and log
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('single miner response', () => {
+  it('inserts with a $push guarded on the minerUid being absent', async () => {
+    const write = stubStoredUids();
+
+    const res = await post('miner-response', { minerUid: 3, success: true });
+
+    expect(res.status).toBe(200);
+    expect(res.body.action).toBe('inserted');
+    expect(write).toHaveBeenCalledOnce();
+    expect(write.mock.calls[0][0]).toMatchObject({ 'minerResponses.minerUid': { $ne: 3 } });
+  });
+
+  it('rewrites every entry for a re-submitted minerUid and keeps recorded rewards', async () => {
+    const write = stubStoredUids(3);
+
+    const res = await post('miner-response', { minerUid: 3, success: false });
+
+    expect(res.body.action).toBe('updated');
+    const [filter, update, options] = write.mock.calls[1] as any[];
+    expect(filter['minerResponses.minerUid']).toBe(3);
+    expect(options.arrayFilters).toEqual([{ 'r.minerUid': 3 }]);
+    expect(update.$set['minerResponses.$[r].success']).toBe(false);
+    expect(update.$unset).toHaveProperty(['minerResponses.$[r].errorMessage']);
+    expect(update.$unset).not.toHaveProperty(['minerResponses.$[r].rewardScore']);
+    expect(update.$unset).not.toHaveProperty(['minerResponses.$[r].computedReward']);
+  });
+});
+
+/**
+ * Applies a batch's bulkWrite to the given stored minerUids the way Mongo
+ * would: the guarded $push matches absent uids, the rewrite present ones, and
+ * nothing matches after `closeAfter` operations. Returns the bulkWrite spy.
+ */
+const stubBatch = (stored: number[], { snapshot = stored, closeAfter = Infinity } = {}) => {
+  const present = new Set(stored);
+  let state = 'in-progress';
+  vi.spyOn(model('ValidationSession'), 'findOne').mockImplementation((_filter: any, projection: any) =>
+    query(projection?.['minerResponses.minerUid']
+      ? { minerResponses: snapshot.map(minerUid => ({ minerUid })) }
+      : { metadata: { validatorAddress: VALIDATOR }, state }));
+  return vi.spyOn(model('ValidationSession'), 'bulkWrite').mockImplementation(async (ops: any) => {
+    let matchedCount = 0;
+    ops.forEach(({ updateOne: { filter, update } }: any, i: number) => {
+      if (i >= closeAfter) {
+        state = 'completed';
+        return;
+      }
+      const uid = filter['minerResponses.minerUid'];
+      if (update.$push ? present.has(uid.$ne) : !present.has(uid)) return;
+      if (update.$push) present.add(uid.$ne);
+      matchedCount++;
+    });
+    return { matchedCount } as never;
+  });
+};
+
+describe('batch miner responses', () => {
+  it('writes the whole batch in one ordered bulkWrite and reports a result per item', async () => {
+    const write = stubBatch([2]);
+    const single = vi.spyOn(model('ValidationSession'), 'updateOne');
+
+    const res = await post('miner-responses', {
+      responses: [{ minerUid: 1 }, { minerUid: 2 }, { minerUid: 1 }, { minerUid: -5 }]
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.accepted).toBe(2);
+    expect(res.body.results.map((r: any) => r.action ?? r.error)).toEqual([
+      'inserted', 'updated', 'Duplicate minerUid in batch', 'Validation failed'
+    ]);
+    expect(write).toHaveBeenCalledOnce();
+    expect(single).not.toHaveBeenCalled();
+    const [ops, options] = write.mock.calls[0] as any[];
+    expect(options).toEqual({ ordered: true });
+    expect(ops.map((op: any) => op.updateOne.filter['minerResponses.minerUid'])).toEqual([{ $ne: 1 }, 1, { $ne: 2 }, 2]);
+    expect(ops[1].updateOne.arrayFilters).toEqual([{ 'r.minerUid': 1 }]);
+    for (const op of ops) expect(op.updateOne.filter.state).toEqual({ $in: ['in-progress'] });
+  });
+
+  it('records a minerUid that another request inserted first without a second $push', async () => {
+    // The uid is absent when the batch reads the session but present by the time it is written
+    stubBatch([9], { snapshot: [] });
+
+    const res = await post('miner-responses', { responses: [{ minerUid: 9 }, { minerUid: 10 }] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.results.map((r: any) => r.success)).toEqual([true, true]);
+  });
+
+  it('reports the items after a mid-batch state change as not recorded', async () => {
+    // Miner 1 takes two updates; the session completes before miner 2's
+    stubBatch([], { closeAfter: 2 });
+
+    const res = await post('miner-responses', { responses: [{ minerUid: 1 }, { minerUid: 2 }, { minerUid: 3 }] });
+
+    expect(res.body.results.map((r: any) => r.success)).toEqual([true, false, false]);
+    expect(res.body.results[1].error).toBe('Session is no longer in-progress');
+  });
+
+  it('answers 409 when nothing could be written', async () => {
+    stubBatch([], { closeAfter: 0 });
+
+    const res = await post('miner-responses', { responses: [{ minerUid: 1 }] });
+
+    expect(res.status).toBe(409);
+  });
+});
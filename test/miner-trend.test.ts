@@ -0,0 +1,92 @@
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../src/server';
+import { stubQuery, stubResolve } from './helpers';
+
+const HOUR_MS = 3_600_000;
+const t1 = 1_760_000_000_000 - (1_760_000_000_000 % HOUR_MS);
+const t2 = t1 + HOUR_MS;
+
+const bucket = (bucketStart: number, minerUid: number, avgReward: number | null, extra: Record<string, unknown> = {}) => ({
+  _id: { bucket: bucketStart, minerUid },
+  avgReward,
+  avgAccuracy: null,
+  findingsCount: 0,
+  criticalFindingsCount: 0,
+  avgExecutionTime: null,
+  participations: 1,
+  successCount: 1,
+  ...extra
+});
+
+describe('GET /api/miners/:minerUid/trend', () => {
+  it('ranks the miner within each bucket and summarises streaks and volatility', async () => {
+    const aggregate = stubResolve('MinerHistory', 'aggregate', [
+      bucket(t2, 5, null, { participations: 2, successCount: 1 }),
+      bucket(t1, 6, 0.4),
+      bucket(t1, 5, 0.8, { avgAccuracy: 0.91234, findingsCount: 3 }),
+      bucket(t1, 7, 0.8)
+    ]);
+    stubQuery('MinerHistory', 'find', [
+      { rewardScore: 0.8, status: 'success' },
+      { rewardScore: 0.6, status: 'success' },
+      { rewardScore: 0, status: 'timeout' },
+      { rewardScore: 0.6, status: 'success' }
+    ]);
+
+    const res = await request(app).get('/api/miners/5/trend?timeRange=24h');
+
+    expect(res.status).toBe(200);
+    expect(res.body.bucketMs).toBe(HOUR_MS);
+    const [{ $group }] = (aggregate.mock.calls[0][0] as any[]).slice(1);
+    expect($group._id.bucket.$subtract[1].$mod[1]).toBe(HOUR_MS);
+
+    expect(res.body.data).toEqual([
+      expect.objectContaining({
+        timestamp: new Date(t1).toISOString(),
+        avgReward: 0.8,
+        avgAccuracy: 0.9123,
+        findingsCount: 3,
+        // Tied with miner 7, ahead of miner 6
+        percentileRank: 66.6667,
+        minersInBucket: 3
+      }),
+      expect.objectContaining({
+        timestamp: new Date(t2).toISOString(),
+        successRate: 0.5,
+        avgReward: null,
+        percentileRank: 50,
+        minersInBucket: 1
+      })
+    ]);
+    expect(res.body.streaks).toEqual({
+      current: { status: 'success', length: 1 },
+      longestSuccess: 2,
+      longestFailure: 1
+    });
+    expect(res.body.volatility).toEqual({
+      participations: 4,
+      meanReward: 0.5,
+      rewardStdDev: 0.3,
+      coefficientOfVariation: 0.6,
+      bucketRewardStdDev: 0.4
+    });
+  });
+
+  it('reports no coefficient of variation for a miner without rewards', async () => {
+    stubResolve('MinerHistory', 'aggregate', []);
+    stubQuery('MinerHistory', 'find', []);
+
+    const res = await request(app).get('/api/miners/5/trend');
+
+    expect(res.body).toMatchObject({ timeRange: '7d', bucketMs: 6 * HOUR_MS, data: [] });
+    expect(res.body.volatility.coefficientOfVariation).toBeNull();
+    expect(res.body.streaks.current).toEqual({ status: null, length: 0 });
+  });
+
+  it('rejects an unknown time range', async () => {
+    const res = await request(app).get('/api/miners/5/trend?timeRange=1y');
+
+    expect(res.status).toBe(400);
+  });
+});
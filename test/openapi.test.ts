@@ -0,0 +1,55 @@
+import request from 'supertest';
+import { beforeAll, describe, expect, it } from 'vitest';
+import app from '../src/server';
+
+let spec: any;
+
+beforeAll(async () => {
+  spec = (await request(app).get('/api/openapi.json')).body;
+});
+
+describe('OpenAPI document', () => {
+  it('lists every registered route with path parameters in OpenAPI form', () => {
+    expect(spec.openapi).toBe('3.0.3');
+    expect(Object.keys(spec.paths)).toEqual(expect.arrayContaining([
+      '/api/validation/start',
+      '/api/validation/{sessionId}/miner-response',
+      '/api/consensus/{netuid}/{epoch}',
+      '/api/findings/search',
+      '/api/health'
+    ]));
+    expect(spec.paths['/api/consensus/{netuid}/{epoch}/metagraph'].post).toBeDefined();
+  });
+
+  it('documents the body each route answers with instead of a generic envelope', () => {
+    const health = spec.paths['/api/health'].get.responses[200].content['application/json'].schema;
+    expect(health.required).toEqual(['success', 'status', 'timestamp']);
+    expect(health.properties.timestamp).toMatchObject({ type: 'string', format: 'date-time' });
+
+    const weights = spec.paths['/api/validation/{sessionId}/weights'].get.responses[200]
+      .content['application/json'].schema.properties.data;
+    expect(weights.properties.uids).toMatchObject({ type: 'array', items: { type: 'integer' } });
+    expect(spec.components.schemas.Success).toBeUndefined();
+  });
+
+  it('uses the registered status and content type', () => {
+    const start = spec.paths['/api/validation/start'].post.responses;
+    expect(start[201].description).toBe('Created');
+    expect(start[200]).toBeUndefined();
+
+    expect(spec.paths['/api/events/stream'].get.responses[200].content['text/event-stream']).toBeDefined();
+    const sarif = spec.paths['/api/validation/{sessionId}/sarif'].get.responses[200].content['application/sarif+json'];
+    expect(sarif.schema.properties.version).toMatchObject({ enum: ['2.1.0'] });
+  });
+
+  it('derives auth, limits and request schemas from the middleware chain', () => {
+    const start = spec.paths['/api/validation/start'].post;
+    expect(start.security).toEqual([{ ApiKey: [] }, { Hotkey: [], Signature: [], Timestamp: [], Nonce: [] }]);
+    expect(start.requestBody.content['application/json'].schema.properties.validatorAddress).toBeDefined();
+    expect(start.responses[429]).toEqual({ $ref: '#/components/responses/RateLimited' });
+
+    const search = spec.paths['/api/findings/search'].get;
+    expect(search.parameters.map((p: any) => p.name)).toContain('q');
+    expect(search.security).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery, stubResolve } from './helpers';
+
+const VALIDATOR = '5Validator';
+const REPO = 'https://github.com/acme/vault';
+const finding = {
+  id: 'F-1',
+  title: 'Reentrancy in withdraw',
+  severity: 'critical',
+  description: 'The withdraw function sends ether before zeroing the caller balance so it can be re-entered'
+};
+
+const post = (path: string, body: Record<string, unknown>) =>
+  request(app).post(`/api/validation/sess-2/${path}`).set('x-api-key', ADMIN_KEY)
+    .send({ validatorAddress: VALIDATOR, ...body });
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000);
+
+/**
+ * The submission the route stored, read back from the fingerprint upsert.
+ */
+const storedSubmission = (upsert: { mock: { calls: any[][] } }, index = 0): any =>
+  (upsert.mock.calls[0][0] as any[])[index].updateOne.update.$set;
+
+beforeEach(() => {
+  stubQuery('ValidationSession', 'findOne', { metadata: { validatorAddress: VALIDATOR }, state: 'in-progress' });
+  stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+  // Both updates of each batch item match
+  stubResolve('ValidationSession', 'bulkWrite', { matchedCount: 4 });
+  // Registrations and search indexing are not stubbed here
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('plagiarism scan', () => {
+  it('ranks an older original that shares findings above newer same-repo submissions before capping', async () => {
+    const upsert = stubResolve('SubmissionFingerprint', 'bulkWrite', {});
+    const originalId = new mongoose.Types.ObjectId();
+    const aggregate = vi.spyOn(model('SubmissionFingerprint'), 'aggregate').mockImplementation(async () => {
+      const prints = storedSubmission(upsert).findings.map((f: any) => f.fingerprint);
+      // Deliberately unordered: ranking must not rely on the database sort
+      return [
+        ...Array.from({ length: 250 }, (_, i) => ({
+          _id: new mongoose.Types.ObjectId(), sessionId: `recent-${i}`, minerUid: 100 + i,
+          repoKey: 'github.com/acme/vault', submittedAt: daysAgo(1), prints: []
+        })),
+        { _id: originalId, sessionId: 'old', minerUid: 7, submittedAt: daysAgo(20), prints }
+      ];
+    });
+    const load = vi.spyOn(model('SubmissionFingerprint'), 'find').mockImplementation(() => query([{
+      _id: originalId, sessionId: 'old', minerUid: 7, submittedAt: daysAgo(20),
+      findings: storedSubmission(upsert).findings.map((f: any) => ({ ...f, findingId: 'ORIG-1' }))
+    }]));
+    const suspects = stubResolve('PlagiarismSuspect', 'bulkWrite', {});
+
+    const res = await post('miner-response', {
+      minerUid: 3, success: true, githubUrl: REPO, agentFindings: { findings: [finding] }
+    });
+
+    expect(res.status).toBe(200);
+    expect(aggregate).toHaveBeenCalledOnce();
+    const selected: string[] = (load.mock.calls[0][0] as any)._id.$in;
+    expect(selected).toHaveLength(200);
+    expect(selected[0]).toBe(String(originalId));
+
+    const [write] = suspects.mock.calls[0][0] as any[];
+    expect(write.updateOne.update.$set).toMatchObject({
+      original: { sessionId: 'old', minerUid: 7 },
+      suspect: { sessionId: 'sess-2', minerUid: 3 },
+      crossSession: true,
+      findingOverlap: 1
+    });
+  });
+
+  it('scans a whole batch with one candidate query and one write per pair', async () => {
+    const upsert = stubResolve('SubmissionFingerprint', 'bulkWrite', {});
+    const aggregate = vi.spyOn(model('SubmissionFingerprint'), 'aggregate').mockImplementation(async () =>
+      [0, 1].map(i => {
+        const { sessionId, minerUid, submittedAt, findings } = storedSubmission(upsert, i);
+        return { _id: `id-${minerUid}`, sessionId, minerUid, submittedAt, prints: findings.map((f: any) => f.fingerprint) };
+      }));
+    vi.spyOn(model('SubmissionFingerprint'), 'find').mockImplementation(() => query([0, 1].map(i =>
+      ({ _id: `id-${storedSubmission(upsert, i).minerUid}`, ...storedSubmission(upsert, i) }))));
+    const suspects = stubResolve('PlagiarismSuspect', 'bulkWrite', {});
+
+    const res = await post('miner-responses', {
+      responses: [
+        { minerUid: 1, success: true, agentFindings: { findings: [finding] } },
+        { minerUid: 2, success: true, agentFindings: { findings: [{ ...finding, id: 'F-9' }] } }
+      ]
+    });
+
+    expect(res.body.accepted).toBe(2);
+    expect(upsert.mock.calls[0][0]).toHaveLength(2);
+    expect(aggregate).toHaveBeenCalledOnce();
+    const [match] = aggregate.mock.calls[0][0] as any[];
+    expect(match.$match.$nor).toEqual([{ sessionId: 'sess-2', minerUid: { $in: [1, 2] } }]);
+    expect(suspects.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it('does not compare a miner with its own hotkey under another UID', async () => {
+    const upsert = stubResolve('SubmissionFingerprint', 'bulkWrite', {});
+    vi.spyOn(model('SubmissionFingerprint'), 'aggregate').mockImplementation(async () => [
+      { _id: 'same-miner', sessionId: 's0', minerUid: 9, minerHotkey: '5Miner', submittedAt: daysAgo(2),
+        prints: storedSubmission(upsert).findings.map((f: any) => f.fingerprint) }
+    ]);
+    const load = vi.spyOn(model('SubmissionFingerprint'), 'find');
+    const suspects = vi.spyOn(model('PlagiarismSuspect'), 'bulkWrite');
+
+    const res = await post('miner-response', {
+      minerUid: 3, minerHotkey: '5Miner', success: true, agentFindings: { findings: [finding] }
+    });
+
+    expect(res.status).toBe(200);
+    expect(load).not.toHaveBeenCalled();
+    expect(suspects).not.toHaveBeenCalled();
+  });
+
+  it('fingerprints a finding without a description from its title alone', async () => {
+    const upsert = stubResolve('SubmissionFingerprint', 'bulkWrite', {});
+    vi.spyOn(model('SubmissionFingerprint'), 'aggregate').mockResolvedValue([]);
+    const longTitle = 'Unchecked return value of token transfer in withdraw';
+
+    await post('miner-response', {
+      minerUid: 3, success: true, agentFindings: {
+        findings: [
+          { id: 'T-1', title: longTitle, severity: 'high' },
+          // Seven words: too short to fingerprint without a description
+          { id: 'T-2', title: 'Missing zero address check in constructor', severity: 'low' }
+        ]
+      }
+    });
+
+    const { findings } = storedSubmission(upsert);
+    expect(findings.map((f: any) => f.findingId)).toEqual(['T-1']);
+    // Hashed from the title words only, with no "undefined" appended
+    expect(findings[0].fingerprint).toBe(createHash('sha1').update(longTitle.toLowerCase()).digest('hex').slice(0, 20));
+  });
+
+  it('finishes the scan before responding and still answers when it fails', async () => {
+    stubResolve('SubmissionFingerprint', 'bulkWrite', {});
+    vi.spyOn(model('SubmissionFingerprint'), 'aggregate').mockRejectedValue(new Error('db down'));
+    const logged = vi.mocked(console.error);
+
+    const res = await post('miner-response', { minerUid: 3, success: true, agentFindings: { findings: [finding] } });
+
+    expect(res.status).toBe(200);
+    expect(logged).toHaveBeenCalledWith('Plagiarism scan failed for sess-2 miner 3:', expect.any(Error));
+  });
+});
@@ -0,0 +1,50 @@
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { model, query, stubQuery, stubResolve } from './helpers';
+
+const CRON = '/api/cron/reaper';
+const bearer = { authorization: 'Bearer test-cron-secret' };
+
+describe('cron-invoked session reaper', () => {
+  it('rejects calls without the cron secret', async () => {
+    const res = await request(app).get(CRON).set('authorization', 'Bearer wrong');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('fails sessions stuck past the deadline, guarded on their current state', async () => {
+    vi.spyOn(model('ValidationSession'), 'find').mockImplementation((filter: any) =>
+      query(filter.state === 'in-progress' ? [{ sessionId: 'stuck-1' }, { sessionId: 'stuck-2' }] : []));
+    const fail = stubResolve('ValidationSession', 'updateMany', { modifiedCount: 2 });
+
+    const res = await request(app).get(CRON).set(bearer);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.lastReaped).toEqual({ pending: 0, 'in-progress': 2 });
+    expect(fail).toHaveBeenCalledOnce();
+    expect(fail.mock.calls[0][0]).toEqual({ sessionId: { $in: ['stuck-1', 'stuck-2'] }, state: 'in-progress' });
+    expect((fail.mock.calls[0][1] as any).$set).toEqual({ state: 'failed' });
+  });
+
+  it('records a failed pass instead of throwing', async () => {
+    vi.spyOn(model('ValidationSession'), 'find').mockImplementation(() => { throw new Error('db down'); });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const res = await request(app).get(CRON).set(bearer);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.lastError).toBe('db down');
+    expect(res.body.data.running).toBe(false);
+  });
+
+  it('leaves fresh sessions alone', async () => {
+    stubQuery('ValidationSession', 'find', []);
+    const fail = vi.spyOn(model('ValidationSession'), 'updateMany');
+
+    const res = await request(app).get(CRON).set(bearer);
+
+    expect(res.status).toBe(200);
+    expect(fail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, stubQuery, stubResolve } from './helpers';
+
+const VALIDATOR = '5Validator';
+
+const respond = (minerHotkey: string) =>
+  request(app).post('/api/validation/sess-1/miner-response').set('x-api-key', ADMIN_KEY)
+    .send({ validatorAddress: VALIDATOR, minerUid: 12, minerHotkey, success: true });
+
+beforeEach(() => {
+  stubQuery('ValidationSession', 'findOne', { metadata: { validatorAddress: VALIDATOR }, state: 'in-progress' });
+  stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+  // Plagiarism scan and search indexing are not stubbed here
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('miner registration tracking', () => {
+  it('extends the open period while the hotkey stays the same', async () => {
+    const extend = stubResolve('MinerRegistration', 'updateOne', { matchedCount: 1 });
+    const close = vi.spyOn(model('MinerRegistration'), 'updateMany');
+    const open = vi.spyOn(model('MinerRegistration'), 'create');
+
+    await respond('5Old');
+
+    expect(extend).toHaveBeenCalledOnce();
+    expect(extend.mock.calls[0][0]).toEqual({ minerUid: 12, hotkey: '5Old', active: true });
+    expect(close).not.toHaveBeenCalled();
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it('closes the previous owner and opens a new period on a hotkey change', async () => {
+    stubResolve('MinerRegistration', 'updateOne', { matchedCount: 0 });
+    const close = stubResolve('MinerRegistration', 'updateMany', { modifiedCount: 1 });
+    const open = stubResolve('MinerRegistration', 'create', {});
+
+    await respond('5New');
+
+    expect(open).toHaveBeenCalledOnce();
+    expect(close.mock.calls[0][0]).toEqual({ minerUid: 12, active: true });
+    expect(close.mock.calls[0][1]).toMatchObject({ $set: { active: false } });
+    expect(open.mock.calls[0][0]).toMatchObject({ minerUid: 12, hotkey: '5New', active: true });
+  });
+
+  it('treats a concurrent open of the same period as success', async () => {
+    stubResolve('MinerRegistration', 'updateOne', { matchedCount: 0 });
+    stubResolve('MinerRegistration', 'updateMany', { modifiedCount: 0 });
+    const open = vi.spyOn(model('MinerRegistration'), 'create')
+      .mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    await respond('5New');
+
+    expect(open).toHaveBeenCalledOnce();
+    expect(console.error).not.toHaveBeenCalledWith('Failed to record miner registration:', expect.anything());
+  });
+});
+
+describe('GET /api/miners/:minerUid/registrations', () => {
+  it('reports the current hotkey and how often the UID changed hands', async () => {
+    stubQuery('MinerRegistration', 'find', [
+      { minerUid: 12, hotkey: '5New', active: true, startedAt: '2026-03-01T00:00:00.000Z' },
+      { minerUid: 12, hotkey: '5Old', active: false, startedAt: '2026-01-01T00:00:00.000Z' }
+    ]);
+
+    const res = await request(app).get('/api/miners/12/registrations');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ minerUid: 12, currentHotkey: '5New', reRegistrations: 1 });
+    expect(res.body.registrations.map((r: any) => r.hotkey)).toEqual(['5New', '5Old']);
+  });
+
+  it('splits history stats into registration periods', async () => {
+    stubQuery('MinerHistory', 'find', []);
+    stubResolve('MinerHistory', 'aggregate', [{
+      overall: [{ avgReward: 0.5, totalParticipations: 3 }],
+      periods: [
+        { _id: '5New', avgReward: 0.9, totalParticipations: 1 },
+        { _id: '5Old', avgReward: 0.3, totalParticipations: 2 }
+      ]
+    }]);
+    stubQuery('MinerRegistration', 'find', [
+      { minerUid: 12, hotkey: '5New', active: true },
+      { minerUid: 12, hotkey: '5Old', active: false }
+    ]);
+    stubResolve('FindingTriage', 'aggregate', []);
+
+    const res = await request(app).get('/api/miners/12/history');
+
+    expect(res.status).toBe(200);
+    expect(res.body.currentHotkey).toBe('5New');
+    expect(res.body.periods.map((p: any) => [p.minerHotkey, p.current, p.avgReward])).toEqual([
+      ['5New', true, 0.9],
+      ['5Old', false, 0.3]
+    ]);
+  });
+});
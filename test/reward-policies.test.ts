@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, stubQuery, stubResolve } from './helpers';
+
+const VALIDATOR = '5Validator';
+const post = (path: string, body: Record<string, unknown>) =>
+  request(app).post(`/api/validation/sess-1/${path}`).set('x-api-key', ADMIN_KEY)
+    .send({ validatorAddress: VALIDATOR, ...body });
+
+const evaluated = {
+  minerUid: 4,
+  success: true,
+  responseTime: 300_000,
+  groundTruthEvaluation: { truePositives: 1, falsePositives: 0, falseNegatives: 1, precision: 1, recall: 0.5, f1: 0.6667 }
+};
+
+/** Stubs the reward transaction around a session; returns the session update */
+const stubSession = (configVersion: string | undefined, minerResponses: unknown[]) => {
+  stubQuery('ValidationSession', 'findOne', {
+    metadata: { validatorAddress: VALIDATOR, configVersion },
+    state: 'in-progress',
+    challengeInfo: { difficulty: 'medium' },
+    minerResponses
+  });
+  stubResolve('RewardUpdate', 'create', []);
+  stubResolve('MinerHistory', 'bulkWrite', {});
+  vi.spyOn(mongoose, 'startSession').mockResolvedValue({
+    withTransaction: (fn: () => Promise<void>) => fn(),
+    endSession: async () => undefined
+  } as never);
+  return stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('server-side reward computation', () => {
+  it('scores with the policy named by the config version and flags a large disagreement', async () => {
+    const update = stubSession('v2.3.1', [evaluated]);
+
+    const res = await post('miner-reward', { minerUid: 4, rewardScore: 0.2 });
+
+    expect(res.status).toBe(200);
+    // 0.45 * recall + 0.35 * precision + 0.2 * speed, no false positives
+    expect(res.body.computedReward).toEqual({ policyVersion: 'v2', score: 0.675, delta: -0.475, flagged: true });
+    const { $set } = update.mock.calls[0][1] as any;
+    expect($set['minerResponses.$[r].computedReward']).toMatchObject({
+      breakdown: { recall: 0.5, precision: 1, speed: 0.5, falsePositivePenalty: 0, difficultyMultiplier: 1 },
+      submittedScore: 0.2
+    });
+  });
+
+  it('falls back to the default policy and scores a failed response zero', async () => {
+    stubSession(undefined, [{ minerUid: 4, success: false }]);
+
+    const res = await post('miner-reward', { minerUid: 4, rewardScore: 0.1 });
+
+    expect(res.body.computedReward).toEqual({ policyVersion: 'v1', score: 0, delta: 0.1, flagged: false });
+  });
+
+  it('records a computed score per miner in a rewards update and counts the flagged ones', async () => {
+    const update = stubSession('v2', [evaluated, { minerUid: 5, success: false }]);
+
+    const res = await post('rewards-update', { minerUids: [4, 5, 6], rewards: [0.7, 0.9, 0.3] });
+
+    expect(res.status).toBe(200);
+    const { $set } = update.mock.calls[0][1] as any;
+    expect($set.computedRewards.map((r: any) => [r.minerUid, r.computedScore, r.flagged])).toEqual([
+      [4, 0.675, false],
+      [5, 0, true],
+      [6, undefined, undefined]
+    ]);
+    expect(Object.keys($set).filter(k => k.endsWith('.computedReward'))).toHaveLength(2);
+  });
+});
+
+describe('reward audit', () => {
+  it('lists only flagged rewards when asked', async () => {
+    stubQuery('ValidationSession', 'findOne', {
+      metadata: { configVersion: 'v2' },
+      minerResponses: [
+        { minerUid: 1, computedReward: { submittedScore: 0.9, score: 0.2, delta: 0.7, flagged: true, policyVersion: 'v2' } },
+        { minerUid: 2, computedReward: { submittedScore: 0.5, score: 0.5, delta: 0, flagged: false, policyVersion: 'v2' } },
+        { minerUid: 3 }
+      ]
+    });
+
+    const res = await request(app).get('/api/validation/sess-1/reward-audit?flaggedOnly=true');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ policyVersion: 'v2', disagreementThreshold: 0.25, flaggedCount: 1 });
+    expect(res.body.data.rewards.map((r: any) => r.minerUid)).toEqual([1]);
+  });
+
+  it('lists the available policies with the default', async () => {
+    const res = await request(app).get('/api/reward-policies');
+
+    expect(res.body.defaultPolicy).toBe('v1');
+    expect(res.body.data.map((p: any) => p.version)).toEqual(['v1', 'v2']);
+  });
+});
@@ -0,0 +1,162 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, stubQuery, stubResolve } from './helpers';
+
+const VALIDATOR = '5Validator';
+const post = (path: string, body: Record<string, unknown>) =>
+  request(app).post(`/api/validation/sess-1/${path}`).set('x-api-key', ADMIN_KEY)
+    .send({ validatorAddress: VALIDATOR, ...body });
+
+const rewardUpdate = (updateId: string, sessionId: string, minerUids: number[], rewards: number[]) =>
+  ({ updateId, sessionId, minerUids, rewards });
+
+const session = {
+  metadata: { validatorAddress: VALIDATOR },
+  state: 'in-progress',
+  minerResponses: [{ minerUid: 4, minerHotkey: '5Miner', agentFindings: { findingsCount: 2, findings: [] } }]
+};
+
+const notReplicaSet = () => Object.assign(
+  new Error('Transaction numbers are only allowed on a replica set member or mongos'), { code: 20 });
+
+/** Sessions and transactions for the reward routes; returns the MinerHistory writes */
+const stubRewardWrites = () => {
+  stubQuery('ValidationSession', 'findOne', session);
+  stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+  stubResolve('RewardUpdate', 'create', []);
+  vi.spyOn(mongoose, 'startSession').mockResolvedValue({
+    withTransaction: (fn: () => Promise<void>) => fn(),
+    endSession: async () => undefined
+  } as never);
+  return stubResolve('MinerHistory', 'bulkWrite', {});
+};
+
+describe('weight export', () => {
+  it('merges every RewardUpdate of a session, latest per miner', async () => {
+    stubQuery('RewardUpdate', 'find', [
+      rewardUpdate('u1', 'sess-1', [1], [0.5]),
+      rewardUpdate('u2', 'sess-1', [2], [0.25]),
+      rewardUpdate('u3', 'sess-1', [1], [1])
+    ]);
+
+    const res = await request(app).get('/api/validation/sess-1/weights');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.uids).toEqual([1, 2]);
+    expect(res.body.data.normalizedWeights).toEqual([0.8, 0.2]);
+    expect(res.body.data.updateIds).toEqual(['u1', 'u2', 'u3']);
+  });
+
+  it('caps the largest weight, scales to u16 and leaves zero rewards out', async () => {
+    stubQuery('RewardUpdate', 'find', [rewardUpdate('u1', 'sess-1', [4, 1, 3, 2], [0.25, 0.5, 0, 0.25])]);
+
+    const res = await request(app).get('/api/validation/sess-1/weights?maxWeightLimit=0.4');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({
+      uids: [1, 2, 4],
+      weights: [65535, 49151, 49151],
+      normalizedWeights: [0.4, 0.3, 0.3],
+      excludedUids: [3],
+      maxWeightLimit: 0.4
+    });
+  });
+
+  it('hashes the same vector identically whatever order the rewards arrived in', async () => {
+    stubQuery('RewardUpdate', 'find', [rewardUpdate('u1', 'sess-1', [2, 1], [0.3, 0.6])]);
+    const first = await request(app).get('/api/validation/sess-1/weights');
+    stubQuery('RewardUpdate', 'find', [rewardUpdate('u2', 'sess-1', [1, 2], [0.6, 0.3])]);
+    const second = await request(app).get('/api/validation/sess-1/weights');
+
+    expect(first.body.data.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.body.data.contentHash).toBe(first.body.data.contentHash);
+  });
+
+  it('rejects a max weight limit outside (0, 1]', async () => {
+    const res = await request(app).get('/api/validation/sess-1/weights?maxWeightLimit=0');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for a session without rewards', async () => {
+    stubQuery('RewardUpdate', 'find', []);
+
+    const res = await request(app).get('/api/validation/sess-1/weights');
+
+    expect(res.status).toBe(404);
+  });
+
+  it('averages the merged session rewards across an epoch', async () => {
+    stubQuery('ValidationSession', 'find', [{ sessionId: 'a' }, { sessionId: 'b' }]);
+    stubQuery('RewardUpdate', 'find', [
+      rewardUpdate('u1', 'a', [1], [0.2]),
+      rewardUpdate('u2', 'a', [2], [0.4]),
+      rewardUpdate('u3', 'b', [1, 2], [0.6, 0.4])
+    ]);
+
+    const res = await request(app).get(`/api/weights/1/2?validatorAddress=${VALIDATOR}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.sessionIds).toEqual(['a', 'b']);
+    expect(res.body.data.uids).toEqual([1, 2]);
+    expect(res.body.data.normalizedWeights).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('reward history', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('upserts one MinerHistory row per session and miner from /miner-reward', async () => {
+    const history = stubRewardWrites();
+
+    const res = await post('miner-reward', { minerUid: 4, rewardScore: 0.7 });
+
+    expect(res.status).toBe(200);
+    const [op] = history.mock.calls[0][0] as any[];
+    expect(op.updateOne.filter).toEqual({ sessionId: 'sess-1', minerUid: 4 });
+    expect(op.updateOne.upsert).toBe(true);
+    expect(op.updateOne.update.$set).toMatchObject({ rewardScore: 0.7, findingsCount: 2 });
+  });
+
+  it('upserts on the same key from /rewards-update, so both routes share a row', async () => {
+    const history = stubRewardWrites();
+
+    const res = await post('rewards-update', { minerUids: [4, 5], rewards: [0.7, 0] });
+
+    expect(res.status).toBe(200);
+    const filters = (history.mock.calls[0][0] as any[]).map(op => op.updateOne.filter);
+    expect(filters).toEqual([{ sessionId: 'sess-1', minerUid: 4 }, { sessionId: 'sess-1', minerUid: 5 }]);
+  });
+
+  it('still fails on other transaction errors', async () => {
+    stubRewardWrites();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(mongoose, 'startSession').mockResolvedValue({
+      withTransaction: () => Promise.reject(Object.assign(new Error('write conflict'), { code: 112 })),
+      endSession: async () => undefined
+    } as never);
+
+    const res = await post('rewards-update', { minerUids: [4], rewards: [0.7] });
+
+    expect(res.status).toBe(500);
+  });
+
+  it('refuses to write without a transaction on a standalone server', async () => {
+    const history = stubRewardWrites();
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(mongoose, 'startSession').mockResolvedValue({
+      withTransaction: () => Promise.reject(notReplicaSet()),
+      endSession: async () => undefined
+    } as never);
+
+    const res = await post('miner-reward', { minerUid: 4, rewardScore: 0.7 });
+
+    expect(res.status).toBe(500);
+    expect(history).not.toHaveBeenCalled();
+    expect(String(logged.mock.calls[0][1])).toContain('ALLOW_NON_TRANSACTIONAL_WRITES');
+  });
+});
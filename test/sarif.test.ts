@@ -0,0 +1,73 @@
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../src/server';
+import { stubQuery } from './helpers';
+
+const response = (minerUid: number, findings: unknown[]) => ({
+  minerUid,
+  success: true,
+  githubUrl: `https://github.com/miner-${minerUid}/agent`,
+  agentFindings: { findingsCount: findings.length, findings }
+});
+
+const reentrancy = {
+  id: 'F-1',
+  title: 'Reentrancy in withdraw',
+  severity: 'critical',
+  description: 'External call before the balance update',
+  remediation: 'Apply checks-effects-interactions',
+  codeLocation: 'contracts\\Vault.sol:42-48',
+  confidenceScore: 0.9
+};
+
+describe('SARIF export', () => {
+  it('writes one run per miner with findings, each finding a rule and a located result', async () => {
+    stubQuery('ValidationSession', 'findOne', {
+      projectId: 'proj-1',
+      minerResponses: [
+        response(3, [reentrancy, { id: 'F-2', title: 'Floating pragma', severity: 'low' }]),
+        response(4, [])
+      ]
+    });
+
+    const res = await request(app).get('/api/validation/sess-1/sarif');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^application\/sarif\+json/);
+    const log = JSON.parse(res.text);
+    expect(log).toMatchObject({ version: '2.1.0', $schema: 'https://json.schemastore.org/sarif-2.1.0.json' });
+    expect(log.runs).toHaveLength(1);
+
+    const [run] = log.runs;
+    expect(run.tool.driver.name).toBe('audit-agent-miner-3');
+    expect(run.automationDetails.id).toBe('sess-1/3');
+    expect(run.tool.driver.rules[0]).toMatchObject({
+      id: 'F-1',
+      help: { text: 'Apply checks-effects-interactions' },
+      defaultConfiguration: { level: 'error' },
+      properties: { 'security-severity': '9.5' }
+    });
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'F-1',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'Reentrancy in withdraw: External call before the balance update' },
+      locations: [{
+        physicalLocation: { artifactLocation: { uri: 'contracts/Vault.sol' }, region: { startLine: 42, endLine: 48 } }
+      }]
+    });
+    expect(run.results[1]).toMatchObject({ ruleIndex: 1, level: 'note', message: { text: 'Floating pragma' } });
+    expect(run.results[1].locations).toBeUndefined();
+  });
+
+  it('exports a single miner and 404s for one without a response', async () => {
+    stubQuery('ValidationSession', 'findOne', { minerResponses: [response(3, [reentrancy])] });
+    const found = await request(app).get('/api/validation/sess-1/miners/3/sarif');
+    stubQuery('ValidationSession', 'findOne', { minerResponses: [] });
+    const missing = await request(app).get('/api/validation/sess-1/miners/9/sarif');
+
+    expect(JSON.parse(found.text).runs.map((r: any) => r.properties.minerUid)).toEqual([3]);
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toBe('Miner response not found');
+  });
+});
@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery, stubResolve } from './helpers';
+
+const DAY_MS = 86_400_000;
+const emptyResult = { hits: [], total: [], severity: [], projectId: [], minerUid: [], validator: [] };
+
+const finding = (id: string) => ({
+  id,
+  title: `Finding ${id}`,
+  severity: 'high',
+  description: 'Unchecked return value of an external token transfer call'
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('GET /api/findings/search', () => {
+  it('bounds an unfiltered search to the default window before `to`', async () => {
+    const aggregate = stubResolve('FindingIndex', 'aggregate', [emptyResult]);
+    const to = new Date('2026-06-30T00:00:00Z');
+
+    const res = await request(app).get(`/api/findings/search?to=${to.toISOString()}`);
+
+    expect(res.status).toBe(200);
+    const [{ $match }] = aggregate.mock.calls[0][0] as any[];
+    expect($match.submittedAt).toEqual({ $gte: new Date(to.getTime() - 30 * DAY_MS), $lte: to });
+    expect(res.body.range).toEqual({ from: '2026-05-31T00:00:00.000Z', to: to.toISOString() });
+  });
+
+  it('searches all dates when given a query', async () => {
+    const aggregate = stubResolve('FindingIndex', 'aggregate', [emptyResult]);
+
+    const res = await request(app).get('/api/findings/search?q=reentrancy');
+
+    expect(res.status).toBe(200);
+    const [{ $match }] = aggregate.mock.calls[0][0] as any[];
+    expect($match.submittedAt).toBeUndefined();
+    expect(res.body.range).toEqual({ from: null, to: null });
+  });
+});
+
+describe('finding index writes', () => {
+  it('upserts each finding and drops the ones a re-submitted response no longer carries', async () => {
+    stubQuery('ValidationSession', 'findOne', {
+      sessionId: 'sess-1', metadata: { validatorAddress: '5Validator' }, state: 'in-progress'
+    });
+    stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+    const write = stubResolve('FindingIndex', 'bulkWrite', {});
+
+    const res = await request(app).post('/api/validation/sess-1/miner-response').set('x-api-key', ADMIN_KEY)
+      .send({ validatorAddress: '5Validator', minerUid: 4, success: true, agentFindings: { findings: [finding('A'), finding('B')] } });
+
+    expect(res.status).toBe(200);
+    const [ops, options] = write.mock.calls[0] as [any[], any];
+    expect(options).toEqual({ ordered: true });
+    expect(ops.map(op => op.updateOne?.filter)).toEqual([
+      { sessionId: 'sess-1', minerUid: 4, findingId: 'A' },
+      { sessionId: 'sess-1', minerUid: 4, findingId: 'B' },
+      undefined
+    ]);
+    expect(ops[0].updateOne.upsert).toBe(true);
+    expect(ops[2].deleteMany.filter).toEqual({ sessionId: 'sess-1', minerUid: 4, findingId: { $nin: ['A', 'B'] } });
+  });
+});
+
+describe('findings reindex job', () => {
+  const admin = (method: 'get' | 'post') =>
+    request(app)[method]('/api/admin/findings/reindex').set('x-api-key', ADMIN_KEY);
+
+  it('starts a run and answers 202 without indexing anything itself', async () => {
+    const start = stubQuery('ReindexJob', 'findOneAndUpdate', {
+      state: 'running', sessions: 0, findings: 0, batches: 0, startedAt: new Date()
+    });
+    const sessions = vi.spyOn(model('ValidationSession'), 'find');
+
+    const res = await admin('post');
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toMatchObject({ state: 'running', sessions: 0 });
+    expect(start.mock.calls[0][0]).toEqual({ name: 'findings', state: { $ne: 'running' } });
+    expect(sessions).not.toHaveBeenCalled();
+  });
+
+  it('refuses a second run while one is in progress', async () => {
+    vi.spyOn(model('ReindexJob'), 'findOneAndUpdate').mockImplementation(() =>
+      query(Promise.reject(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }))));
+
+    const res = await admin('post');
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toBe('A findings reindex is already running');
+  });
+
+  it('reports 404 before any run has started', async () => {
+    stubQuery('ReindexJob', 'findOne', null);
+
+    const res = await admin('get');
+
+    expect(res.status).toBe(404);
+  });
+
+  it('indexes a batch from the cron route and completes on a short batch', async () => {
+    const jobId = new mongoose.Types.ObjectId();
+    const lastSessionId = new mongoose.Types.ObjectId();
+    const sessionId = new mongoose.Types.ObjectId();
+    const job = { _id: jobId, runId: 'run-1', state: 'running', lastSessionId, sessions: 100, findings: 0, batches: 1 };
+    const updates = vi.spyOn(model('ReindexJob'), 'findOneAndUpdate')
+      .mockImplementationOnce(() => query(job))
+      .mockImplementationOnce(() => query({ ...job, state: 'completed', sessions: 101, findings: 1, batches: 2 }));
+    const find = stubQuery('ValidationSession', 'find', [{
+      _id: sessionId, sessionId: 'sess-9', metadata: { validatorAddress: '5Validator' },
+      minerResponses: [{ minerUid: 2, agentFindings: { findings: [finding('X')] } }]
+    }]);
+    const write = stubResolve('FindingIndex', 'bulkWrite', {});
+    stubQuery('ReindexJob', 'findOne', { ...job, state: 'completed', sessions: 101, findings: 1, batches: 2 });
+
+    const res = await request(app).get('/api/cron/reindex').set('Authorization', 'Bearer test-cron-secret');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ state: 'completed', sessions: 101, findings: 1 });
+    expect(updates.mock.calls[0][0]).toMatchObject({ name: 'findings', state: 'running' });
+    expect(find.mock.calls[0][0]).toMatchObject({ _id: { $gt: lastSessionId } });
+    expect(write).toHaveBeenCalledOnce();
+    expect(updates.mock.calls[1][0]).toEqual({ _id: jobId, runId: 'run-1' });
+    expect(updates.mock.calls[1][1]).toMatchObject({
+      $set: { lastSessionId: sessionId, state: 'completed' },
+      $inc: { sessions: 1, findings: 1, batches: 1 },
+      $unset: { lockedUntil: '', lastError: '' }
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../src/server';
+import { stubQuery } from './helpers';
+
+const LIST = '/api/validation/sessions';
+
+const row = (sessionId: string, iso: string) => ({ sessionId, timestamp: new Date(iso) });
+
+describe('GET /api/validation/sessions', () => {
+  it('returns a page with a cursor that resumes after the last row, ties broken by sessionId', async () => {
+    stubQuery('ValidationSession', 'find', [
+      row('s-3', '2026-05-03T00:00:00.000Z'),
+      row('s-2', '2026-05-02T00:00:00.000Z'),
+      row('s-1', '2026-05-02T00:00:00.000Z')
+    ]);
+
+    const first = await request(app).get(`${LIST}?limit=2`);
+
+    expect(first.status).toBe(200);
+    expect(first.body.data.map((s: any) => s.sessionId)).toEqual(['s-3', 's-2']);
+    expect(first.body.pagination).toMatchObject({ limit: 2, hasMore: true });
+
+    const find = stubQuery('ValidationSession', 'find', [row('s-1', '2026-05-02T00:00:00.000Z')]);
+    const second = await request(app).get(`${LIST}?limit=2&cursor=${first.body.pagination.nextCursor}`);
+
+    expect(second.body.pagination).toEqual({ limit: 2, hasMore: false, nextCursor: null });
+    const resumed = find.mock.calls[0][0] as any;
+    expect(resumed.$or).toEqual([
+      { timestamp: { $lt: new Date('2026-05-02T00:00:00.000Z') } },
+      { timestamp: new Date('2026-05-02T00:00:00.000Z'), sessionId: { $lt: 's-2' } }
+    ]);
+  });
+
+  it('maps filters onto the stored fields', async () => {
+    const find = stubQuery('ValidationSession', 'find', []);
+
+    const res = await request(app).get(
+      `${LIST}?state=completed,failed&validatorAddress=5Validator&difficulty=hard&from=2026-01-01T00:00:00Z&to=2026-02-01T00:00:00Z`
+    );
+
+    expect(res.status).toBe(200);
+    expect(find.mock.calls[0][0]).toEqual({
+      state: { $in: ['completed', 'failed'] },
+      'metadata.validatorAddress': '5Validator',
+      'challengeInfo.difficulty': 'hard',
+      timestamp: { $gte: new Date('2026-01-01T00:00:00Z'), $lte: new Date('2026-02-01T00:00:00Z') }
+    });
+  });
+
+  it('projects the requested fields plus the cursor key, and hides raw data by default', async () => {
+    const find = stubQuery('ValidationSession', 'find', []);
+
+    await request(app).get(`${LIST}?fields=state,challengeInfo`);
+    await request(app).get(LIST);
+
+    expect(Object.keys(find.mock.calls[0][1] as object)).toEqual([
+      'sessionId', 'timestamp', 'state',
+      'challengeInfo.projectId', 'challengeInfo.description', 'challengeInfo.difficulty', 'challengeInfo.createdAt'
+    ]);
+    expect(find.mock.calls[1][1]).toEqual({ 'challengeInfo.rawData': 0, 'validationErrors.stackTrace': 0 });
+  });
+
+  it('rejects a tampered cursor, an unknown state and a reversed range', async () => {
+    const cursor = await request(app).get(`${LIST}?cursor=bm90LWEtY3Vyc29y`);
+    const state = await request(app).get(`${LIST}?state=archived`);
+    const range = await request(app).get(`${LIST}?from=2026-02-01T00:00:00Z&to=2026-01-01T00:00:00Z`);
+
+    expect(cursor.status).toBe(400);
+    expect(cursor.body.details[0]).toMatchObject({ field: 'cursor', reason: 'invalid cursor' });
+    expect(state.status).toBe(400);
+    expect(range.status).toBe(400);
+  });
+});
@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubResolve } from './helpers';
+
+const VALIDATOR = '5Validator';
+const SESSION = 'sess-1';
+const url = (path: string) => `/api/validation/${SESSION}/${path}`;
+const post = (path: string, body: Record<string, unknown>) =>
+  request(app).post(url(path)).set('x-api-key', ADMIN_KEY).send({ validatorAddress: VALIDATOR, ...body });
+
+/**
+ * verifySessionOwner reads the session without a state filter; guarded reads
+ * inside a write carry `state: { $in }` and get `guarded` instead.
+ */
+const stubSession = (state: string, guarded: unknown = null) =>
+  vi.spyOn(model('ValidationSession'), 'findOne').mockImplementation((filter: any) =>
+    query(filter?.state ? guarded : { metadata: { validatorAddress: VALIDATOR }, state }));
+
+const stubTransactions = () =>
+  vi.spyOn(mongoose, 'startSession').mockResolvedValue({
+    withTransaction: (fn: () => Promise<void>) => fn(),
+    endSession: async () => undefined
+  } as never);
+
+describe('state-guarded session writes', () => {
+  it('rejects writes that the current state does not allow', async () => {
+    stubSession('completed');
+    const update = vi.spyOn(model('ValidationSession'), 'updateOne');
+
+    const res = await post('subnet-snapshot', { netuid: 1, block: 10 });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/Session is completed/);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('repeats the state check inside the update filter', async () => {
+    stubSession('in-progress');
+    const update = stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+
+    const res = await post('error', { stage: 'miner-query', message: 'timeout' });
+
+    expect(res.status).toBe(200);
+    expect(update.mock.calls[0][0]).toEqual({ sessionId: SESSION, state: { $in: ['pending', 'in-progress'] } });
+  });
+
+  it('returns 409 when the session completes between the check and the write', async () => {
+    stubSession('in-progress');
+    stubResolve('ValidationSession', 'updateOne', { matchedCount: 0 });
+
+    const res = await post('subnet-snapshot', { netuid: 1, block: 10 });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/changed while this request was processed/);
+  });
+
+  it('does not record a miner response once the session has left in-progress', async () => {
+    stubSession('in-progress');
+    const write = stubResolve('ValidationSession', 'updateOne', { matchedCount: 0 });
+
+    const res = await post('miner-response', { minerUid: 4, success: true });
+
+    expect(res.status).toBe(409);
+    expect(write.mock.calls[0][0]).toMatchObject({ state: { $in: ['in-progress'] } });
+  });
+
+  it('writes no reward rows when the session changed before the rewards update', async () => {
+    stubSession('in-progress', null);
+    stubTransactions();
+    const rewards = vi.spyOn(model('RewardUpdate'), 'create');
+    const history = vi.spyOn(model('MinerHistory'), 'insertMany');
+
+    const res = await post('rewards-update', { minerUids: [1], rewards: [0.5] });
+
+    expect(res.status).toBe(409);
+    expect(rewards).not.toHaveBeenCalled();
+    expect(history).not.toHaveBeenCalled();
+  });
+});
+
+describe('session transitions', () => {
+  it('refuses to complete a session that never started', async () => {
+    stubSession('pending');
+    const transition = vi.spyOn(model('ValidationSession'), 'findOneAndUpdate');
+
+    const res = await post('complete', {});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error).toBe('Illegal state transition: pending -> completed');
+    expect(transition).not.toHaveBeenCalled();
+  });
+
+  it('moves from the observed state and reports a lost race', async () => {
+    stubSession('in-progress');
+    const transition = vi.spyOn(model('ValidationSession'), 'findOneAndUpdate').mockImplementation(() => query(null));
+
+    const res = await post('fail', { reason: 'miner pool empty' });
+
+    expect(res.status).toBe(409);
+    expect(transition.mock.calls[0][0]).toEqual({ sessionId: SESSION, state: 'in-progress' });
+    expect((transition.mock.calls[0][1] as any).$set.state).toBe('failed');
+  });
+
+  it('allows failing a pending session', async () => {
+    stubSession('pending');
+    vi.spyOn(model('ValidationSession'), 'findOneAndUpdate').mockImplementation(() =>
+      query({ sessionId: SESSION, state: 'failed', metadata: { validatorAddress: VALIDATOR } }));
+
+    const res = await post('fail', { reason: 'no miners' });
+
+    expect(res.status).toBe(200);
+  });
+});
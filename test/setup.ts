@@ -0,0 +1,13 @@
+import mongoose from 'mongoose';
+import { beforeEach, vi } from 'vitest';
+import { stubQuery } from './helpers';
+
+// No database in tests: every model call a test does not stub fails fast
+// instead of buffering until the connection times out.
+mongoose.set('bufferCommands', false);
+
+beforeEach(() => {
+  // Request log lines and webhook fan-out are noise for every route test
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  if (mongoose.modelNames().includes('WebhookSubscription')) stubQuery('WebhookSubscription', 'find', []);
+});
@@ -0,0 +1,86 @@
+import request from 'supertest';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, TestSigner, createSigner, model, stubQuery, stubResolve, stubSave } from './helpers';
+
+const START = '/api/validation/start';
+const body = { sampledMinerUids: [1, 2, 3] };
+
+describe('hotkey-signed writes', () => {
+  let signer: TestSigner;
+
+  beforeAll(async () => {
+    signer = await createSigner();
+  });
+
+  it('accepts a valid signature from a registered hotkey and binds the session to it', async () => {
+    stubQuery('ApiKey', 'find', [{ scopes: ['session-write'] }]);
+    stubResolve('UsedNonce', 'create', {});
+    const saved = stubSave('ValidationSession');
+
+    const res = await request(app).post(START).set(signer.sign('POST', START, body)).send(body);
+
+    expect(res.status).toBe(201);
+    expect(saved[0].metadata.validatorAddress).toBe(signer.hotkey);
+  });
+
+  it('rejects a valid signature from a hotkey with no registry entry', async () => {
+    stubQuery('ApiKey', 'find', []);
+    const nonce = stubResolve('UsedNonce', 'create', {});
+
+    const res = await request(app).post(START).set(signer.sign('POST', START, body)).send(body);
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toMatch(/not a registered validator/);
+    expect(nonce).not.toHaveBeenCalled();
+  });
+
+  it('rejects a signature over a different body', async () => {
+    const headers = signer.sign('POST', START, body);
+    const res = await request(app).post(START).set(headers).send({ sampledMinerUids: [9] });
+
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Invalid signature');
+  });
+
+  it('rejects a stale timestamp', async () => {
+    const headers = { ...signer.sign('POST', START, body), 'x-timestamp': String(Date.now() - 10 * 60_000) };
+    const res = await request(app).post(START).set(headers).send(body);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error).toMatch(/outside allowed window/);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    stubQuery('ApiKey', 'find', [{ scopes: ['session-write'] }]);
+    vi.spyOn(model('UsedNonce'), 'create').mockRejectedValue(Object.assign(new Error('dup'), { code: 11000 }));
+
+    const res = await request(app).post(START).set(signer.sign('POST', START, body)).send(body);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe('Replayed request');
+  });
+});
+
+describe('API-key writes', () => {
+  it('lets the admin key name the validator in the body', async () => {
+    const saved = stubSave('ValidationSession');
+
+    const res = await request(app).post(START).set('x-api-key', ADMIN_KEY)
+      .send({ ...body, validatorAddress: '5Admin' });
+
+    expect(res.status).toBe(201);
+    expect(saved[0].metadata.validatorAddress).toBe('5Admin');
+  });
+
+  it('refuses a body-supplied validator for an unbound non-admin key', async () => {
+    stubQuery('ApiKey', 'findOne', { keyId: 'k2', scopes: ['session-write'] });
+    stubResolve('ApiKey', 'updateOne', {});
+
+    const res = await request(app).post(START).set('x-api-key', 'svk_unbound')
+      .send({ ...body, validatorAddress: '5Someone' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toMatch(/not bound to a validator/);
+  });
+});
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { describe, expect, it, vi } from 'vitest';
+import { ADMIN_KEY, stubQuery, stubResolve } from './helpers';
+
+// Read once when the server module loads, so it is set before the import below
+vi.hoisted(() => {
+  process.env.ALLOW_NON_TRANSACTIONAL_WRITES = 'true';
+});
+
+import app from '../src/server';
+
+const VALIDATOR = '5Validator';
+
+describe('ALLOW_NON_TRANSACTIONAL_WRITES', () => {
+  it('falls back to unsessioned writes on a standalone server and remembers it', async () => {
+    stubQuery('ValidationSession', 'findOne', {
+      metadata: { validatorAddress: VALIDATOR },
+      state: 'in-progress',
+      minerResponses: [{ minerUid: 4, minerHotkey: '5Miner', agentFindings: { findingsCount: 2, findings: [] } }]
+    });
+    stubResolve('ValidationSession', 'updateOne', { matchedCount: 1 });
+    stubResolve('RewardUpdate', 'create', []);
+    const history = stubResolve('MinerHistory', 'bulkWrite', {});
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const notReplicaSet = Object.assign(
+      new Error('Transaction numbers are only allowed on a replica set member or mongos'), { code: 20 });
+    const start = vi.spyOn(mongoose, 'startSession').mockResolvedValue({
+      withTransaction: () => Promise.reject(notReplicaSet),
+      endSession: async () => undefined
+    } as never);
+    const reward = (rewardScore: number) =>
+      request(app).post('/api/validation/sess-1/miner-reward').set('x-api-key', ADMIN_KEY)
+        .send({ validatorAddress: VALIDATOR, minerUid: 4, rewardScore });
+
+    const first = await reward(0.7);
+    const second = await reward(0.8);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(start).toHaveBeenCalledOnce();
+    expect(history.mock.calls[0][1]).toEqual({ session: undefined });
+  });
+});
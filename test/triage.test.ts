@@ -0,0 +1,110 @@
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, stubQuery, stubResolve } from './helpers';
+
+const FINDING_URL = '/api/validation/sess-1/miners/3/findings/F-1';
+
+const finding = (id: string) => ({ id, title: `Finding ${id}`, severity: 'high' });
+
+const triage = (body: Record<string, unknown>) =>
+  request(app).post(`${FINDING_URL}/triage`).set('x-api-key', ADMIN_KEY).send(body);
+
+/** The miner's recorded response carries F-1 and F-2; returns the triage upsert */
+const stubRecorded = () => {
+  stubQuery('ValidationSession', 'findOne', {
+    projectId: 'proj-1',
+    minerResponses: [{ minerUid: 3, minerHotkey: '5Miner', agentFindings: { findings: [finding('F-1'), finding('F-2')] } }]
+  });
+  return stubQuery('FindingTriage', 'findOneAndUpdate', { status: 'confirmed', history: [] });
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('finding triage', () => {
+  it('sets the verdict and appends it to the history, creating the record on first review', async () => {
+    const upsert = stubRecorded();
+
+    const res = await triage({ status: 'confirmed', comment: 'Reproduced on a fork' });
+
+    expect(res.status).toBe(200);
+    const [filter, update, options] = upsert.mock.calls[0] as any[];
+    expect(filter).toEqual({ sessionId: 'sess-1', minerUid: 3, findingId: 'F-1' });
+    expect(update.$set).toMatchObject({ status: 'confirmed' });
+    expect(update.$unset).toEqual({ duplicateOf: '' });
+    expect(update.$push.history).toMatchObject({ action: 'status', status: 'confirmed', comment: 'Reproduced on a fork' });
+    expect(update.$setOnInsert).toMatchObject({ minerHotkey: '5Miner', projectId: 'proj-1', severity: 'high' });
+    expect(options).toMatchObject({ upsert: true, new: true });
+  });
+
+  it('links a duplicate to a recorded finding, defaulting to the same session', async () => {
+    const upsert = stubRecorded();
+
+    const res = await triage({ status: 'duplicate', duplicateOf: { minerUid: 3, findingId: 'F-2' } });
+
+    expect(res.status).toBe(200);
+    expect((upsert.mock.calls[0][1] as any).$set.duplicateOf).toEqual({ sessionId: 'sess-1', minerUid: 3, findingId: 'F-2' });
+  });
+
+  it('rejects a duplicate of itself or of a finding that was never recorded', async () => {
+    const upsert = stubRecorded();
+
+    const self = await triage({ status: 'duplicate', duplicateOf: { minerUid: 3, findingId: 'F-1' } });
+    const unknown = await triage({ status: 'duplicate', duplicateOf: { minerUid: 3, findingId: 'F-9' } });
+
+    expect(self.body.details[0]).toEqual({ location: 'body', field: 'duplicateOf', reason: 'must reference a different finding' });
+    expect(unknown.body.details[0].reason).toBe('must reference a recorded finding');
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('only accepts duplicateOf with the duplicate status', async () => {
+    const res = await triage({ status: 'confirmed', duplicateOf: { minerUid: 3, findingId: 'F-2' } });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details[0]).toMatchObject({ field: 'duplicateOf', reason: 'only allowed when status is duplicate' });
+  });
+
+  it('404s for a finding the miner never reported', async () => {
+    stubRecorded();
+
+    const res = await request(app).post('/api/validation/sess-1/miners/3/findings/F-9/triage')
+      .set('x-api-key', ADMIN_KEY).send({ status: 'false-positive' });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('adds a comment without touching the verdict', async () => {
+    const upsert = stubRecorded();
+
+    const res = await request(app).post(`${FINDING_URL}/comments`).set('x-api-key', ADMIN_KEY)
+      .send({ comment: 'Needs a second look' });
+
+    expect(res.status).toBe(200);
+    const update = upsert.mock.calls[0][1] as any;
+    expect(Object.keys(update.$set)).toEqual(['updatedAt']);
+    expect(update.$push.history).toMatchObject({ action: 'comment', comment: 'Needs a second look' });
+  });
+
+  it('requires a key with the triage scope', async () => {
+    stubQuery('ApiKey', 'findOne', { keyId: 'k1', validatorAddress: '5Validator', scopes: ['session-write'] });
+    stubResolve('ApiKey', 'updateOne', {});
+    const upsert = vi.spyOn(model('FindingTriage'), 'findOneAndUpdate');
+
+    const res = await request(app).post(`${FINDING_URL}/triage`).set('x-api-key', 'svk_validator')
+      .send({ status: 'confirmed' });
+
+    expect(res.status).toBe(403);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('404s when a finding has not been triaged yet', async () => {
+    stubQuery('FindingTriage', 'findOne', null);
+
+    const res = await request(app).get(`${FINDING_URL}/triage`);
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('No triage recorded for this finding');
+  });
+});
@@ -0,0 +1,57 @@
+import request from 'supertest';
+import { describe, expect, it } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, stubSave } from './helpers';
+
+describe('request validation', () => {
+  it('coerces string numbers in a lenient body', async () => {
+    const saved = stubSave('ValidationSession');
+
+    const res = await request(app).post('/api/validation/start').set('x-api-key', ADMIN_KEY)
+      .send({ validatorAddress: '5Validator', sampledMinerUids: ['1', ' 2 '] });
+
+    expect(res.status).toBe(201);
+    expect(saved[0].sampledMinerUids).toEqual([1, 2]);
+  });
+
+  it('reports every invalid field with its location and path', async () => {
+    const res = await request(app).post('/api/validation/start').set('x-api-key', ADMIN_KEY)
+      .send({ validatorAddress: '', sampledMinerUids: ['1', 'two', -3] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Validation failed');
+    expect(res.body.details.map((d: any) => `${d.location}:${d.field}`)).toEqual([
+      'body:validatorAddress',
+      'body:sampledMinerUids.1',
+      'body:sampledMinerUids.2'
+    ]);
+  });
+
+  it('does not coerce a strict body but always coerces params', async () => {
+    const res = await request(app).post('/api/consensus/x/7/metagraph').set('x-api-key', ADMIN_KEY)
+      .send({ stakes: [{ hotkey: '5A', stake: '10' }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([
+      { location: 'params', field: 'netuid', reason: 'Expected number, received string' },
+      { location: 'body', field: 'stakes.0.stake', reason: 'Expected number, received string' }
+    ]);
+  });
+
+  it('reports refinements on the field they name', async () => {
+    const res = await request(app).post('/api/consensus/1/7/metagraph').set('x-api-key', ADMIN_KEY)
+      .send({ stakes: [{ hotkey: '5A', stake: 1 }, { hotkey: '5A', stake: 2 }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([{ location: 'body', field: 'stakes', reason: 'hotkeys must be unique' }]);
+  });
+
+  it('reports an invalid query value instead of clamping it', async () => {
+    const res = await request(app).get('/api/validation/sess-1/weights?maxWeightLimit=2');
+
+    expect(res.status).toBe(400);
+    expect(res.body.details).toEqual([
+      { location: 'query', field: 'maxWeightLimit', reason: 'Number must be less than or equal to 1' }
+    ]);
+  });
+});
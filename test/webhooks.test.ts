@@ -0,0 +1,107 @@
+import { createHmac } from 'crypto';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import app from '../src/server';
+import { ADMIN_KEY, model, query, stubQuery, stubResolve } from './helpers';
+
+const CRON = '/api/cron/webhooks';
+const bearer = { authorization: 'Bearer test-cron-secret' };
+const SECRET = 'whsec_test';
+
+const subscription = { subscriptionId: 'sub-1', url: 'https://hooks.example.com/in', secret: SECRET, active: true };
+
+/** Hands one due delivery to the worker, then reports the queue empty */
+const queueDelivery = (overrides: Record<string, unknown> = {}) => {
+  const delivery = {
+    deliveryId: 'd-1', subscriptionId: 'sub-1', eventType: 'session.completed', attempts: 0,
+    payload: { type: 'session.completed', sessionId: 'sess-1' }, ...overrides
+  };
+  vi.spyOn(model('WebhookDelivery'), 'findOneAndUpdate')
+    .mockImplementationOnce(() => query(delivery))
+    .mockImplementation(() => query(null));
+  return stubResolve('WebhookDelivery', 'updateOne', {});
+};
+
+beforeEach(() => {
+  stubQuery('WebhookSubscription', 'findOne', subscription);
+});
+
+describe('webhook delivery', () => {
+  it('posts a signed payload and marks it delivered', async () => {
+    const update = queueDelivery();
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+    const res = await request(app).get(CRON).set(bearer);
+
+    expect(res.body.data.processed).toBe(1);
+    const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(subscription.url);
+    const headers = init.headers as Record<string, string>;
+    const [, t, v1] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(headers['X-Webhook-Signature'])!;
+    expect(v1).toBe(createHmac('sha256', SECRET).update(`${t}.${init.body}`).digest('hex'));
+    expect((update.mock.calls[0][1] as any).$set).toMatchObject({ status: 'delivered', attempts: 1, lastStatusCode: 204 });
+  });
+
+  it('backs off exponentially after a failed attempt', async () => {
+    const update = queueDelivery({ attempts: 2 });
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 503 }));
+
+    await request(app).get(CRON).set(bearer);
+
+    const $set = (update.mock.calls[0][1] as any).$set;
+    expect($set).toMatchObject({ status: 'pending', attempts: 3, lastError: 'HTTP 503' });
+    expect($set.nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(119_000);
+  });
+
+  it('dead-letters after the last attempt', async () => {
+    const update = queueDelivery({ attempts: 7 });
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await request(app).get(CRON).set(bearer);
+
+    expect((update.mock.calls[0][1] as any).$set).toMatchObject({ status: 'dead-letter', lastError: 'connect ECONNREFUSED' });
+  });
+
+  it('dead-letters deliveries for disabled subscriptions without sending', async () => {
+    stubQuery('WebhookSubscription', 'findOne', { ...subscription, active: false });
+    const update = queueDelivery();
+    const fetch = vi.spyOn(globalThis, 'fetch');
+
+    await request(app).get(CRON).set(bearer);
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect((update.mock.calls[0][1] as any).$set.status).toBe('dead-letter');
+  });
+});
+
+describe('webhook enqueueing', () => {
+  it('queues the deliveries for a failed session before responding', async () => {
+    vi.spyOn(model('ValidationSession'), 'findOne').mockImplementation(() =>
+      query({ metadata: { validatorAddress: '5Validator' }, state: 'in-progress' }));
+    vi.spyOn(model('ValidationSession'), 'findOneAndUpdate').mockImplementation(() =>
+      query({ sessionId: 'sess-1', state: 'failed', metadata: { validatorAddress: '5Validator' } }));
+    stubQuery('WebhookSubscription', 'find', [{ subscriptionId: 'sub-1', events: ['session.failed'] }]);
+    let queued: any[] | undefined;
+    vi.spyOn(model('WebhookDelivery'), 'insertMany').mockImplementation(async (docs: any) => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      queued = docs;
+      return docs;
+    });
+
+    const res = await request(app).post('/api/validation/sess-1/fail').set('x-api-key', ADMIN_KEY)
+      .send({ validatorAddress: '5Validator', reason: 'no miners' });
+
+    expect(res.status).toBe(200);
+    expect(queued).toHaveLength(1);
+    expect(queued![0]).toMatchObject({ subscriptionId: 'sub-1', eventType: 'session.failed', status: 'pending' });
+  });
+});
+
+describe('webhook subscriptions', () => {
+  it('rejects non-https targets', async () => {
+    const res = await request(app).post('/api/admin/webhooks').set('x-api-key', ADMIN_KEY)
+      .send({ url: 'ftp://hooks.example.com', events: ['session.completed'] });
+
+    expect(res.status).toBe(400);
+  });
+});
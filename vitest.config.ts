@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    env: {
+      NODE_ENV: 'test',
+      MONGO_URI: 'mongodb://127.0.0.1:1/validator-test',
+      API_KEY: 'test-admin-key',
+      CRON_SECRET: 'test-cron-secret'
+    },
+    restoreMocks: true
+  }
+});